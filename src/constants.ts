@@ -1,4 +1,9 @@
-export const jwksRetryDelayMs = 100;
 export const jwksMaxAttempts = 3;
+export const jwksRetryBaseDelayMs = 100;
+export const jwksRetryMaxDelayMs = 5000;
+export const defaultRequiredClaims = ['exp', 'iat', 'sub'];
+export const supportedAlgorithms = [
+  'RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512', 'EdDSA',
+];
 export const pemHeader = '-----BEGIN PUBLIC KEY-----';
 export const pemFooter = '-----END PUBLIC KEY-----';
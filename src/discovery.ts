@@ -0,0 +1,253 @@
+import { OidcDiscoveryClientConfig, OidcDiscoveryDocument } from './types';
+import { JwksError, JwtValidationErrorCode } from './errors';
+
+const DEFAULT_CACHE_TTL = 3600000;
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * After a failed refresh, the previously fetched discovery document keeps being used, and the next refresh is
+ * attempted after this interval (in milliseconds) instead of on every call.
+ */
+const RETRY_INTERVAL = 30000;
+
+/**
+ * Before a discovery document has ever been fetched, failed requests are retried after this delay (in milliseconds),
+ * doubled after every consecutive failure up to the retry interval. Calls in between fail with the last error.
+ */
+const FAILURE_BACKOFF_BASE = 1000;
+
+/**
+ * Internal OpenID Connect discovery client that resolves an issuer's metadata.
+ *
+ * The discovery document is fetched from `<issuer>/.well-known/openid-configuration` and cached. Before a document
+ * is used, its `issuer` must exactly match the expected issuer (OpenID Connect Discovery 1.0 Section 4.3), which
+ * prevents a misconfigured or compromised endpoint from pointing the SDK at another issuer's keys.
+ *
+ * Key features:
+ * - **Caching** of the discovery document for a configurable TTL
+ * - **Single-flight requests**, so concurrent callers share one request to the discovery endpoint
+ * - **Stale fallback** to the previously fetched document when a refresh fails
+ * - **Failure backoff** while no document has been fetched yet, so an outage doesn't turn every call into a request
+ *
+ * @internal This class is not intended for direct external use
+ */
+export class OidcDiscoveryClient {
+  /**
+   * The expected issuer, which the discovered `issuer` must match.
+   */
+  private issuer: string;
+  /**
+   * The URL of the discovery document.
+   */
+  private discoveryUri: string;
+  /**
+   * How long the discovery document is cached, in milliseconds.
+   */
+  private cacheTtl: number;
+  /**
+   * The fetch implementation used to request the discovery document.
+   */
+  private fetch: typeof fetch;
+  /**
+   * Timeout for the discovery request, in milliseconds. 0 disables the timeout.
+   */
+  private timeoutMs: number;
+  /**
+   * Additional headers sent with the discovery request.
+   */
+  private headers: Record<string, string>;
+  /**
+   * Time source returning the current time in epoch milliseconds.
+   */
+  private clock: () => number;
+  /**
+   * The last successfully fetched discovery document. Null until the first successful fetch.
+   */
+  private document: OidcDiscoveryDocument | null = null;
+  /**
+   * When the discovery document should next be requested, in epoch milliseconds: once the cached document expires,
+   * or once the backoff after a failed request has elapsed.
+   */
+  private expiresAt = 0;
+  /**
+   * The error of the last failed request, returned until the next request while no document has been fetched yet.
+   */
+  private lastError: unknown;
+  /**
+   * Number of consecutive failed requests.
+   */
+  private consecutiveFailures = 0;
+  /**
+   * Wraps each discovery request, e.g. with the JWKS client's circuit breaker. Undefined if requests are made as is.
+   */
+  private requestGuard: ((request: () => Promise<OidcDiscoveryDocument>) => Promise<OidcDiscoveryDocument>) | undefined;
+  /**
+   * The in-flight discovery request, if any. Null when no request is in progress.
+   */
+  private pendingFetch: Promise<OidcDiscoveryDocument> | null = null;
+
+  /**
+   * Creates a new OidcDiscoveryClient instance.
+   *
+   * @param config - Configuration object specifying the issuer, cache TTL and request settings
+   * @throws {Error} If the issuer is missing, the cache TTL is not a positive integer or the request guard is not a
+   * function
+   *
+   * @example
+   * ```typescript
+   * const client = new OidcDiscoveryClient({ issuer: 'https://myapp.wristband.dev' });
+   * const jwksUri = await client.getJwksUri();
+   * ```
+   */
+  constructor(config: OidcDiscoveryClientConfig) {
+    if (!config?.issuer?.trim()) {
+      throw new Error('A valid issuer is required for OpenID Connect discovery.');
+    }
+    if (config.cacheTtl !== undefined && (!Number.isInteger(config.cacheTtl) || config.cacheTtl <= 0)) {
+      throw new Error('The OpenID Connect discovery cache TTL must be a positive integer number of milliseconds.');
+    }
+    if (config.requestGuard !== undefined && typeof config.requestGuard !== 'function') {
+      throw new Error('The OpenID Connect discovery request guard must be a function.');
+    }
+    this.issuer = config.issuer;
+    this.discoveryUri = `${config.issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`;
+    this.cacheTtl = config.cacheTtl ?? DEFAULT_CACHE_TTL;
+    // Resolve the global fetch on each request, so that it can be polyfilled or replaced after construction
+    this.fetch = config.fetch ?? ((input, init): Promise<Response> => fetch(input, init));
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.headers = { ...config.headers };
+    this.clock = config.clock ?? ((): number => Date.now());
+    this.requestGuard = config.requestGuard;
+  }
+
+  /**
+   * Get the issuer's discovery document, fetching it if it isn't cached or its cache TTL has elapsed. Until a
+   * document has been fetched, a failed request is only retried after a backoff delay.
+   *
+   * @returns Promise resolving to the validated discovery document
+   * @throws {JwksError} With code `jwks_unavailable` if the document can't be fetched (and no previously fetched
+   * document is available), is invalid, or was published for a different issuer
+   */
+  getDocument(): Promise<OidcDiscoveryDocument> {
+    if (this.clock() < this.expiresAt) {
+      return this.document ? Promise.resolve(this.document) : Promise.reject(this.lastError);
+    }
+    if (!this.pendingFetch) {
+      const request = (): Promise<OidcDiscoveryDocument> => this.requestDocument();
+      this.pendingFetch = (this.requestGuard ? this.requestGuard(request) : request())
+        .then(
+          (document) => {
+            this.document = document;
+            this.expiresAt = this.clock() + this.cacheTtl;
+            this.consecutiveFailures = 0;
+            return document;
+          },
+          (error) => {
+            this.consecutiveFailures++;
+            if (!this.document) {
+              const backoff = FAILURE_BACKOFF_BASE * 2 ** (this.consecutiveFailures - 1);
+              this.expiresAt = this.clock() + Math.min(backoff, RETRY_INTERVAL);
+              this.lastError = error;
+              throw error;
+            }
+            this.expiresAt = this.clock() + Math.min(this.cacheTtl, RETRY_INTERVAL);
+            return this.document;
+          }
+        )
+        .finally(() => {
+          this.pendingFetch = null;
+        });
+    }
+    return this.pendingFetch;
+  }
+
+  /**
+   * Get the URL of the issuer's JSON Web Key Set from the discovery document.
+   *
+   * @returns Promise resolving to the discovered `jwks_uri`
+   * @throws {JwksError} With code `jwks_unavailable` if the discovery document can't be resolved
+   */
+  async getJwksUri(): Promise<string> {
+    return (await this.getDocument()).jwks_uri;
+  }
+
+  /**
+   * Get the signing algorithms advertised in the discovery document's `id_token_signing_alg_values_supported`.
+   *
+   * @returns Promise resolving to the advertised algorithms, or undefined if the issuer doesn't advertise them
+   * @throws {JwksError} With code `jwks_unavailable` if the discovery document can't be resolved
+   */
+  async getSigningAlgorithms(): Promise<string[] | undefined> {
+    return (await this.getDocument()).id_token_signing_alg_values_supported;
+  }
+
+  /**
+   * Makes a single discovery request and validates the returned document.
+   *
+   * @private
+   * @returns Promise resolving to the validated discovery document
+   * @throws {JwksError} With code `jwks_unavailable` if the request fails or times out, the endpoint responds with
+   * an HTTP error status, or the document is invalid or was published for a different issuer
+   */
+  private async requestDocument(): Promise<OidcDiscoveryDocument> {
+    const controller = this.timeoutMs > 0 ? new AbortController() : undefined;
+    const timeout = controller ? setTimeout(() => controller.abort(), this.timeoutMs) : undefined;
+    let document: OidcDiscoveryDocument;
+    try {
+      const response = await this.fetch(this.discoveryUri, { headers: this.headers, signal: controller?.signal });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      document = await response.json() as OidcDiscoveryDocument;
+    } catch (error) {
+      const message = controller?.signal.aborted
+        ? `Request timed out after ${this.timeoutMs}ms`
+        : error instanceof Error ? error.message : String(error);
+      throw new JwksError(
+        `Failed to fetch OpenID Connect discovery document: ${message}`,
+        JwtValidationErrorCode.JWKS_UNAVAILABLE
+      );
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (document?.issuer !== this.issuer) {
+      throw new JwksError(
+        `OpenID Connect discovery issuer mismatch. Expected ${this.issuer}, got ${document?.issuer}`,
+        JwtValidationErrorCode.JWKS_UNAVAILABLE
+      );
+    }
+    if (typeof document.jwks_uri !== 'string' || !document.jwks_uri.trim()) {
+      throw new JwksError(
+        'Invalid OpenID Connect discovery document: missing jwks_uri',
+        JwtValidationErrorCode.JWKS_UNAVAILABLE
+      );
+    }
+    const algorithms = document.id_token_signing_alg_values_supported;
+    if (algorithms !== undefined && (!Array.isArray(algorithms) || algorithms.some(alg => typeof alg !== 'string'))) {
+      throw new JwksError(
+        'Invalid OpenID Connect discovery document: id_token_signing_alg_values_supported must be an array of strings',
+        JwtValidationErrorCode.JWKS_UNAVAILABLE
+      );
+    }
+    return document;
+  }
+}
+
+/**
+ * Factory function for creating a configured OpenID Connect discovery client instance.
+ *
+ * @param config - Configuration object specifying the issuer, cache TTL and request settings
+ * @returns Configured OidcDiscoveryClient instance
+ *
+ * @example
+ * ```typescript
+ * const discoveryClient = createOidcDiscoveryClient({ issuer: 'https://myapp.wristband.dev' });
+ * const jwksClient = createJwksClient({ jwksUri: () => discoveryClient.getJwksUri() });
+ * ```
+ *
+ * @internal This function is used internally by the JWT validator factory
+ */
+export function createOidcDiscoveryClient(config: OidcDiscoveryClientConfig): OidcDiscoveryClient {
+  return new OidcDiscoveryClient(config);
+}
@@ -0,0 +1,109 @@
+/**
+ * Stable, machine-readable codes describing why a token or Authorization header was rejected. Unlike error
+ * messages, these values will not change between releases and are safe to branch on (e.g. to choose between
+ * HTTP 400, 401 and 503 responses).
+ */
+export enum JwtValidationErrorCode {
+  /** No token was provided, or the Authorization header did not contain a token value. */
+  MISSING_TOKEN = 'missing_token',
+  /** The token is not a well-formed JWT (wrong number of segments, bad base64url, or invalid JSON). */
+  MALFORMED = 'malformed',
+  /** The token header specifies an algorithm that is not in the allowlist. */
+  BAD_ALGORITHM = 'bad_algorithm',
+  /** A required claim is missing from the token payload. */
+  MISSING_CLAIM = 'missing_claim',
+  /** A registered claim has the wrong JSON type (e.g. a string `exp` or a non-string `sub`). */
+  INVALID_CLAIM = 'invalid_claim',
+  /** The `iss` claim does not match the expected issuer. */
+  BAD_ISSUER = 'bad_issuer',
+  /** The `aud` claim does not match the expected audience. */
+  BAD_AUDIENCE = 'bad_audience',
+  /** The token's `exp` claim is in the past. */
+  EXPIRED = 'expired',
+  /** The token's `nbf` claim is in the future. */
+  NOT_YET_VALID = 'not_yet_valid',
+  /** The token's `iat` claim is in the future. */
+  ISSUED_IN_FUTURE = 'issued_in_future',
+  /** The token was issued longer ago than the configured maximum token age. */
+  TOKEN_TOO_OLD = 'token_too_old',
+  /** The token's lifetime (`exp - iat`) exceeds the configured maximum token lifetime. */
+  LIFETIME_TOO_LONG = 'lifetime_too_long',
+  /** The token header does not contain a `kid` (key ID). */
+  MISSING_KID = 'missing_kid',
+  /** The JWKS does not contain a key matching the token's `kid`. */
+  KEY_NOT_FOUND = 'key_not_found',
+  /**
+   * No cached key matches the token's `kid`, and the JWKS was not refetched because the `kid` was recently not
+   * found or the JWKS was refetched too recently.
+   */
+  UNKNOWN_KID = 'unknown_kid',
+  /** The matching JWK is unsupported, incomplete, or too weak to be used for verification. */
+  INVALID_KEY = 'invalid_key',
+  /** The JWKS endpoint could not be reached or returned an unusable response. */
+  JWKS_UNAVAILABLE = 'jwks_unavailable',
+  /** The token signature could not be verified with the resolved signing key. */
+  BAD_SIGNATURE = 'bad_signature',
+  /** The token is authentic but was not granted the required scopes. Typically mapped to HTTP 403. */
+  INSUFFICIENT_SCOPE = 'insufficient_scope',
+  /** The token was issued for a different tenant than the one being accessed. Typically mapped to HTTP 403. */
+  TENANT_MISMATCH = 'tenant_mismatch',
+  /** No Authorization header was provided. */
+  MISSING_AUTHORIZATION_HEADER = 'missing_authorization_header',
+  /** The Authorization header is malformed, repeated, or does not use the Bearer scheme. */
+  INVALID_AUTHORIZATION_HEADER = 'invalid_authorization_header',
+  /** An unexpected error occurred during validation. */
+  UNKNOWN = 'unknown',
+}
+
+/**
+ * Base class for all errors raised by the SDK. Carries a stable `code` alongside the human-readable message.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   const token = validator.extractBearerToken(req.headers.authorization);
+ * } catch (error) {
+ *   if (error instanceof JwtValidationError) {
+ *     console.log(error.code); // e.g. 'missing_authorization_header'
+ *   }
+ * }
+ * ```
+ */
+export class JwtValidationError extends Error {
+  /**
+   * Machine-readable reason for the failure.
+   */
+  readonly code: JwtValidationErrorCode;
+
+  /**
+   * @param message - Human-readable description of the failure
+   * @param code - Machine-readable reason for the failure
+   */
+  constructor(message: string, code: JwtValidationErrorCode) {
+    super(message);
+    this.name = 'JwtValidationError';
+    this.code = code;
+  }
+}
+
+/**
+ * Error thrown by `extractBearerToken()` when the Authorization header is missing or malformed.
+ */
+export class BearerTokenExtractionError extends JwtValidationError {
+  constructor(message: string, code: JwtValidationErrorCode) {
+    super(message, code);
+    this.name = 'BearerTokenExtractionError';
+  }
+}
+
+/**
+ * Error thrown by the JWKS client when a signing key cannot be resolved. The `code` distinguishes
+ * infrastructure failures (`jwks_unavailable`) from problems with the token or key set itself
+ * (`key_not_found`, `invalid_key`).
+ */
+export class JwksError extends JwtValidationError {
+  constructor(message: string, code: JwtValidationErrorCode) {
+    super(message, code);
+    this.name = 'JwksError';
+  }
+}
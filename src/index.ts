@@ -1,3 +1,40 @@
 // SDK main interface and types
-export type { WristbandJwtValidator, WristbandJwtValidatorConfig, JWTPayload, JwtValidationResult } from './types';
+export type {
+  AudienceOption,
+  ClaimSchemaField,
+  ClaimSchemaViolation,
+  ClaimsSchema,
+  InferClaim,
+  InferClaims,
+  JwksCacheStore,
+  JwksCircuitBreakerOptions,
+  JwksCircuitState,
+  JwksHealth,
+  JWKSKey,
+  JwksKeySnapshot,
+  JwksKeySnapshotEntry,
+  JwksRequestFailure,
+  JWKSResponse,
+  JwksRetryPolicy,
+  JwtValidateOptions,
+  JWTPayload,
+  JwtValidationResult,
+  MachinePrincipal,
+  OidcDiscoveryDocument,
+  OidcDiscoveryOptions,
+  Principal,
+  SigningAlgorithm,
+  StaticJwks,
+  TenantResolver,
+  UserPrincipal,
+  WristbandAccessTokenPayload,
+  WristbandJwtValidator,
+  WristbandJwtValidatorConfig,
+} from './types';
 export { createWristbandJwtValidator } from './validator';
+export { InMemoryRemoteJwksCacheStore, LruJwksCacheStore } from './jwks-cache-stores';
+export { BearerTokenExtractionError, JwksError, JwtValidationError, JwtValidationErrorCode } from './errors';
+export { getScopes, hasAnyScope, hasScopes } from './utils/scopes';
+export { isMachineToken, toPrincipal } from './utils/principal';
+export { validateClaimsSchema } from './utils/claims-schema';
+export { assertTenant, getTenantId, matchesTenant } from './utils/tenant';
@@ -0,0 +1,170 @@
+import { CacheOptions, JwksCacheStore, JWKSKey } from './types';
+import { LRUCache } from './utils/cache';
+
+/**
+ * JWK key store keeping keys in an in-memory LRU cache, like each validator does on its own.
+ *
+ * Keys are only shared by the validators using the same store instance, e.g. several validators for the same
+ * issuer with different options, so every process still fetches the JWKS itself. Provide a store backed by Redis
+ * or Memcached to share keys between processes.
+ *
+ * @example
+ * ```typescript
+ * const jwksCacheStore = new LruJwksCacheStore({ maxSize: 20, ttl: 3600000 });
+ * const apiValidator = createWristbandJwtValidator({ wristbandApplicationVanityDomain, jwksCacheStore });
+ * const adminValidator = createWristbandJwtValidator({
+ *   wristbandApplicationVanityDomain, jwksCacheStore, audience: 'admin-api'
+ * });
+ * ```
+ */
+export class LruJwksCacheStore implements JwksCacheStore {
+  /**
+   * The LRU cache holding the JWKs, keyed by store key.
+   */
+  private cache: LRUCache<JWKSKey>;
+
+  /**
+   * Creates a new LruJwksCacheStore instance.
+   *
+   * @param options - Configuration object specifying the cache's max size, default TTL and time source
+   * @throws {Error} If the max size or TTL is not a positive integer
+   */
+  constructor(options: CacheOptions) {
+    this.cache = new LRUCache<JWKSKey>(options);
+  }
+
+  /**
+   * Returns the JWK stored under a store key.
+   *
+   * @param key - The store key, made of the client's namespace and the key ID
+   * @returns Promise resolving to the JWK, or undefined if there is none or it has expired
+   */
+  get(key: string): Promise<JWKSKey | undefined> {
+    return Promise.resolve(this.cache.get(key));
+  }
+
+  /**
+   * Stores a JWK under a store key, replacing any JWK already stored under it.
+   *
+   * @param key - The store key, made of the client's namespace and the key ID
+   * @param jwk - The JWK
+   * @param ttl - How long the JWK is kept, in milliseconds. If undefined, it is kept until it hasn't been used
+   * within the cache's TTL, if any.
+   * @returns Promise resolving once the JWK is stored
+   */
+  set(key: string, jwk: JWKSKey, ttl?: number): Promise<void> {
+    // The cache keeps existing values on set(), so remove the previous JWK first
+    this.cache.delete(key);
+    this.cache.set(key, jwk, ttl);
+    return Promise.resolve();
+  }
+
+  /**
+   * Removes the JWK stored under a store key, if any.
+   *
+   * @param key - The store key, made of the client's namespace and the key ID
+   * @returns Promise resolving once the JWK is removed
+   */
+  delete(key: string): Promise<void> {
+    this.cache.delete(key);
+    return Promise.resolve();
+  }
+
+  /**
+   * Removes all stored JWKs.
+   *
+   * @returns Promise resolving once the store is empty
+   */
+  clear(): Promise<void> {
+    this.cache.clear();
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Reference implementation of a JWK key store shared between processes, keeping serialized keys in memory.
+ *
+ * It behaves like a remote store such as Redis or Memcached would: values are serialized as JSON, so callers never
+ * share object references, and entries expire after their TTL rather than being evicted by size. Share one instance
+ * between several validators to simulate processes sharing a remote store in tests, or use it as a starting point
+ * for an adapter backed by a real remote store.
+ *
+ * @example
+ * ```typescript
+ * const store = new InMemoryRemoteJwksCacheStore();
+ * const validatorA = createWristbandJwtValidator({ wristbandApplicationVanityDomain, jwksCacheStore: store });
+ * const validatorB = createWristbandJwtValidator({ wristbandApplicationVanityDomain, jwksCacheStore: store });
+ * // Keys fetched by validatorA are used by validatorB without another JWKS request
+ * ```
+ */
+export class InMemoryRemoteJwksCacheStore implements JwksCacheStore {
+  /**
+   * The stored JWKs, serialized as JSON, with their expiration time in epoch milliseconds.
+   */
+  private entries = new Map<string, { value: string; expiresAt?: number }>();
+  /**
+   * Time source returning the current time in epoch milliseconds.
+   */
+  private clock: () => number;
+
+  /**
+   * Creates a new InMemoryRemoteJwksCacheStore instance.
+   *
+   * @param clock - Time source returning the current time in epoch milliseconds. Defaults to `Date.now`.
+   */
+  constructor(clock: () => number = (): number => Date.now()) {
+    this.clock = clock;
+  }
+
+  /**
+   * Returns a copy of the JWK stored under a store key.
+   *
+   * @param key - The store key, made of the client's namespace and the key ID
+   * @returns Promise resolving to the JWK, or undefined if there is none or it has expired
+   */
+  get(key: string): Promise<JWKSKey | undefined> {
+    const entry = this.entries.get(key);
+    if (entry?.expiresAt !== undefined && this.clock() >= entry.expiresAt) {
+      this.entries.delete(key);
+      return Promise.resolve(undefined);
+    }
+    return Promise.resolve(entry ? JSON.parse(entry.value) as JWKSKey : undefined);
+  }
+
+  /**
+   * Stores a copy of a JWK under a store key, replacing any JWK already stored under it.
+   *
+   * @param key - The store key, made of the client's namespace and the key ID
+   * @param jwk - The JWK
+   * @param ttl - How long the JWK is kept, in milliseconds. If undefined, it is kept until deleted.
+   * @returns Promise resolving once the JWK is stored
+   */
+  set(key: string, jwk: JWKSKey, ttl?: number): Promise<void> {
+    this.entries.set(key, {
+      value: JSON.stringify(jwk),
+      expiresAt: ttl === undefined ? undefined : this.clock() + ttl,
+    });
+    return Promise.resolve();
+  }
+
+  /**
+   * Removes the JWK stored under a store key, if any.
+   *
+   * @param key - The store key, made of the client's namespace and the key ID
+   * @returns Promise resolving once the JWK is removed
+   */
+  delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  /**
+   * Removes all stored JWKs.
+   *
+   * @returns Promise resolving once the store is empty
+   */
+  clear(): Promise<void> {
+    this.entries.clear();
+    return Promise.resolve();
+  }
+}
@@ -1,22 +1,89 @@
-import { CacheOptions, JWKSClientConfig, JWKSKey, JWKSResponse } from './types';
-import {  arrayBufferToBase64, base64urlToArrayBuffer } from './utils/crypto';
+import {
+  CachedSigningKey,
+  CacheOptions,
+  JwksCacheStore,
+  JwksCircuitBreakerOptions,
+  JwksCircuitState,
+  JWKSClientConfig,
+  JwksFetchResult,
+  JwksHealth,
+  JWKSKey,
+  JwksKeySnapshot,
+  JwksRequestFailure,
+  JWKSResponse,
+  JwksRetryPolicy,
+  JwksSource,
+} from './types';
+import { base64urlToArrayBuffer, importSigningKey, normalizeAlgorithm } from './utils/crypto';
 import { LRUCache } from './utils/cache';
-import { jwksMaxAttempts, jwksRetryDelayMs, pemFooter, pemHeader } from './constants';
+import { createJwksSource } from './jwks-sources';
+import { jwksMaxAttempts, jwksRetryBaseDelayMs, jwksRetryMaxDelayMs } from './constants';
+import { JwksError, JwtValidationErrorCode } from './errors';
 
 const DEFAULT_CACHE_MAX_SIZE = 20;
+const DEFAULT_REFETCH_INTERVAL = 30000;
+const DEFAULT_NEGATIVE_CACHE_TTL = 30000;
+const UNKNOWN_KID_CACHE_MAX_SIZE = 1000;
+const DEFAULT_REFRESH_INTERVAL = 300000;
+const DEFAULT_MAX_STALE = 0;
+const DEFAULT_CACHE_MIN_TTL = 60000;
+const DEFAULT_CACHE_MAX_TTL = 86400000;
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_CIRCUIT_FAILURE_THRESHOLD = 5;
+const DEFAULT_CIRCUIT_RESET_TIMEOUT_MS = 30000;
+
+/**
+ * When no refresh interval is configured, the key set is refreshed after this fraction of its lifetime (as advertised
+ * by the JWKS endpoint, or the cache TTL) has elapsed, so that cached keys are renewed shortly before they expire.
+ */
+const REFRESH_AHEAD_RATIO = 0.9;
+
+/**
+ * Coordinate sizes (in bytes) for the supported EC curves (RFC 7518 Section 6.2.1).
+ */
+const EC_COORDINATE_LENGTHS: Record<string, number> = {
+  'P-256': 32,
+  'P-384': 48,
+  'P-521': 66,
+};
+
+/**
+ * Key type (and curve, for EC keys) required by each supported signing algorithm (RFC 7518 Section 3.1).
+ */
+const ALGORITHM_KEY_TYPES: Record<string, { kty: string; crv?: string }> = {
+  RS256: { kty: 'RSA' },
+  RS384: { kty: 'RSA' },
+  RS512: { kty: 'RSA' },
+  PS256: { kty: 'RSA' },
+  PS384: { kty: 'RSA' },
+  PS512: { kty: 'RSA' },
+  ES256: { kty: 'EC', crv: 'P-256' },
+  ES384: { kty: 'EC', crv: 'P-384' },
+  ES512: { kty: 'EC', crv: 'P-521' },
+  EdDSA: { kty: 'OKP', crv: 'Ed25519' },
+};
 
 /**
  * Internal JWKS (JSON Web Key Set) client for fetching Wristband keys.
  * 
- * This client handles the complexities of JWKS key retrieval, validation, conversion, and caching
+ * This client handles the complexities of JWKS key retrieval, validation, import, and caching
  * for JWT signature verification. It implements security best practices including key strength
- * validation, proper ASN.1 encoding, and efficient LRU caching to minimize network requests.
+ * validation, non-extractable key storage, and efficient LRU caching to minimize network requests.
  * 
  * Key features:
  * - **Automatic key fetching** from Wristband JWKS endpoint
- * - **LRU caching** with configurable TTL to reduce network overhead
- * - **Security validation** ensuring keys meet OWASP strength requirements (≥2048-bit RSA)
- * - **Format conversion** from JWK to PEM format for Web Crypto API compatibility
+ * - **LRU caching** of imported keys with configurable TTL to avoid network and key import overhead
+ * - **HTTP caching** that follows the endpoint's `Cache-Control`/`Expires` headers and revalidates with `ETag`s
+ * - **Refetch rate limiting** and negative caching of unknown key IDs, so forged `kid` values can't flood the endpoint
+ * - **Background refresh** of the whole key set (after `start()`), serving the last known good keys if it fails
+ * - **Security validation** ensuring keys meet OWASP strength requirements (≥2048-bit RSA, NIST P-curves for EC)
+ * - **Direct JWK import** of RSA, EC and OKP (Ed25519) keys into non-extractable Web Crypto keys
+ * - **Configurable transport** with a pluggable `fetch`, custom request headers, request timeouts and abort signals
+ * - **Retries** of transient failures with exponential backoff and jitter, honoring `Retry-After`
+ * - **Circuit breaker** (optional) that fails fast while the JWKS endpoint is down
+ * - **Shared key store** (optional), so that processes reuse keys fetched by one another
+ * - **Key snapshots** to export the cached keys and restore them in a new client, e.g. across serverless cold starts
+ * - **Key sources** other than the JWKS endpoint: inline, PEM-encoded, or file-backed key sets, with hot reload
  * - **Error handling** with descriptive messages for debugging
  * 
  * The client is designed for internal use by the JWT validator and handles all the low-level
@@ -26,91 +93,349 @@ const DEFAULT_CACHE_MAX_SIZE = 20;
  */
 export class JWKSClient {
   /**
-   * Lazily-initialized LRU cache instance for storing converted PEM keys.
+   * Lazily-initialized LRU cache instance for storing validated JWKs and their imported CryptoKeys.
    * Null until first access, then instantiated with the stored cacheConfig.
    * This defers cache creation until runtime to avoid bundler issues.
    */
-  private cache: LRUCache | null = null;
+  private cache: LRUCache<CachedSigningKey> | null = null;
   /**
    * Configuration options for the LRU cache (maxSize and optional TTL).
    * Stored during construction and used for lazy cache instantiation.
    */
   private cacheConfig: CacheOptions;
   /**
-   * The URI endpoint for fetching the JSON Web Key Set.
+   * Store for JWKs consulted on cache misses before fetching the JWKS, usually shared with other processes.
+   * Undefined if keys are only cached in the LRU cache.
+   */
+  private cacheStore: JwksCacheStore | undefined;
+  /**
+   * Namespace prefixing the key ID in every store key, so that clients of different issuers can share a store.
+   */
+  private cacheStoreNamespace: string;
+  /**
+   * Keys to restore when the cache is first used. Undefined if there are none, or once they have been restored.
+   */
+  private keySnapshot: JwksKeySnapshot | undefined;
+  /**
+   * The URI endpoint for fetching the JSON Web Key Set, or a function resolving it before each request.
+   */
+  private jwksUri: string | (() => Promise<string>);
+  /**
+   * The in-flight JWKS fetch, if any. Concurrent cache misses share this promise so that only one
+   * request is made to the JWKS endpoint at a time. Null when no fetch is in progress.
+   */
+  private pendingJwksFetch: Promise<JWKSResponse> | null = null;
+  /**
+   * True while a JWKS fetch is in progress, from before the JWKS URI is resolved until the fetch has settled.
+   */
+  private jwksFetchInProgress = false;
+  /**
+   * Lazily-initialized cache of key IDs that were recently looked up and not found in the JWKS.
+   * Entries expire after the negative cache TTL; the size is bounded so random `kid` values can't exhaust memory.
+   */
+  private unknownKidCache: LRUCache<boolean> | null = null;
+  /**
+   * Minimum time between JWKS fetches triggered by cache misses, in milliseconds.
+   */
+  private refetchInterval: number;
+  /**
+   * How long a key ID that was not found in the JWKS is remembered, in milliseconds. 0 disables negative caching.
+   */
+  private negativeCacheTtl: number;
+  /**
+   * Time source returning the current time in epoch milliseconds.
+   */
+  private clock: () => number;
+  /**
+   * The most recently fetched JWKS, used to resolve cache misses while refetching is rate-limited.
+   */
+  private lastJwks: JWKSResponse | null = null;
+  /**
+   * When the most recent JWKS fetch completed, in epoch milliseconds.
+   */
+  private lastJwksFetchTime = 0;
+  /**
+   * Configured interval between background refreshes of the key set, in milliseconds. If undefined, the interval
+   * follows the lifetime of the key set.
+   */
+  private refreshInterval: number | undefined;
+  /**
+   * How long after the last successful fetch the last known good key set may still be served when fetching fails,
+   * in milliseconds. 0 disables serving stale keys.
+   */
+  private maxStale: number;
+  /**
+   * The running background refresh, holding the timer for the next refresh once the current one has settled, or
+   * the function that stops watching the key source. Null until `start()` is called, and again after `stop()`.
+   */
+  private backgroundRefresh: { timer?: ReturnType<typeof setTimeout>; unwatch?: () => void } | null = null;
+  /**
+   * Lower bound for key lifetimes advertised by the JWKS endpoint's caching headers, in milliseconds.
+   */
+  private cacheMinTtl: number;
+  /**
+   * Upper bound for key lifetimes advertised by the JWKS endpoint's caching headers, in milliseconds.
+   */
+  private cacheMaxTtl: number;
+  /**
+   * Lifetime of the most recently fetched key set according to the JWKS endpoint, already clamped to the min and
+   * max TTLs. Undefined if the endpoint sent no caching headers, in which case keys use the cache TTL.
+   */
+  private jwksLifetime: number | undefined;
+  /**
+   * Entity tag of the most recently fetched key set, used to revalidate it with a conditional request.
    */
-  private jwksUri: string;
+  private jwksEtag: string | undefined;
+  /**
+   * The fetch implementation used to request the JWKS.
+   */
+  private fetch: typeof fetch;
+  /**
+   * Timeout for each JWKS request attempt, in milliseconds. 0 disables the timeout.
+   */
+  private timeoutMs: number;
+  /**
+   * Additional headers sent with every JWKS request.
+   */
+  private headers: Record<string, string>;
+  /**
+   * How failed JWKS requests are retried, with defaults applied.
+   */
+  private retryPolicy: Required<JwksRetryPolicy>;
+  /**
+   * Circuit breaker thresholds, with defaults applied. Null when the circuit breaker is disabled.
+   */
+  private circuitBreaker: Required<JwksCircuitBreakerOptions> | null;
+  /**
+   * Current state of the circuit breaker. An open breaker becomes half-open once its reset timeout has elapsed.
+   */
+  private circuitState: JwksCircuitState = 'closed';
+  /**
+   * When the circuit breaker last opened, in epoch milliseconds.
+   */
+  private circuitOpenedAt = 0;
+  /**
+   * Number of consecutive failed JWKS fetches.
+   */
+  private consecutiveFailures = 0;
+  /**
+   * Source of the key set used instead of fetching the JWKS. Undefined when keys are fetched from the JWKS URI.
+   */
+  private source: JwksSource | undefined;
 
   /**
    * Creates a new JWKS client with the specified configuration. Initializes the internal LRU cache
-   * with the provided size and TTL settings. The cache stores converted PEM keys indexed by their
+   * with the provided size and TTL settings. The cache stores imported CryptoKeys indexed by their
    * key ID (kid) for fast retrieval.
    * 
-   * @param config - Configuration object specifying JWKS endpoint and cache settings
+   * @param config - Configuration object specifying JWKS endpoint, cache and refetch settings
+   * @throws {Error} If the JWKS URI is missing, the refetch interval, negative cache TTL or max stale window is not a
+   * non-negative integer, the refresh interval or cache min/max TTL is not a positive integer, the cache min TTL
+   * is greater than the cache max TTL, the timeout is not a non-negative integer, fetch is not a function, the
+   * retry policy, circuit breaker thresholds, static key set, cache store, cache store namespace or key snapshot are
+   * invalid, or a cache store is used with a JWKS URI function but without a cache store namespace
    * 
    * @example
    * ```typescript
    * const client = new JWKSClient({
    *   jwksUri: 'https://myapp.wristband.dev/api/v1/oauth2/jwks',
    *   cacheMaxSize: 10,
-   *   cacheTtl: 7889238000 // 3 months
+   *   cacheTtl: 7889238000, // 3 months
+   *   refetchInterval: 60000 // At most one refetch per minute for unknown key IDs
    * });
    * ```
    */
   constructor(config: JWKSClientConfig) {
-    if (!config?.jwksUri?.trim()) {
+    if (typeof config?.jwksUri !== 'function' && !config?.jwksUri?.trim()) {
       throw new Error('A valid JWKS URI is required.');
     }
+    if (config.refetchInterval !== undefined && !isNonNegativeInteger(config.refetchInterval)) {
+      throw new Error('The JWKS refetch interval must be a non-negative integer number of milliseconds.');
+    }
+    if (config.negativeCacheTtl !== undefined && !isNonNegativeInteger(config.negativeCacheTtl)) {
+      throw new Error('The JWKS negative cache TTL must be a non-negative integer number of milliseconds.');
+    }
+    const { refreshInterval } = config;
+    if (refreshInterval !== undefined && (!isNonNegativeInteger(refreshInterval) || refreshInterval === 0)) {
+      throw new Error('The JWKS refresh interval must be a positive integer number of milliseconds.');
+    }
+    if (config.maxStale !== undefined && !isNonNegativeInteger(config.maxStale)) {
+      throw new Error('The JWKS max stale window must be a non-negative integer number of milliseconds.');
+    }
+    const { cacheMinTtl, cacheMaxTtl } = config;
+    if (cacheMinTtl !== undefined && (!isNonNegativeInteger(cacheMinTtl) || cacheMinTtl === 0)) {
+      throw new Error('The JWKS cache min TTL must be a positive integer number of milliseconds.');
+    }
+    if (cacheMaxTtl !== undefined && (!isNonNegativeInteger(cacheMaxTtl) || cacheMaxTtl === 0)) {
+      throw new Error('The JWKS cache max TTL must be a positive integer number of milliseconds.');
+    }
+    if (cacheMinTtl !== undefined && cacheMaxTtl !== undefined && cacheMinTtl > cacheMaxTtl) {
+      throw new Error('The JWKS cache min TTL must not be greater than the cache max TTL.');
+    }
+    if (config.timeoutMs !== undefined && !isNonNegativeInteger(config.timeoutMs)) {
+      throw new Error('The JWKS request timeout must be a non-negative integer number of milliseconds.');
+    }
+    if (config.fetch !== undefined && typeof config.fetch !== 'function') {
+      throw new Error('The JWKS fetch implementation must be a function.');
+    }
+    const retryPolicy = config.retryPolicy ?? {};
+    if (
+      retryPolicy.maxAttempts !== undefined &&
+      (!isNonNegativeInteger(retryPolicy.maxAttempts) || retryPolicy.maxAttempts === 0)
+    ) {
+      throw new Error('The JWKS retry policy max attempts must be a positive integer.');
+    }
+    if (retryPolicy.baseDelayMs !== undefined && !isNonNegativeInteger(retryPolicy.baseDelayMs)) {
+      throw new Error('The JWKS retry policy base delay must be a non-negative integer number of milliseconds.');
+    }
+    if (retryPolicy.maxDelayMs !== undefined && !isNonNegativeInteger(retryPolicy.maxDelayMs)) {
+      throw new Error('The JWKS retry policy max delay must be a non-negative integer number of milliseconds.');
+    }
+    if (retryPolicy.isRetryable !== undefined && typeof retryPolicy.isRetryable !== 'function') {
+      throw new Error('The JWKS retry policy isRetryable predicate must be a function.');
+    }
+    const circuitBreaker = typeof config.circuitBreaker === 'object' ? config.circuitBreaker : {};
+    if (
+      circuitBreaker.failureThreshold !== undefined &&
+      (!isNonNegativeInteger(circuitBreaker.failureThreshold) || circuitBreaker.failureThreshold === 0)
+    ) {
+      throw new Error('The JWKS circuit breaker failure threshold must be a positive integer.');
+    }
+    if (circuitBreaker.resetTimeoutMs !== undefined && !isNonNegativeInteger(circuitBreaker.resetTimeoutMs)) {
+      throw new Error('The JWKS circuit breaker reset timeout must be a non-negative integer number of milliseconds.');
+    }
+    const cacheStore = config.cacheStore;
+    if (
+      cacheStore !== undefined &&
+      (typeof cacheStore?.get !== 'function' || typeof cacheStore.set !== 'function' ||
+        typeof cacheStore.delete !== 'function')
+    ) {
+      throw new Error('The JWKS cache store must implement get, set and delete.');
+    }
+    const cacheStoreNamespace = config.cacheStoreNamespace;
+    if (cacheStoreNamespace !== undefined && (typeof cacheStoreNamespace !== 'string' || !cacheStoreNamespace.trim())) {
+      throw new Error('The JWKS cache store namespace must be a non-empty string.');
+    }
+    if (cacheStore !== undefined && cacheStoreNamespace === undefined && typeof config.jwksUri === 'function') {
+      throw new Error('A JWKS cache store namespace is required when the JWKS URI is resolved by a function.');
+    }
+    const keySnapshot = config.keySnapshot;
+    if (keySnapshot !== undefined && (keySnapshot?.version !== 1 || !Array.isArray(keySnapshot.keys))) {
+      throw new Error('The JWKS key snapshot must be a snapshot exported by exportKeySnapshot().');
+    }
     this.jwksUri = config.jwksUri;
+    this.keySnapshot = keySnapshot;
+    this.source = config.staticJwks !== undefined ? createJwksSource(config.staticJwks) : undefined;
+    // A static key set is the only one trusted, so keys other processes stored are never used with it
+    this.cacheStore = this.source ? undefined : cacheStore;
+    this.cacheStoreNamespace = cacheStoreNamespace ?? (typeof config.jwksUri === 'string' ? config.jwksUri : '');
+    this.refetchInterval = config.refetchInterval ?? DEFAULT_REFETCH_INTERVAL;
+    this.negativeCacheTtl = config.negativeCacheTtl ?? DEFAULT_NEGATIVE_CACHE_TTL;
+    this.clock = config.clock ?? ((): number => Date.now());
+    this.refreshInterval = refreshInterval;
+    this.maxStale = config.maxStale ?? DEFAULT_MAX_STALE;
+    this.cacheMaxTtl = cacheMaxTtl ?? Math.max(DEFAULT_CACHE_MAX_TTL, cacheMinTtl ?? 0);
+    // A max TTL below the default min TTL lowers the min TTL along with it
+    this.cacheMinTtl = cacheMinTtl ?? Math.min(DEFAULT_CACHE_MIN_TTL, this.cacheMaxTtl);
+    // Resolve the global fetch on each request, so that it can be polyfilled or replaced after construction
+    this.fetch = config.fetch ?? ((input, init): Promise<Response> => fetch(input, init));
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.headers = { ...config.headers };
+    this.retryPolicy = {
+      maxAttempts: retryPolicy.maxAttempts ?? jwksMaxAttempts,
+      baseDelayMs: retryPolicy.baseDelayMs ?? jwksRetryBaseDelayMs,
+      maxDelayMs: retryPolicy.maxDelayMs ?? jwksRetryMaxDelayMs,
+      jitter: retryPolicy.jitter ?? false,
+      isRetryable: retryPolicy.isRetryable ?? isRetryableByDefault,
+    };
+    this.circuitBreaker = config.circuitBreaker
+      ? {
+        failureThreshold: circuitBreaker.failureThreshold ?? DEFAULT_CIRCUIT_FAILURE_THRESHOLD,
+        resetTimeoutMs: circuitBreaker.resetTimeoutMs ?? DEFAULT_CIRCUIT_RESET_TIMEOUT_MS,
+      }
+      : null;
     this.cacheConfig = {
       // Undefined TTL = cached indefinitely
       maxSize: config.cacheMaxSize ?? DEFAULT_CACHE_MAX_SIZE,
-      ttl: config.cacheTtl
+      ttl: config.cacheTtl,
+      clock: config.clock,
     };
   }
 
   /**
-   * Returns the LRU cache instance, creating it on first access if needed.
-   * This lazy initialization pattern prevents runtime object instantiation during
+   * Returns the LRU cache instance, creating it on first access if needed, with the keys of the key snapshot, if
+   * any. This lazy initialization pattern prevents runtime object instantiation during
    * module loading, which can cause issues with bundlers like webpack.
    * 
    * @private
-   * @returns The LRU cache instance for storing PEM keys
+   * @returns The LRU cache instance for storing signing keys
    */
-  private getCache(): LRUCache {
+  private getCache(): LRUCache<CachedSigningKey> {
     if (!this.cache) {
-      this.cache = new LRUCache(this.cacheConfig);
+      this.cache = new LRUCache<CachedSigningKey>(this.cacheConfig);
+      if (this.keySnapshot) {
+        this.restoreKeySnapshot(this.cache, this.keySnapshot);
+        this.keySnapshot = undefined;
+      }
     }
     return this.cache;
   }
 
   /**
-   * Retrieves a signing key by its key ID, with automatic caching and format conversion.
+   * Returns the cache of recently unknown key IDs, creating it on first access if needed.
+   * 
+   * @private
+   * @returns The LRU cache instance for storing unknown key IDs
+   */
+  private getUnknownKidCache(): LRUCache<boolean> {
+    if (!this.unknownKidCache) {
+      this.unknownKidCache = new LRUCache<boolean>({
+        maxSize: UNKNOWN_KID_CACHE_MAX_SIZE,
+        ttl: this.negativeCacheTtl,
+        clock: this.clock,
+      });
+    }
+    return this.unknownKidCache;
+  }
+
+  /**
+   * Retrieves a signing key by its key ID, with automatic caching and key import.
    * 
    * This method implements the complete JWKS key retrieval workflow:
-   * 1. Check LRU cache for previously converted key
-   * 2. If not cached, fetch complete JWKS from Wristband
-   * 3. Find the specific key by ID within the key set
-   * 4. Validate key type and cryptographic strength
-   * 5. Convert from JWK format to PEM format for Web Crypto API
-   * 6. Cache the converted key for future use
-   * 7. Return the PEM-formatted public key
+   * 1. Check LRU cache for a previously validated key, then the JWK store shared with other processes, if any
+   * 2. If not cached, fetch complete JWKS from Wristband (concurrent misses share a single fetch). Key IDs that were
+   *    recently not found fail fast, and the JWKS is refetched at most once per refetch interval.
+   * 3. Validate the key type (RSA, EC or OKP) and cryptographic strength of every key in the set
+   * 4. Cache all valid keys for future use (and write them to the JWK store), so a key rotation costs a single JWKS
+   *    request
+   * 5. Find the specific key by ID within the key set
+   * 6. Check that the key may be used with the token's algorithm
+   * 7. Import the key for that algorithm with the Web Crypto API, once per key and algorithm
+   * 8. Return the imported, non-extractable CryptoKey
    * 
    * @param kid - The key ID (kid) to retrieve from the JWKS endpoint
-   * @returns Promise resolving to the public key in PEM format
+   * @param alg - The algorithm from the token header. The key is imported for this algorithm, and if the JWK
+   * declares an `alg`, the two must match.
+   * @param signal - Optional signal to stop waiting on the JWKS endpoint. The JWKS request itself keeps running,
+   * since it may be shared with concurrent callers, and its keys are still cached when it completes.
+   * @returns Promise resolving to the CryptoKey for verifying signatures of the given algorithm
    * 
-   * @throws {Error} If JWKS fetch fails, key not found, non-RSA key, weak key (<2048 bits), or PEM conversion fails.
+   * @throws {JwksError} With code `jwks_unavailable` if the JWKS fetch fails or the signal aborts while waiting on
+   * it, `key_not_found` if no key matches
+   * the kid, `unknown_kid` if no key matches the kid and the JWKS was not refetched, or `invalid_key` for unsupported
+   * key types or curves, weak keys (<2048 bits), failed key import, or a key that can't be used with the token's
+   * algorithm.
    * 
    * @example
    * ```typescript
    * try {
-   *   const publicKey = await client.getSigningKey('kid-abc123');
-   *   // publicKey is now in PEM format ready for crypto.subtle.importKey()
+   *   const publicKey = await client.getSigningKey('kid-abc123', 'RS256');
+   *   // publicKey is a CryptoKey ready for verifySignature()
    *   console.log('Retrieved key for verification');
    * } catch (error) {
-   *   if (error.message.includes('Unable to find')) {
+   *   if (error.code === JwtValidationErrorCode.KEY_NOT_FOUND) {
    *     console.error('Key ID not found in JWKS');
-   *   } else if (error.message.includes('RSA key too weak')) {
+   *   } else if (error.code === JwtValidationErrorCode.INVALID_KEY) {
    *     console.error('Key does not meet security requirements');
    *   } else {
    *     console.error('JWKS fetch failed:', error.message);
@@ -118,36 +443,140 @@ export class JWKSClient {
    * }
    * ```
    */
-  async getSigningKey(kid: string): Promise<string> {
+  async getSigningKey(kid: string, alg: string, signal?: AbortSignal): Promise<CryptoKey> {
     // Check cache first using proper LRU cache
-    const cachedKey = this.getCache().get(kid);
-    if (cachedKey) {
-      return cachedKey;
+    let signingKey = this.getCache().get(kid);
+
+    if (!signingKey) {
+      if (this.negativeCacheTtl > 0 && this.getUnknownKidCache().has(kid)) {
+        throw new JwksError(
+          `Unable to find a signing key that matches '${kid}' (not found in a recent JWKS fetch)`,
+          JwtValidationErrorCode.UNKNOWN_KID
+        );
+      }
+
+      // Another process sharing the JWK store may already have fetched the key
+      if (this.cacheStore) {
+        signingKey = await waitUnlessAborted(this.getStoredSigningKey(this.cacheStore, kid), signal);
+      }
     }
 
-    // Fetch JWKS from Wristband
-    const jwks = await this.fetchJwksWithRetry();
-    const jwk = jwks.keys.find(k => k.kid === kid);
-    
-    if (!jwk) {
-      throw new Error(`Unable to find a signing key that matches '${kid}'`);
+    if (!signingKey) {
+      // Fetch JWKS from Wristband, sharing the request with any concurrent cache misses. If the JWKS was fetched
+      // too recently, or can't be fetched but a recent enough key set is known, fall back to the last fetched key set.
+      const canRefetch = this.canRefetchJwks();
+      let fetched = false;
+      const jwks = canRefetch
+        ? await waitUnlessAborted(
+          this.fetchAndCacheJwks()
+            .then((fetchedJwks) => {
+              fetched = true;
+              return fetchedJwks;
+            })
+            .catch(error => this.getStaleJwks(error)),
+          signal
+        )
+        : this.lastJwks as JWKSResponse;
+      signingKey = this.getCache().get(kid);
+
+      if (!signingKey) {
+        const jwk = jwks.keys.find(k => k.kid === kid);
+        if (!jwk) {
+          // Only a key set fetched for this miss proves the kid unknown; an older one may predate a key rotation
+          if (fetched && this.negativeCacheTtl > 0) {
+            this.getUnknownKidCache().set(kid, true);
+          }
+          if (!canRefetch) {
+            throw new JwksError(
+              `Unable to find a signing key that matches '${kid}' (JWKS refetch is rate-limited)`,
+              JwtValidationErrorCode.UNKNOWN_KID
+            );
+          }
+          throw new JwksError(`Unable to find a signing key that matches '${kid}'`, JwtValidationErrorCode.KEY_NOT_FOUND);
+        }
+
+        // The key was skipped as invalid (or already evicted from a small cache), so validate it again to
+        // surface the reason to the caller
+        signingKey = this.toSigningKey(jwk);
+        this.getCache().set(kid, signingKey, this.jwksLifetime);
+      }
     }
 
-    if (jwk.kty !== 'RSA') {
-      throw new Error('Only RSA keys are supported');
+    this.checkKeyAlgorithm(kid, signingKey, alg);
+    return this.importCryptoKey(kid, signingKey, alg);
+  }
+
+  /**
+   * Starts refreshing the whole key set in the background, so that request paths don't wait on the JWKS endpoint
+   * when keys rotate or cached keys expire. The key set is fetched immediately, and then every refresh interval
+   * (by default, shortly before the key set expires, as advertised by the JWKS endpoint or per the cache TTL, or
+   * every 5 minutes otherwise). Each refresh replaces the whole key set, so keys the endpoint no longer publishes stop
+   * validating. Failed background refreshes are retried on the next interval, while the cached keys keep being served.
+   * 
+   * With a key source instead of the JWKS endpoint, the key set is loaded immediately, and a source that can change
+   * (such as a watched file) is watched instead of being refreshed periodically. Each change swaps the whole key set.
+   * 
+   * The refresh timer doesn't keep a Node.js process alive. Calling `start()` again while started has no effect.
+   * 
+   * @returns Promise that resolves once the initial key set has been fetched
+   * @throws {JwksError} With code `jwks_unavailable` if the initial fetch fails. Background refreshes continue.
+   * @throws {Error} If the key source can't be watched. The client is not started.
+   * 
+   * @example
+   * ```typescript
+   * await client.start();
+   * // ...
+   * client.stop();
+   * ```
+   */
+  async start(): Promise<void> {
+    if (this.backgroundRefresh) {
+      return;
     }
 
-    // Convert JWK to PEM
-    const publicKey = this.jwkToPem(jwk);
+    const backgroundRefresh: { timer?: ReturnType<typeof setTimeout>; unwatch?: () => void } = {};
+    this.backgroundRefresh = backgroundRefresh;
+    if (!this.source) {
+      await this.refreshInBackground(backgroundRefresh);
+      return;
+    }
 
-    // Cache the key using LRU cache
-    this.getCache().set(kid, publicKey);
+    if (this.source.watch) {
+      let unwatch: () => void;
+      try {
+        unwatch = await this.source.watch(jwks => this.swapJwks(jwks));
+      } catch (error) {
+        if (this.backgroundRefresh === backgroundRefresh) {
+          this.backgroundRefresh = null;
+        }
+        throw error;
+      }
+      if (this.backgroundRefresh !== backgroundRefresh) {
+        // Stopped while the watch was being set up
+        unwatch();
+        return;
+      }
+      backgroundRefresh.unwatch = unwatch;
+    }
+    await this.fetchAndCacheJwks();
+  }
 
-    return publicKey;
+  /**
+   * Stops refreshing the key set in the background. Cached keys remain available. Safe to call when not started.
+   */
+  stop(): void {
+    if (this.backgroundRefresh) {
+      clearTimeout(this.backgroundRefresh.timer);
+      this.backgroundRefresh.unwatch?.();
+      this.backgroundRefresh = null;
+    }
   }
 
   /**
-   * Clears all cached keys from the internal cache.
+   * Clears all cached keys from the internal cache, along with the remembered unknown key IDs. The next
+   * cache miss refetches the JWKS regardless of the refetch interval, without revalidating the cleared key set.
+   * Keys are also removed from the JWK store, if any: all of them if the store can be cleared, or else those of
+   * the last fetched key set.
    * 
    * Useful for testing scenarios or when a complete cache invalidation is needed,
    * such as during key rotation events or security incidents.
@@ -167,7 +596,17 @@ export class JWKSClient {
    * ```
    */
   clear(): void {
+    const lastJwks = this.lastJwks;
+    this.updateCacheStore(store => store.clear
+      ? store.clear()
+      : Promise.all(
+        (lastJwks?.keys ?? []).filter(jwk => jwk?.kid).map(jwk => store.delete(this.getStoreKey(jwk.kid)))
+      ).then(() => undefined));
     this.getCache().clear();
+    this.getUnknownKidCache().clear();
+    this.lastJwks = null;
+    this.jwksLifetime = undefined;
+    this.jwksEtag = undefined;
   }
 
   /**
@@ -198,217 +637,712 @@ export class JWKSClient {
     return this.getCache().getStats();
   }
 
-   /**
-   * Fetches JWKS from the endpoint with retry logic. Attempts up to 3 times with 100ms delay between attempts.
+  /**
+   * Exports the cached keys, with when they were fetched and, if their lifetime was advertised by the JWKS
+   * endpoint, when they expire. Pass the snapshot as the `keySnapshot` option of a new client to start it with
+   * these keys, e.g. to skip the JWKS request on a serverless cold start. Only the public members of the keys are
+   * exported, so the snapshot can be stored and serialized as JSON.
+   * 
+   * @returns The key snapshot, listing keys from most to least recently used
+   * 
+   * @example
+   * ```typescript
+   * // Persist the keys at the end of an invocation
+   * await writeFile('/tmp/jwks-snapshot.json', JSON.stringify(client.exportKeySnapshot()));
+   * 
+   * // Restore them on the next cold start
+   * const keySnapshot = JSON.parse(await readFile('/tmp/jwks-snapshot.json', 'utf8'));
+   * const restoredClient = new JWKSClient({ jwksUri, keySnapshot });
+   * ```
+   */
+  exportKeySnapshot(): JwksKeySnapshot {
+    return {
+      version: 1,
+      keys: this.getCache().entries().map(({ key, value, expiresAt }) => ({
+        jwk: { ...value.jwk, kid: key, ...(value.alg ? { alg: value.alg } : {}) } as JWKSKey,
+        fetchedAt: value.fetchedAt,
+        expiresAt,
+      })),
+    };
+  }
+
+  /**
+   * Get the health of the JWKS endpoint as seen by this client.
+   * 
+   * @returns The circuit breaker state, the number of consecutive failed fetches, when the JWKS was last fetched
+   * successfully and, while the circuit breaker is open, when the next fetch will be attempted
+   */
+  getHealth(): JwksHealth {
+    const circuitState = this.getCircuitState();
+    return {
+      circuitState,
+      consecutiveFailures: this.consecutiveFailures,
+      lastSuccessfulFetchTime: this.lastJwksFetchTime || undefined,
+      retryAt: circuitState === 'open' && this.circuitBreaker
+        ? this.circuitOpenedAt + this.circuitBreaker.resetTimeoutMs
+        : undefined,
+    };
+  }
+
+  /**
+   * Makes a request that fetching the JWKS depends on, such as OpenID Connect discovery of the JWKS URI, under the
+   * circuit breaker: the request fails fast while the breaker is open, and its failures count as failed fetches in
+   * the health of the JWKS endpoint. A request made while a JWKS fetch is in progress is part of that fetch, which
+   * records its outcome itself.
+   * 
+   * @param request - Function making the request
+   * @returns Promise settling like the request
+   * @throws {JwksError} With code `jwks_unavailable` if the circuit breaker is open
+   */
+  guardRequest<T>(request: () => Promise<T>): Promise<T> {
+    if (this.jwksFetchInProgress) {
+      return request();
+    }
+    if (this.getCircuitState() === 'open') {
+      return Promise.reject(new JwksError(
+        `Circuit breaker is open after ${this.consecutiveFailures} consecutive failed fetches`,
+        JwtValidationErrorCode.JWKS_UNAVAILABLE
+      ));
+    }
+    return request().catch((error) => {
+      this.recordFetchFailure();
+      throw error;
+    });
+  }
+
+  /**
+   * Ensures a signing key may be used with the token's algorithm. The key type (and curve, for EC keys) must be
+   * the one the algorithm is defined for. In addition, per RFC 7517 Section 4.4, a JWK that declares an `alg` is
+   * intended for use with that algorithm only, which prevents e.g. an RS256 key from verifying a PS256 token.
    * 
    * @private
-   * @returns Promise resolving to the JWKS response
-   * @throws {Error} If all retry attempts fail
+   * @param kid - The key ID, used in the error message
+   * @param signingKey - The cached signing key
+   * @param alg - The algorithm from the token header
+   * @throws {JwksError} With code `invalid_key` if the key's algorithm doesn't match the token's algorithm
    */
-  private async fetchJwksWithRetry(): Promise<JWKSResponse> {
-    for (let attempt = 1; attempt <= jwksMaxAttempts; attempt++) {
-      try {
-        const response = await fetch(this.jwksUri);
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
+  private checkKeyAlgorithm(kid: string, signingKey: CachedSigningKey, alg: string): void {
+    const supportedAlgorithm = normalizeAlgorithm(alg);
+    const requiredKeyType = supportedAlgorithm ? ALGORITHM_KEY_TYPES[supportedAlgorithm] : undefined;
+    if (
+      requiredKeyType &&
+      (signingKey.kty !== requiredKeyType.kty || (requiredKeyType.crv && signingKey.crv !== requiredKeyType.crv))
+    ) {
+      const keyDescription = signingKey.crv ? `${signingKey.kty} ${signingKey.crv}` : signingKey.kty;
+      throw new JwksError(
+        `Signing key '${kid}' (${keyDescription}) can't verify ${alg} tokens`,
+        JwtValidationErrorCode.INVALID_KEY
+      );
+    }
+    if (signingKey.alg && signingKey.alg.toUpperCase() !== alg.toUpperCase()) {
+      throw new JwksError(
+        `Signing key '${kid}' is intended for ${signingKey.alg}, but the token uses ${alg}`,
+        JwtValidationErrorCode.INVALID_KEY
+      );
+    }
+  }
 
-        return await response.json() as unknown as JWKSResponse;
-      } catch (error) {
-        const isLastAttempt = attempt === jwksMaxAttempts;
+  /**
+   * Returns the CryptoKey for a signing key and algorithm, importing it on first use. Imported keys are kept on
+   * the cache entry, so subsequent validations skip the key import entirely.
+   * 
+   * @private
+   * @param kid - The key ID, used in the error message
+   * @param signingKey - The cached signing key
+   * @param alg - The algorithm from the token header
+   * @returns The imported, non-extractable CryptoKey
+   * @throws {JwksError} With code `invalid_key` if the key can't be imported for the algorithm
+   */
+  private async importCryptoKey(kid: string, signingKey: CachedSigningKey, alg: string): Promise<CryptoKey> {
+    const algorithm = normalizeAlgorithm(alg) ?? alg;
+    const cachedCryptoKey = signingKey.cryptoKeys[algorithm];
+    if (cachedCryptoKey) {
+      return cachedCryptoKey;
+    }
 
-        if (isLastAttempt) {
-          throw new Error(`Failed to fetch JWKS after ${jwksMaxAttempts} attempts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    try {
+      const cryptoKey = await importSigningKey(algorithm, signingKey.jwk);
+      // A concurrent call may have imported the key first; keep a single CryptoKey per key and algorithm
+      signingKey.cryptoKeys[algorithm] ??= cryptoKey;
+      return signingKey.cryptoKeys[algorithm];
+    } catch (error) {
+      throw new JwksError(
+        `Failed to import signing key '${kid}': ${error instanceof Error ? error.message : 'Unknown error'}`,
+        JwtValidationErrorCode.INVALID_KEY
+      );
+    }
+  }
+
+  /**
+   * Refreshes the key set, then schedules the next refresh, unless the background refresh was stopped in the
+   * meantime. The next refresh is scheduled once the current one has settled, so that its interval can follow
+   * the lifetime of the refreshed key set.
+   * 
+   * @private
+   * @param backgroundRefresh - The background refresh this refresh belongs to
+   * @returns Promise resolving to the refreshed JWKS
+   * @throws {JwksError} With code `jwks_unavailable` if the JWKS fetch fails
+   */
+  private refreshInBackground(backgroundRefresh: { timer?: ReturnType<typeof setTimeout> }): Promise<JWKSResponse> {
+    const refresh = this.fetchAndCacheJwks();
+    refresh
+      .catch(() => {
+        // Keep serving the cached keys; the next refresh tries again
+      })
+      .finally(() => {
+        if (this.backgroundRefresh !== backgroundRefresh) {
+          return;
         }
+        backgroundRefresh.timer = setTimeout(() => {
+          this.refreshInBackground(backgroundRefresh).catch(() => {
+            // Already handled above
+          });
+        }, this.getRefreshInterval());
+        // Don't keep the process alive just for refreshing keys (unref is only available in Node.js)
+        (backgroundRefresh.timer as { unref?: () => void }).unref?.();
+      });
+    return refresh;
+  }
 
-        // Wait before next attempt
-        await new Promise(resolve => setTimeout(resolve, jwksRetryDelayMs));
+  /**
+   * Returns the time until the next background refresh: the configured refresh interval, or else a fraction of the
+   * key set's lifetime, as advertised by the JWKS endpoint or per the cache TTL.
+   * 
+   * @private
+   * @returns The refresh interval in milliseconds
+   */
+  private getRefreshInterval(): number {
+    if (this.refreshInterval !== undefined) {
+      return this.refreshInterval;
+    }
+    const lifetime = this.jwksLifetime ?? this.cacheConfig.ttl;
+    return lifetime ? Math.max(1, Math.floor(lifetime * REFRESH_AHEAD_RATIO)) : DEFAULT_REFRESH_INTERVAL;
+  }
+
+  /**
+   * Determines whether a cache miss may trigger a JWKS fetch. Fetching is always allowed before the first successful
+   * fetch (or after `clear()`), and joining a fetch that is already in progress is always allowed. Otherwise, the
+   * refetch interval must have elapsed since the last successful fetch. Key sources are never fetched from the JWKS
+   * endpoint, so they can always be reloaded.
+   * 
+   * @private
+   * @returns True if the JWKS may be fetched, false if the last fetched key set should be used instead
+   */
+  private canRefetchJwks(): boolean {
+    return (
+      this.source !== undefined ||
+      this.pendingJwksFetch !== null ||
+      this.lastJwks === null ||
+      this.clock() - this.lastJwksFetchTime >= this.refetchInterval
+    );
+  }
+
+  /**
+   * Returns the last known good key set in place of a failed fetch, as long as it was fetched within the max stale
+   * window. Otherwise, the fetch error is rethrown.
+   * 
+   * @private
+   * @param error - The error from the failed JWKS fetch
+   * @returns The last successfully fetched JWKS
+   * @throws The original error if the fetch failed for another reason than JWKS unavailability, or no recent enough
+   * key set is known
+   */
+  private getStaleJwks(error: unknown): JWKSResponse {
+    if (
+      error instanceof JwksError &&
+      error.code === JwtValidationErrorCode.JWKS_UNAVAILABLE &&
+      this.lastJwks &&
+      this.maxStale > 0 &&
+      this.clock() - this.lastJwksFetchTime <= this.maxStale
+    ) {
+      return this.lastJwks;
+    }
+    throw error;
+  }
+
+  /**
+   * Fetches the JWKS and caches every valid key in the set. If a fetch is already in progress, its promise is
+   * returned instead of starting another one, so concurrent cache misses (e.g. right after a key rotation) result
+   * in a single request to the JWKS endpoint.
+   * 
+   * Keys without a `kid` and keys that fail validation are skipped; invalid keys only cause an error if a token
+   * actually references them. Keys that are already cached and unchanged keep their imported CryptoKeys, and their
+   * cache TTL restarts; this is also how a 304 Not Modified response extends the cached keys. If the endpoint sent
+   * caching headers, keys expire after the advertised lifetime instead of the cache TTL. Cached keys that the endpoint
+   * no longer publishes are evicted, so that revoked keys stop validating once the JWKS is fetched again.
+   * 
+   * @private
+   * @returns Promise resolving to the fetched JWKS response
+   * @throws {JwksError} With code `jwks_unavailable` if the JWKS fetch fails
+   */
+  private fetchAndCacheJwks(): Promise<JWKSResponse> {
+    if (!this.pendingJwksFetch) {
+      if (this.getCircuitState() === 'open') {
+        return Promise.reject(new JwksError(
+          `Failed to fetch JWKS: circuit breaker is open after ${this.consecutiveFailures} consecutive failed fetches`,
+          JwtValidationErrorCode.JWKS_UNAVAILABLE
+        ));
       }
+      // Set before the fetch starts, since it may resolve the JWKS URI (and make guarded requests) synchronously
+      this.jwksFetchInProgress = true;
+      const load: Promise<JwksFetchResult> = this.source
+        ? this.source.load().then(jwks => ({ jwks }))
+        : this.fetchJwksWithRetry();
+      this.pendingJwksFetch = load
+        .then(
+          (result) => {
+            this.recordFetchSuccess();
+            return result;
+          },
+          (error) => {
+            this.recordFetchFailure();
+            throw error;
+          }
+        )
+        .then(({ jwks, lifetime, etag, notModified }) => {
+          // A full key set from the JWKS endpoint replaces the cached one; a 304 response only revalidates it
+          if (!this.source && !notModified) {
+            this.evictMissingKeys(jwks);
+          }
+          this.cacheJwks(jwks, lifetime, etag);
+          return jwks;
+        })
+        .finally(() => {
+          this.pendingJwksFetch = null;
+          this.jwksFetchInProgress = false;
+        });
     }
-    
-    // This should never be reached (appeasing Typescript)
-    throw new Error('Unexpected error in JWKS fetch retry logic');
+    return this.pendingJwksFetch;
   }
 
   /**
-   * Converts a JSON Web Key (JWK) to PEM format for Web Crypto API compatibility.
-   *
-   * The conversion includes:
-   * - Security validation of key strength
-   * - Proper ASN.1 DER encoding of RSA parameters
-   * - PEM formatting with correct headers and line breaks
+   * Caches the keys of a fetched or loaded key set, writes them to the JWK store if any, and records the key set as
+   * the last known good key set.
    * 
-   * Security features:
-   * - Validates RSA key strength (minimum 2048 bits per OWASP)
-   * - Ensures required JWK parameters (n, e) are present
-   * - Implements proper cryptographic encoding standards
+   * Keys without a `kid` and keys that fail validation are skipped; invalid keys only cause an error if a token
+   * actually references them. Keys that are already cached and unchanged keep their imported CryptoKeys, and their
+   * cache TTL restarts.
    * 
-   * @param jwk - The JSON Web Key to convert
-   * @returns PEM-formatted RSA public key string
+   * @private
+   * @param jwks - The key set
+   * @param lifetime - The lifetime advertised by the JWKS endpoint's caching headers, if any
+   * @param etag - The entity tag of the JWKS response, if any
+   */
+  private cacheJwks(jwks: JWKSResponse, lifetime?: number, etag?: string): void {
+    this.lastJwks = jwks;
+    this.lastJwksFetchTime = this.clock();
+    this.jwksEtag = etag;
+    // A 304 response without caching headers keeps the lifetime of the response it revalidated
+    if (lifetime !== undefined) {
+      this.jwksLifetime = Math.min(Math.max(lifetime, this.cacheMinTtl), this.cacheMaxTtl);
+    }
+    for (const jwk of jwks.keys) {
+      if (!jwk?.kid) {
+        continue;
+      }
+      try {
+        const signingKey = this.toSigningKey(jwk);
+        const cachedKey = this.getCache().get(jwk.kid);
+        if (cachedKey && JSON.stringify(cachedKey.jwk) === JSON.stringify(signingKey.jwk)) {
+          cachedKey.fetchedAt = signingKey.fetchedAt;
+          this.getCache().set(jwk.kid, cachedKey, this.jwksLifetime);
+        } else {
+          // The cache keeps existing values on set(), so a key that changed under the same kid is replaced
+          this.getCache().delete(jwk.kid);
+          this.getCache().set(jwk.kid, signingKey, this.jwksLifetime);
+        }
+        const ttl = this.jwksLifetime ?? this.cacheConfig.ttl;
+        this.updateCacheStore(store => store.set(this.getStoreKey(jwk.kid), jwk, ttl));
+      } catch (error) {
+        // Skip invalid keys; getSigningKey() reports the error if the key is requested
+      }
+    }
+  }
+
+  /**
+   * Replaces the whole key set with a new one reported by the key source. Keys that are no longer in the key set
+   * are removed from the cache and the JWK store, and remembered unknown key IDs are forgotten, since the new key
+   * set may contain them. The swap happens synchronously, so no validation sees a mix of the old and new key sets.
    * 
-   * @throws {Error} If required JWK parameters (n, e) are missing, RSA key is below
-   * 2048-bit minimum security requirement, or PEM formatting fails.
+   * @private
+   * @param jwks - The new key set
+   */
+  private swapJwks(jwks: JWKSResponse): void {
+    this.evictMissingKeys(jwks);
+    this.getUnknownKidCache().clear();
+    this.cacheJwks(jwks);
+  }
+
+  /**
+   * Removes the keys that are not in a new key set from the cache, whether they came from the last key set, the JWK
+   * store or a key snapshot, and removes those of the last key set from the JWK store as well.
    * 
-   * @private This method is used internally by getSigningKey()
+   * @private
+   * @param jwks - The new key set
+   */
+  private evictMissingKeys(jwks: JWKSResponse): void {
+    const kids = new Set(jwks.keys.map(jwk => jwk?.kid));
+    const missingKids = new Set([
+      ...this.getCache().entries().map(({ key }) => key),
+      ...(this.lastJwks?.keys ?? []).map(jwk => jwk?.kid),
+    ].filter((kid): kid is string => !!kid && !kids.has(kid)));
+    for (const kid of missingKids) {
+      this.getCache().delete(kid);
+      this.updateCacheStore(store => store.delete(this.getStoreKey(kid)));
+    }
+  }
+
+  /**
+   * Returns the current circuit breaker state, moving an open breaker to half-open once its reset timeout has
+   * elapsed so that the next fetch can probe the JWKS endpoint.
    * 
-   * @example
-   * ```typescript
-   * // Internal usage - converts JWK like this:
-   * const jwk = {
-   *   alg: 'RSA256',
-   *   kty: 'RSA',
-   *   kid: 'abc123',
-   *   n: '<base64url-encoded-modulus>',
-   *   e: 'AQAB',
-   *   use: 'sig'
-   * };
-   * 
-   * // To PEM format like this:
-   * // -----BEGIN PUBLIC KEY-----
-   * // MIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEA...
-   * // -----END PUBLIC KEY-----
-   * ```
+   * @private
    */
-  private jwkToPem(jwk: JWKSKey): string {
-    if (!jwk.n || !jwk.e) {
-      throw new Error('Invalid JWK: missing n or e parameters');
+  private getCircuitState(): JwksCircuitState {
+    if (
+      this.circuitBreaker &&
+      this.circuitState === 'open' &&
+      this.clock() - this.circuitOpenedAt >= this.circuitBreaker.resetTimeoutMs
+    ) {
+      this.circuitState = 'half-open';
     }
+    return this.circuitState;
+  }
 
-    // Validate key strength
-    const nBuffer = base64urlToArrayBuffer(jwk.n);
-    const keyBitLength = nBuffer.byteLength * 8;
-    if (keyBitLength < 2048) {
-      throw new Error(`RSA key too weak: ${keyBitLength} bits. 2048 bits minimum required.`);
+  /**
+   * Records a successful JWKS fetch, closing the circuit breaker.
+   * 
+   * @private
+   */
+  private recordFetchSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.circuitState = 'closed';
+  }
+
+  /**
+   * Records a failed JWKS fetch. The circuit breaker opens once the failure threshold is reached, or straight away
+   * when the trial fetch of a half-open breaker fails.
+   * 
+   * @private
+   */
+  private recordFetchFailure(): void {
+    this.consecutiveFailures++;
+    if (
+      this.circuitBreaker &&
+      (this.circuitState === 'half-open' || this.consecutiveFailures >= this.circuitBreaker.failureThreshold)
+    ) {
+      this.circuitState = 'open';
+      this.circuitOpenedAt = this.clock();
     }
+  }
+
+  /**
+   * Fetches JWKS from the endpoint, retrying failed attempts according to the retry policy (by default, up to 3
+   * attempts with exponential backoff). Failures the policy deems permanent, such as a 404 response, are not retried.
+   * 
+   * When the previously fetched key set has an entity tag, it is revalidated with an `If-None-Match` request, and a
+   * 304 Not Modified response resolves to that key set again.
+   * 
+   * @private
+   * @returns Promise resolving to the JWKS response and its HTTP caching metadata
+   * @throws {JwksError} With code `jwks_unavailable` if the last attempt fails, a failure is not retryable, or the
+   * endpoint asks to retry later than the max delay
+   */
+  private async fetchJwksWithRetry(): Promise<JwksFetchResult> {
+    // Captured up front, so that a clear() during the request can't leave a 304 response without a key set
+    const cachedJwks = this.lastJwks;
+    const etag = cachedJwks ? this.jwksEtag : undefined;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.requestJwks(cachedJwks, etag);
+      } catch (caught) {
+        const error = caught instanceof Error ? caught : new Error('Unknown error');
+        const status = error instanceof JwksHttpError ? error.status : undefined;
+        const failure: JwksRequestFailure = { error, status, attempt };
+        const retryDelay = attempt < this.retryPolicy.maxAttempts && this.retryPolicy.isRetryable(failure)
+          ? this.getRetryDelay(failure)
+          : undefined;
 
-    // Convert JWK to proper ASN.1 DER format, then to PEM.
-    const derBytes = this.createRSAPublicKeyDER(nBuffer, base64urlToArrayBuffer(jwk.e));
-    const base64Der = arrayBufferToBase64(derBytes);
-    
-    // Format as proper PEM with line breaks every 64 characters
-    const pemBody = base64Der.match(/.{1,64}/g)?.join('\n');
-    if (!pemBody) {
-      throw new Error('Failed to format PEM body');
+        if (retryDelay === undefined) {
+          throw new JwksError(
+            `Failed to fetch JWKS after ${attempt} ${attempt === 1 ? 'attempt' : 'attempts'}: ${error.message}`,
+            JwtValidationErrorCode.JWKS_UNAVAILABLE
+          );
+        }
+
+        // Wait before next attempt
+        await new Promise(resolve => setTimeout(resolve, retryDelay));
+      }
     }
-    
-    return `${pemHeader}\n${pemBody}\n${pemFooter}`;
   }
 
   /**
-   * Encodes an integer value in ASN.1 DER format. ASN.1 integers must be positive, so a padding byte (0x00)
-   * is added if the most significant bit is set to prevent interpretation as negative.
+   * Computes the delay before retrying a failed attempt: the base delay doubled for every previous retry, capped at
+   * the max delay, and randomized between 0 and that value with jitter. A `Retry-After` header from a 429 or 503
+   * response sets the minimum delay.
    * 
-   * @param bytes - The integer bytes to encode
-   * @returns ASN.1 DER encoded integer (tag + length + value)
    * @private
+   * @param failure - The failed attempt
+   * @returns The delay in milliseconds, or undefined if the endpoint asked to wait longer than the max delay
    */
-  private encodeInteger(bytes: Uint8Array): Uint8Array {
-    // Add padding byte if MSB is set (to ensure positive integer)
-    const needsPadding = bytes[0] >= 0x80;
-    const paddedBytes = needsPadding ? new Uint8Array([0, ...bytes]) : bytes;
-    const length = this.encodeLength(paddedBytes.length);
-    return new Uint8Array([0x02, ...length, ...paddedBytes]); // 0x02 = INTEGER tag
+  private getRetryDelay(failure: JwksRequestFailure): number | undefined {
+    const { baseDelayMs, maxDelayMs, jitter } = this.retryPolicy;
+    const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (failure.attempt - 1));
+    const delay = jitter ? Math.random() * backoff : backoff;
+
+    const retryAfter = failure.error instanceof JwksHttpError ? failure.error.retryAfter : undefined;
+    if (retryAfter !== undefined) {
+      // Never retry sooner than the endpoint asked to
+      return retryAfter <= maxDelayMs ? Math.max(retryAfter, delay) : undefined;
+    }
+    return delay;
   }
 
   /**
-   * Creates proper ASN.1 DER encoding for an RSA public key. This method implements the ASN.1
-   * (Abstract Syntax Notation One) DER (Distinguished Encoding Rules) format required for RSA
-   * public keys. The encoding follows RFC 3447 and OWASP cryptographic standards to ensure compatibility
-   * with standard crypto libraries.
+   * Makes a single JWKS request with the configured fetch implementation and headers. The request is aborted if
+   * it (including reading the response body) takes longer than the timeout. A JWKS URI function is resolved first,
+   * so that its failures are retried like failed requests.
    * 
-   * The DER structure for RSA public keys is:
-   * ```
-   * RSAPublicKey ::= SEQUENCE {
-   *   modulus         INTEGER,  -- n
-   *   publicExponent  INTEGER   -- e
-   * }
-   * ```
+   * @private
+   * @param cachedJwks - The previously fetched key set, returned again for a 304 Not Modified response
+   * @param etag - The entity tag of the previously fetched key set, sent in `If-None-Match` when defined
+   * @returns Promise resolving to the JWKS response and its HTTP caching metadata
+   * @throws {JwksHttpError} If the endpoint responds with an HTTP error status
+   * @throws {Error} If the JWKS URI can't be resolved, the request fails or times out, or the response is not a
+   * valid JWKS
+   */
+  private async requestJwks(cachedJwks: JWKSResponse | null, etag: string | undefined): Promise<JwksFetchResult> {
+    const jwksUri = typeof this.jwksUri === 'function' ? await this.jwksUri() : this.jwksUri;
+    const controller = this.timeoutMs > 0 ? new AbortController() : undefined;
+    const timeout = controller ? setTimeout(() => controller.abort(), this.timeoutMs) : undefined;
+    try {
+      const headers = etag ? { ...this.headers, 'If-None-Match': etag } : this.headers;
+      const response = await this.fetch(jwksUri, { headers, signal: controller?.signal });
+      const lifetime = getCacheLifetime(response.headers, this.clock());
+      if (cachedJwks && response.status === 304) {
+        return { jwks: cachedJwks, lifetime, etag: response.headers?.get('etag') ?? etag, notModified: true };
+      }
+      if (!response.ok) {
+        const retryAfter = response.status === 429 || response.status === 503
+          ? getRetryAfter(response.headers, this.clock())
+          : undefined;
+        throw new JwksHttpError(response.status, response.statusText, retryAfter);
+      }
+
+      const jwks = await response.json() as unknown as JWKSResponse;
+      if (!Array.isArray(jwks?.keys)) {
+        throw new Error('Invalid JWKS response: missing keys array');
+      }
+      return { jwks, lifetime, etag: response.headers?.get('etag') ?? undefined };
+    } catch (error) {
+      if (controller?.signal.aborted) {
+        throw new Error(`Request timed out after ${this.timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * Looks up a key in the JWK store and caches it if found. Stored keys go through the same validation as fetched
+   * keys; a key that fails it, like a store error, is treated as a miss, so that the key is fetched again and the
+   * reason reported from the fetched key set.
    * 
-   * Wrapped in a SubjectPublicKeyInfo structure with RSA algorithm identifier.
+   * @private
+   * @param cacheStore - The JWK store
+   * @param kid - The key ID
+   * @returns Promise resolving to the cached signing key, or undefined if the store has no valid key for the kid
+   */
+  private async getStoredSigningKey(cacheStore: JwksCacheStore, kid: string): Promise<CachedSigningKey | undefined> {
+    let signingKey: CachedSigningKey;
+    try {
+      const jwk = await cacheStore.get(this.getStoreKey(kid));
+      if (jwk?.kid !== kid) {
+        return undefined;
+      }
+      signingKey = this.toSigningKey(jwk);
+    } catch (error) {
+      return undefined;
+    }
+    // A concurrent lookup may have cached the key first; keep a single entry so imported CryptoKeys are shared
+    const cachedKey = this.getCache().get(kid);
+    if (cachedKey) {
+      return cachedKey;
+    }
+    this.getCache().set(kid, signingKey, this.jwksLifetime);
+    return signingKey;
+  }
+
+  /**
+   * Returns the key under which the JWK with a key ID is kept in the JWK store.
    * 
-   * @param n - RSA modulus as Uint8Array (from JWK 'n' parameter)
-   * @param e - RSA exponent as Uint8Array (from JWK 'e' parameter)
-   * @returns Uint8Array containing the DER-encoded public key
+   * @private
+   * @param kid - The key ID
+   * @returns The key ID, prefixed with the client's store namespace
+   */
+  private getStoreKey(kid: string): string {
+    return `${this.cacheStoreNamespace}#${kid}`;
+  }
+
+  /**
+   * Applies an update to the JWK store, if any, without waiting for it. A failed update only means that other
+   * processes sharing the store fetch the JWKS themselves, so store errors never fail a fetch or a validation.
+   * 
+   * @private
+   * @param update - Function applying the update to the store
+   */
+  private updateCacheStore(update: (store: JwksCacheStore) => Promise<void>): void {
+    if (!this.cacheStore) {
+      return;
+    }
+    try {
+      update(this.cacheStore).catch(() => {
+        // Ignore store errors, as documented above
+      });
+    } catch (error) {
+      // Ignore stores that throw instead of rejecting, as well
+    }
+  }
+
+  /**
+   * Validates a JSON Web Key (JWK) and creates the cache entry for it. The key is imported lazily, the first time
+   * it is used with each algorithm.
    * 
-   * @private This method is used internally by jwkToPem()
+   * @private
+   * @param jwk - The JSON Web Key from the key set
+   * @returns The signing key to cache
+   * @throws {JwksError} With code `invalid_key` if the key type is unsupported or the key fails validation
+   */
+  private toSigningKey(jwk: JWKSKey): CachedSigningKey {
+    if (jwk.kty !== 'RSA' && jwk.kty !== 'EC' && jwk.kty !== 'OKP') {
+      throw new JwksError(
+        `Unsupported key type '${jwk.kty}'. Only RSA, EC and OKP keys are supported`,
+        JwtValidationErrorCode.INVALID_KEY
+      );
+    }
+    return {
+      jwk: this.toPublicJwk(jwk), kty: jwk.kty, crv: jwk.crv, alg: jwk.alg, cryptoKeys: {}, fetchedAt: this.clock()
+    };
+  }
+
+  /**
+   * Caches the keys of a key snapshot. Snapshot keys go through the same validation as fetched keys, and like
+   * invalid keys in a fetched key set, malformed, invalid and expired entries are skipped. Keys keep the time they
+   * were fetched and, if they have one, their expiration time. Other keys expire once the cache TTL (or, without
+   * one, the cache max TTL) has elapsed since they were fetched, so that an old snapshot can't keep a revoked key
+   * alive across restarts.
    * 
-   * @example
-   * ```typescript
-   * // Internal usage - converts binary RSA parameters to DER format
-   * const nBuffer = base64urlToArrayBuffer(jwk.n);  // RSA modulus (Uint8Array)
-   * const eBuffer = base64urlToArrayBuffer(jwk.e);  // RSA exponent (Uint8Array, usually 65537)
-   * const derBytes = this.createRSAPublicKeyDER(nBuffer, eBuffer);
-   * // derBytes now contains properly encoded ASN.1 DER data as Uint8Array
-   * ```
+   * @private
+   * @param cache - The newly created cache
+   * @param snapshot - The key snapshot
    */
-  private createRSAPublicKeyDER(n: Uint8Array, e: Uint8Array): Uint8Array {
-    const nBytes = new Uint8Array(n);
-    const eBytes = new Uint8Array(e);
-    
-    // ASN.1 DER encoding for RSA public key
-    const nInteger = this.encodeInteger(nBytes);
-    const eInteger = this.encodeInteger(eBytes);
-    
-    // RSA public key sequence
-    const sequence = new Uint8Array([...nInteger, ...eInteger]);
-    const sequenceLength = this.encodeLength(sequence.length);
-    const rsaSequence = new Uint8Array([0x30, ...sequenceLength, ...sequence]);
-    
-    // RSA algorithm identifier (1.2.840.113549.1.1.1)
-    const rsaOID = new Uint8Array([
-      0x30, 0x0d, // SEQUENCE
-      0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01, // RSA OID
-      0x05, 0x00 // NULL
-    ]);
-    
-    // BIT STRING containing the RSA sequence
-    const bitStringLength = this.encodeLength(rsaSequence.length + 1);
-    const bitString = new Uint8Array([0x03, ...bitStringLength, 0x00, ...rsaSequence]);
-    
-    // Final SEQUENCE
-    const finalSequence = new Uint8Array([...rsaOID, ...bitString]);
-    const finalLength = this.encodeLength(finalSequence.length);
-
-    return new Uint8Array([0x30, ...finalLength, ...finalSequence]);
-  }
-  
-  /**
-   * Encodes length field in ASN.1 DER format. ASN.1 DER uses variable-length encoding for length fields:
-   * - Short form: lengths 0-127 are encoded as a single byte
-   * - Long form: longer lengths use multiple bytes with the first byte indicating how many additional
-   *              length bytes follow
-   * 
-   * This ensures efficient encoding while supporting arbitrarily large structures.
-   * 
-   * @param length - The length value to encode (must be non-negative)
-   * @returns Uint8Array containing the DER-encoded length
-   * 
-   * @private This method is used internally by createRSAPublicKeyDER()
+  private restoreKeySnapshot(cache: LRUCache<CachedSigningKey>, snapshot: JwksKeySnapshot): void {
+    const now = this.clock();
+    const maxLifetime = this.cacheConfig.ttl ?? this.cacheMaxTtl;
+    // Restore the least recently used keys first, so that the cache keeps the snapshot's order
+    for (const entry of [...snapshot.keys].reverse()) {
+      const jwk = entry?.jwk;
+      const { fetchedAt, expiresAt } = entry ?? {};
+      if (
+        typeof jwk?.kid !== 'string' || !jwk.kid || typeof fetchedAt !== 'number' || !Number.isFinite(fetchedAt) ||
+        (expiresAt !== undefined && (typeof expiresAt !== 'number' || expiresAt <= now))
+      ) {
+        continue;
+      }
+      const ttl = expiresAt === undefined ? Math.min(maxLifetime, fetchedAt + maxLifetime - now) : expiresAt - now;
+      if (ttl <= 0) {
+        continue;
+      }
+      try {
+        const signingKey = { ...this.toSigningKey(jwk), fetchedAt };
+        cache.set(jwk.kid, signingKey, ttl);
+      } catch (error) {
+        // Skip invalid keys; getSigningKey() fetches the JWKS if the key is requested
+      }
+    }
+  }
+
+  /**
+   * Validates a JSON Web Key (JWK) and reduces it to the public key material needed for import.
+   * 
+   * Security features:
+   * - Validates RSA key strength (minimum 2048 bits per OWASP)
+   * - Ensures required JWK parameters (n, e for RSA; crv, x, y for EC; crv, x for OKP) are present
+   * - Restricts EC keys to the NIST P-256, P-384 and P-521 curves, and OKP keys to Ed25519
+   * - Drops all other members (e.g. `use`, `key_ops`, or private parameters), so only public material is kept
+   * 
+   * @param jwk - The JSON Web Key to validate
+   * @returns The public JWK, ready for `crypto.subtle.importKey('jwk', ...)`
+   * 
+   * @throws {JwksError} With code `invalid_key` if required JWK parameters are missing, RSA key is below
+   * 2048-bit minimum security requirement, or EC or OKP key uses an unsupported curve or has invalid coordinates.
+   * 
+   * @private This method is used internally by toSigningKey()
    * 
    * @example
    * ```typescript
-   * // Short form examples:
-   * encodeLength(42)   // [42]           - single byte for lengths < 128
-   * encodeLength(127)  // [127]          - maximum short form
+   * // Internal usage - reduces a JWK like this:
+   * const jwk = { alg: 'RS256', kty: 'RSA', kid: 'abc123', n: '<base64url-encoded-modulus>', e: 'AQAB', use: 'sig' };
    * 
-   * // Long form examples:
-   * encodeLength(200)  // [0x81, 0xc8]   - 0x81 = "1 additional byte", 0xc8 = 200
-   * encodeLength(1000) // [0x82, 0x03, 0xe8] - 0x82 = "2 additional bytes", 0x03e8 = 1000
+   * // To the public key material only:
+   * // { kty: 'RSA', n: '<base64url-encoded-modulus>', e: 'AQAB' }
    * ```
    */
-  private encodeLength(length: number): Uint8Array {
-    if (length < 0x80) {
-      return new Uint8Array([length]);
+  private toPublicJwk(jwk: JWKSKey): JsonWebKey {
+    if (jwk.kty === 'EC') {
+      const coordinateLength = jwk.crv ? EC_COORDINATE_LENGTHS[jwk.crv] : undefined;
+      if (!coordinateLength) {
+        throw new JwksError(
+          `Unsupported EC curve '${jwk.crv}'. Supported curves are: ${Object.keys(EC_COORDINATE_LENGTHS).join(', ')}`,
+          JwtValidationErrorCode.INVALID_KEY
+        );
+      }
+      if (!jwk.x || !jwk.y) {
+        throw new JwksError('Invalid JWK: missing x or y parameters', JwtValidationErrorCode.INVALID_KEY);
+      }
+      if (
+        base64urlToArrayBuffer(jwk.x).byteLength !== coordinateLength ||
+        base64urlToArrayBuffer(jwk.y).byteLength !== coordinateLength
+      ) {
+        throw new JwksError(
+          `Invalid JWK: x and y must be ${coordinateLength} bytes for curve ${jwk.crv}`,
+          JwtValidationErrorCode.INVALID_KEY
+        );
+      }
+      return { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y };
+    }
+
+    if (jwk.kty === 'OKP') {
+      if (jwk.crv !== 'Ed25519') {
+        throw new JwksError(
+          `Unsupported OKP curve '${jwk.crv}'. Only Ed25519 is supported`,
+          JwtValidationErrorCode.INVALID_KEY
+        );
+      }
+      if (!jwk.x) {
+        throw new JwksError('Invalid JWK: missing x parameter', JwtValidationErrorCode.INVALID_KEY);
+      }
+      if (base64urlToArrayBuffer(jwk.x).byteLength !== 32) {
+        throw new JwksError('Invalid JWK: x must be 32 bytes for curve Ed25519', JwtValidationErrorCode.INVALID_KEY);
+      }
+      return { kty: jwk.kty, crv: jwk.crv, x: jwk.x };
+    }
+
+    if (!jwk.n || !jwk.e) {
+      throw new JwksError('Invalid JWK: missing n or e parameters', JwtValidationErrorCode.INVALID_KEY);
     }
-    
-    const bytes = [];
-    let temp = length;
-    while (temp > 0) {
-      bytes.unshift(temp & 0xff);
-      temp >>= 8;
+
+    // Validate key strength
+    const keyBitLength = base64urlToArrayBuffer(jwk.n).byteLength * 8;
+    if (keyBitLength < 2048) {
+      throw new JwksError(
+        `RSA key too weak: ${keyBitLength} bits. 2048 bits minimum required.`,
+        JwtValidationErrorCode.INVALID_KEY
+      );
     }
-    
-    return new Uint8Array([0x80 | bytes.length, ...bytes]);
+    return { kty: jwk.kty, n: jwk.n, e: jwk.e };
   }
 }
 
@@ -428,7 +1362,7 @@ export class JWKSClient {
  * });
  * 
  * // Use in JWT validator
- * const publicKey = await client.getSigningKey('kid-abc123');
+ * const publicKey = await client.getSigningKey('kid-abc123', 'RS256');
  * ```
  * 
  * @internal This function is used internally by the JWT validator factory
@@ -436,3 +1370,133 @@ export class JWKSClient {
 export function createJwksClient(config: JWKSClientConfig): JWKSClient {
   return new JWKSClient(config);
 }
+
+/**
+ * Determines how long a JWKS response may be cached from its HTTP caching headers (RFC 9111 Section 4.2.1).
+ * `Cache-Control: max-age` (minus the response's `Age`) takes precedence over `Expires`, and `no-cache` or `no-store`
+ * mean the response must be revalidated right away. Malformed `Expires` values are treated as already expired.
+ * 
+ * @param headers - The response headers. Response-like objects from custom fetch implementations may omit them.
+ * @param now - The current time in epoch milliseconds, used for `Expires` when the response has no `Date` header
+ * @returns The lifetime in milliseconds, or undefined if the response has no caching headers
+ */
+function getCacheLifetime(headers: Headers | undefined, now: number): number | undefined {
+  const directives = (headers?.get('cache-control') ?? '')
+    .toLowerCase()
+    .split(',')
+    .map(directive => directive.trim());
+  if (directives.includes('no-cache') || directives.includes('no-store')) {
+    return 0;
+  }
+
+  const maxAge = directives.find(directive => directive.startsWith('max-age='));
+  if (maxAge) {
+    const seconds = Number(maxAge.slice('max-age='.length).replace(/"/g, ''));
+    if (Number.isInteger(seconds) && seconds >= 0) {
+      const age = Number(headers?.get('age') ?? 0);
+      return Math.max(0, seconds - (Number.isInteger(age) && age > 0 ? age : 0)) * 1000;
+    }
+  }
+
+  const expires = headers?.get('expires');
+  if (expires) {
+    const expiresAt = Date.parse(expires);
+    const date = Date.parse(headers?.get('date') ?? '');
+    return Number.isNaN(expiresAt) ? 0 : Math.max(0, expiresAt - (Number.isNaN(date) ? now : date));
+  }
+  return undefined;
+}
+
+/**
+ * Determines how long to wait before retrying, from a response's `Retry-After` header (RFC 9110 Section 10.2.3),
+ * which is either a number of seconds or an HTTP date.
+ * 
+ * @param headers - The response headers, which response-like objects from custom fetch implementations may omit
+ * @param now - The current time in epoch milliseconds, used for HTTP dates
+ * @returns The delay in milliseconds, or undefined if the header is missing or malformed
+ */
+function getRetryAfter(headers: Headers | undefined, now: number): number | undefined {
+  const retryAfter = headers?.get('retry-after')?.trim();
+  if (!retryAfter) {
+    return undefined;
+  }
+  if (/^\d+$/.test(retryAfter)) {
+    return Number(retryAfter) * 1000;
+  }
+  const retryAt = Date.parse(retryAfter);
+  return Number.isNaN(retryAt) ? undefined : Math.max(0, retryAt - now);
+}
+
+/**
+ * Default retry predicate. Network errors, timeouts and invalid responses may be transient, as are HTTP 408, 429
+ * and 5xx responses. Other HTTP errors, such as 401 or 404, won't succeed on retry.
+ * 
+ * @param failure - The failed attempt
+ * @returns True if the attempt should be retried
+ */
+function isRetryableByDefault({ status }: JwksRequestFailure): boolean {
+  return status === undefined || status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Waits for a promise, unless the signal aborts first. The promise itself is left running, since it may be shared
+ * with other callers.
+ * 
+ * @param promise - The promise to wait for
+ * @param signal - Optional signal to stop waiting
+ * @returns Promise settling like the given promise, or rejecting when the signal aborts
+ * @throws {JwksError} With code `jwks_unavailable` if the signal aborts before the promise settles
+ */
+export function waitUnlessAborted<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => {
+      reject(new JwksError('Aborted while waiting for the JWKS', JwtValidationErrorCode.JWKS_UNAVAILABLE));
+    };
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Checks whether a value is a non-negative integer, as required for millisecond durations that may be disabled with 0.
+ * 
+ * @param value - The value to check
+ * @returns True if the value is an integer greater than or equal to 0
+ */
+function isNonNegativeInteger(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Error for an HTTP error response from the JWKS endpoint, carrying the details the retry policy needs.
+ */
+class JwksHttpError extends Error {
+  /**
+   * The HTTP status code of the response.
+   */
+  readonly status: number;
+  /**
+   * How long the endpoint asked to wait before retrying, in milliseconds, if it sent a `Retry-After` header.
+   */
+  readonly retryAfter?: number;
+
+  /**
+   * @param status - The HTTP status code of the response
+   * @param statusText - The HTTP status text of the response
+   * @param retryAfter - The delay from the response's `Retry-After` header, in milliseconds
+   */
+  constructor(status: number, statusText: string, retryAfter?: number) {
+    super(`HTTP ${status}: ${statusText}`);
+    this.name = 'JwksHttpError';
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
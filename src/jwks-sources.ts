@@ -0,0 +1,256 @@
+import { JWKSKey, JWKSResponse, JwksSource, StaticJwks } from './types';
+import { pemToPublicJwk } from './utils/crypto';
+import { JwksError, JwtValidationErrorCode } from './errors';
+
+const DEFAULT_WATCH_DEBOUNCE_MS = 100;
+
+/**
+ * Internal key source for a key set that never changes: an inline JWKS, a JSON file read once, or PEM-encoded
+ * public keys.
+ *
+ * The key set is loaded the first time it is needed and then kept. A failed load is retried on the next call, so
+ * that, for example, a file that is not mounted yet is picked up once it is.
+ *
+ * @internal This class is not intended for direct external use
+ */
+export class StaticJwksSource implements JwksSource {
+  /**
+   * Reads the key set.
+   */
+  private read: () => Promise<JWKSResponse>;
+  /**
+   * The loaded key set, shared by all loads. Null until first loaded, or after loading failed.
+   */
+  private pendingLoad: Promise<JWKSResponse> | null = null;
+
+  /**
+   * Creates a new StaticJwksSource instance.
+   *
+   * @param read - Function reading the key set. Called again only if a previous read failed.
+   */
+  constructor(read: () => Promise<JWKSResponse>) {
+    this.read = read;
+  }
+
+  /**
+   * Returns the key set, reading it first if it hasn't been read yet.
+   *
+   * @returns Promise resolving to the key set
+   * @throws {JwksError} If the key set can't be read
+   */
+  load(): Promise<JWKSResponse> {
+    if (!this.pendingLoad) {
+      this.pendingLoad = this.read();
+      this.pendingLoad.catch(() => {
+        this.pendingLoad = null;
+      });
+    }
+    return this.pendingLoad;
+  }
+}
+
+/**
+ * Internal key source that reads a JSON key set from a local file and, while watched, reloads it whenever the file
+ * changes.
+ *
+ * The file's directory is watched rather than the file itself, because key files are usually replaced rather than
+ * modified in place: by renaming a new file over the old one, or, for a Kubernetes ConfigMap volume, by swapping
+ * the symlink the file resolves through. Change events are debounced, and a reloaded key set is only reported if
+ * it differs from the current one. If the file can't be read or parsed (e.g. while it is being written), the
+ * current key set is kept until the next change.
+ *
+ * Requires the Node.js `fs` module, which is only loaded once the file is first read or watched.
+ *
+ * @internal This class is not intended for direct external use
+ */
+export class FileJwksSource implements JwksSource {
+  /**
+   * Path of the JSON key set file.
+   */
+  private path: string;
+  /**
+   * How long to wait for more change events before reloading the file, in milliseconds.
+   */
+  private debounceMs: number;
+  /**
+   * The last successfully read key set. Null until the file is first read.
+   */
+  private jwks: JWKSResponse | null = null;
+  /**
+   * The in-flight initial read, if any. Null when no read is in progress.
+   */
+  private pendingLoad: Promise<JWKSResponse> | null = null;
+
+  /**
+   * Creates a new FileJwksSource instance.
+   *
+   * @param path - Path of the JSON key set file
+   * @param debounceMs - How long to wait for more change events before reloading the file, in milliseconds.
+   * Defaults to 100.
+   */
+  constructor(path: string, debounceMs: number = DEFAULT_WATCH_DEBOUNCE_MS) {
+    this.path = path;
+    this.debounceMs = debounceMs;
+  }
+
+  /**
+   * Returns the current key set, reading the file first if it hasn't been read successfully yet.
+   *
+   * @returns Promise resolving to the key set
+   * @throws {JwksError} With code `jwks_unavailable` if the file can't be read or is not a valid JWKS
+   */
+  load(): Promise<JWKSResponse> {
+    if (this.jwks) {
+      return Promise.resolve(this.jwks);
+    }
+    if (!this.pendingLoad) {
+      this.pendingLoad = readJwksFile(this.path)
+        .then((jwks) => {
+          this.jwks ??= jwks;
+          return this.jwks;
+        })
+        .finally(() => {
+          this.pendingLoad = null;
+        });
+    }
+    return this.pendingLoad;
+  }
+
+  /**
+   * Starts watching the file, calling the listener with the new key set each time the file changes.
+   *
+   * @param listener - Called with each new key set
+   * @returns Promise resolving to a function that stops watching
+   * @throws {Error} If the file's directory can't be watched
+   */
+  async watch(listener: (jwks: JWKSResponse) => void): Promise<() => void> {
+    const [fs, path] = await Promise.all([import('fs'), import('path')]);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const reload = async (): Promise<void> => {
+      try {
+        const jwks = await readJwksFile(this.path);
+        if (stopped || JSON.stringify(jwks) === JSON.stringify(this.jwks)) {
+          return;
+        }
+        this.jwks = jwks;
+        listener(jwks);
+      } catch (error) {
+        // Keep the current key set until the file is valid again
+      }
+    };
+
+    // Don't keep a Node.js process alive just for watching the key file
+    const watcher = fs.watch(path.dirname(this.path), { persistent: false }, () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => void reload(), this.debounceMs);
+    });
+    return (): void => {
+      stopped = true;
+      clearTimeout(timer);
+      watcher.close();
+    };
+  }
+}
+
+/**
+ * Factory function for creating the key source for a static key set option.
+ *
+ * @param staticJwks - An inline JWKS, `{ path }` of a JSON key set file (watched for changes if `watch` is true),
+ * or `{ pem }` mapping key IDs to PEM-encoded public keys
+ * @returns The key source
+ * @throws {Error} If the option doesn't have one of the supported forms
+ *
+ * @example
+ * ```typescript
+ * const source = createJwksSource({ path: '/etc/wristband/jwks.json', watch: true });
+ * const jwks = await source.load();
+ * const stopWatching = await source.watch?.(newJwks => console.log(`Reloaded ${newJwks.keys.length} keys`));
+ * ```
+ *
+ * @internal This function is used internally by the JWKS client
+ */
+export function createJwksSource(staticJwks: StaticJwks): JwksSource {
+  if (!isValidStaticJwks(staticJwks)) {
+    throw new Error(
+      'The static JWKS must be a key set, a { path } to a JSON key set, or a { pem } map keyed by kid.'
+    );
+  }
+  if ('keys' in staticJwks) {
+    return new StaticJwksSource(() => Promise.resolve(staticJwks));
+  }
+  if ('pem' in staticJwks) {
+    return new StaticJwksSource(() => convertPemKeys(staticJwks.pem));
+  }
+  return staticJwks.watch
+    ? new FileJwksSource(staticJwks.path)
+    : new StaticJwksSource(() => readJwksFile(staticJwks.path));
+}
+
+/**
+ * Reads a JSON key set from a file.
+ *
+ * @param path - Path of the JSON key set file
+ * @returns Promise resolving to the key set
+ * @throws {JwksError} With code `jwks_unavailable` if the file can't be read or is not a valid JWKS
+ */
+async function readJwksFile(path: string): Promise<JWKSResponse> {
+  let jwks: JWKSResponse;
+  try {
+    // Only load the file system module when needed, so that runtimes without it can use the other key sources
+    const { readFile } = await import('fs/promises');
+    jwks = JSON.parse(await readFile(path, 'utf8')) as JWKSResponse;
+  } catch (error) {
+    throw new JwksError(
+      `Failed to read JWKS from ${path}: ${error instanceof Error ? error.message : String(error)}`,
+      JwtValidationErrorCode.JWKS_UNAVAILABLE
+    );
+  }
+  if (!Array.isArray(jwks?.keys)) {
+    throw new JwksError(`Invalid JWKS in ${path}: missing keys array`, JwtValidationErrorCode.JWKS_UNAVAILABLE);
+  }
+  return jwks;
+}
+
+/**
+ * Converts PEM-encoded public keys to a key set, so that they go through the same validation as fetched keys.
+ *
+ * @param pemKeys - PEM-encoded public keys keyed by their key ID
+ * @returns Promise resolving to the key set
+ * @throws {JwksError} With code `invalid_key` if a PEM-encoded key can't be converted
+ */
+async function convertPemKeys(pemKeys: Record<string, string>): Promise<JWKSResponse> {
+  const keys = await Promise.all(Object.entries(pemKeys).map(async ([kid, pem]) => {
+    try {
+      return { ...await pemToPublicJwk(pem), kid } as JWKSKey;
+    } catch (error) {
+      throw new JwksError(
+        `Invalid PEM public key for '${kid}': ${error instanceof Error ? error.message : String(error)}`,
+        JwtValidationErrorCode.INVALID_KEY
+      );
+    }
+  }));
+  return { keys };
+}
+
+/**
+ * Checks that a static key set option has one of the supported forms.
+ *
+ * @param staticJwks - The static key set option
+ * @returns True if the option is a key set with a keys array, a `{ path }` with a non-empty path, or a `{ pem }` map
+ * of PEM strings
+ */
+function isValidStaticJwks(staticJwks: StaticJwks): boolean {
+  if (typeof staticJwks !== 'object' || staticJwks === null) {
+    return false;
+  }
+  if ('keys' in staticJwks) {
+    return Array.isArray(staticJwks.keys);
+  }
+  if ('pem' in staticJwks) {
+    return typeof staticJwks.pem === 'object' && staticJwks.pem !== null &&
+      Object.values(staticJwks.pem).every(pem => typeof pem === 'string');
+  }
+  return 'path' in staticJwks && typeof staticJwks.path === 'string' && !!staticJwks.path.trim();
+}
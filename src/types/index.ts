@@ -1,63 +1,734 @@
+import { JwtValidationErrorCode } from '../errors';
+
 // ////////////////////////////////////
 //  EXTERNAL TYPES
 // ////////////////////////////////////
 
 /**
- * Interface for validating and extracting Bearer tokens from JWTs issued by Wristband. This is the main entry
- * point for verifying token authenticity, issuer, expiration, and signature against the Wristband JWKS endpoint.
+ * Interface for validating and extracting Bearer tokens from JWTs issued by Wristband. This is the main entry
+ * point for verifying token authenticity, issuer, expiration, and signature against the Wristband JWKS endpoint.
+ */
+export interface WristbandJwtValidator {
+  /**
+   * Extracts the raw Bearer token from an HTTP Authorization header.
+   *
+   * @param authorizationHeader - The value of the Authorization header, which may be:
+   *   - A string (e.g., "Bearer abc123")
+   *   - An array containing a single string
+   *   - `null` or `undefined`
+   * @returns The raw token string (e.g., "abc123") if valid
+   * @throws {BearerTokenExtractionError} If the header is missing, malformed, contains multiple entries, or uses a
+   * non-Bearer scheme
+   */
+  extractBearerToken(authorizationHeader?: string | string[] | null): string;
+
+  /**
+   * Validates a JWT token and its signature using the Wristband JWKS endpoint.
+   * 
+   * Performs checks for:
+   * - Proper JWT structure
+   * - Allowed signing algorithm (RS256 unless configured otherwise)
+   * - Valid signature
+   * - Matching issuer
+   * - Presence of required claims and JSON types of registered claims
+   * - Matching audience (`aud`), when an expected audience is configured
+   * - Expiration (`exp`), not-before (`nbf`) and issued-at (`iat`) claims
+   * - Maximum token age and lifetime, when configured
+   * - Required scopes, when requested via `options`
+   *
+   * @typeParam TSchema - The claims schema passed in `options.claimsSchema`, from which the payload type is inferred,
+   * so that the static type is always backed by a runtime check
+   * @param token - A raw JWT token string
+   * @param options - Per-call checks (e.g. claims schema, required scopes) applied after the token is authenticated
+   * @returns A `JwtValidationResult` object indicating success or failure with details, with the payload typed
+   * after the claims schema
+   */
+  validate<const TSchema extends ClaimsSchema>(
+    token: string,
+    options: JwtValidateOptions & { claimsSchema: TSchema }
+  ): Promise<JwtValidationResult<InferClaims<TSchema>>>;
+
+  /**
+   * Validates a JWT token and its signature using the Wristband JWKS endpoint, typing the payload with an explicit
+   * payload type (e.g. `WristbandAccessTokenPayload`). The payload is checked against the claims schema at runtime,
+   * so the schema should describe the claims the payload type relies on.
+   *
+   * @typeParam TPayload - The payload type of a valid token
+   * @param token - A raw JWT token string
+   * @param options - Per-call checks (e.g. claims schema, required scopes) applied after the token is authenticated
+   * @returns A `JwtValidationResult` object indicating success or failure with details, with the payload typed as
+   * `TPayload`
+   */
+  validate<TPayload extends JWTPayload>(
+    token: string,
+    options: JwtValidateOptions & { claimsSchema: ClaimsSchema }
+  ): Promise<JwtValidationResult<TPayload>>;
+
+  /**
+   * Validates a JWT token and its signature using the Wristband JWKS endpoint. Without a claims schema, the
+   * payload is typed as a plain `JWTPayload`.
+   *
+   * @param token - A raw JWT token string
+   * @param options - Optional per-call checks (e.g. required scopes) applied after the token is authenticated
+   * @returns A `JwtValidationResult` object indicating success or failure with details
+   */
+  validate(token: string, options?: JwtValidateOptions): Promise<JwtValidationResult>;
+
+  /**
+   * Starts refreshing the JWKS in the background, so that validation never waits on the JWKS endpoint when keys
+   * rotate or expire. The key set is fetched immediately, then every `jwksRefreshInterval`. The refresh timer
+   * doesn't keep a Node.js process alive. Calling `start()` again while started has no effect.
+   *
+   * @returns A promise that resolves once the initial key set has been fetched
+   * @throws {JwksError} With code `jwks_unavailable` if the initial fetch fails. Background refreshes continue.
+   */
+  start(): Promise<void>;
+
+  /**
+   * Stops refreshing the JWKS in the background. Cached keys remain available. Safe to call when not started.
+   */
+  stop(): void;
+
+  /**
+   * Reports the health of the JWKS endpoint, including the state of the circuit breaker, e.g. for readiness checks.
+   *
+   * @returns The current JWKS health
+   */
+  getJwksHealth(): JwksHealth;
+
+  /**
+   * Exports the currently cached keys, with when they were fetched, so that a new validator can start with them via
+   * the `keySnapshot` option instead of fetching the JWKS (e.g. across serverless cold starts). The snapshot only
+   * contains public keys and can be serialized as JSON.
+   *
+   * @returns The key snapshot
+   */
+  exportKeySnapshot(): JwksKeySnapshot;
+}
+
+/**
+ * Per-call options for `validate()`. These checks run only after the token has been fully authenticated
+ * (structure, claims and signature), so their failures can safely be mapped to authorization errors (HTTP 403).
+ */
+export interface JwtValidateOptions {
+  /**
+   * Scopes that must ALL be granted to the token. Scopes are read from the space-delimited `scope` claim and
+   * the array-valued `scp` claim. If any scope is missing, validation fails with the `insufficient_scope` code.
+   */
+  requireScopes?: string[];
+
+  /**
+   * Scopes of which AT LEAST ONE must be granted to the token. If none are granted, validation fails with the
+   * `insufficient_scope` code. An empty array imposes no requirement.
+   */
+  requireAnyScope?: string[];
+
+  /**
+   * A lightweight schema describing the expected claims. The payload is checked against it at runtime, and a
+   * missing required claim or a claim with the wrong type fails validation with the `missing_claim` or
+   * `invalid_claim` code. Claims not described by the schema are allowed.
+   */
+  claimsSchema?: ClaimsSchema;
+
+  /**
+   * The tenant the request is targeting. The token's `tnt_id` claim must equal this value, otherwise validation
+   * fails with the `tenant_mismatch` code. Either pass the expected tenant ID directly, or a resolver that
+   * receives the authenticated payload and returns (or resolves to) the expected tenant ID. A resolver that
+   * returns no tenant ID fails validation.
+   */
+  tenant?: string | TenantResolver;
+
+  /**
+   * A signal to stop waiting when the signing key has to be fetched from the JWKS endpoint (or the OpenID Connect
+   * discovery document from the issuer), e.g. when the client disconnects or the request deadline passes. If it
+   * aborts first, validation fails with the `jwks_unavailable` code. The request itself keeps running (it may be
+   * shared with concurrent validations), and its result is still cached.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Resolves the tenant ID a request is targeting. Receives the authenticated token payload.
+ */
+export type TenantResolver = (payload: JWTPayload) => string | undefined | Promise<string | undefined>;
+
+/**
+ * A dependency-free schema describing the expected claims of a token payload, keyed by claim name.
+ *
+ * @example
+ * ```typescript
+ * const schema: ClaimsSchema = {
+ *   sub: { type: 'string', required: true },
+ *   role: { type: 'string', enum: ['admin', 'member'] },
+ *   org: { type: 'object', properties: { id: { type: 'string', required: true } } },
+ *   permissions: { type: 'array', items: { type: 'string' } },
+ * };
+ * ```
+ */
+export type ClaimsSchema = Record<string, ClaimSchemaField>;
+
+/**
+ * Describes the expected type and constraints of a single claim (or nested property) in a `ClaimsSchema`.
+ */
+export type ClaimSchemaField =
+  | { type: 'string'; required?: boolean; enum?: readonly string[] }
+  | { type: 'number'; required?: boolean; enum?: readonly number[] }
+  | { type: 'boolean'; required?: boolean }
+  | { type: 'array'; required?: boolean; items?: ClaimSchemaField }
+  | { type: 'object'; required?: boolean; properties?: ClaimsSchema };
+
+/**
+ * The payload type of a token that satisfies a claims schema. Claims described by the schema get the schema's type
+ * (required ones are non-optional, and `enum` values narrow them to a union of literals), registered claims that
+ * it doesn't describe keep their `JWTPayload` type, and any other claim is `unknown`.
+ *
+ * Declare a schema inline, or with `as const satisfies ClaimsSchema`, so that its literal types are preserved.
+ *
+ * @example
+ * ```typescript
+ * const schema = {
+ *   role: { type: 'string', required: true, enum: ['admin', 'member'] },
+ * } as const satisfies ClaimsSchema;
+ * type Payload = InferClaims<typeof schema>; // { role: 'admin' | 'member'; sub?: string; ... }
+ * ```
+ */
+export type InferClaims<TSchema extends ClaimsSchema> =
+  Omit<RegisteredClaims, keyof SchemaClaims<TSchema>> & SchemaClaims<TSchema> & { [claim: string]: unknown };
+
+/**
+ * The claims described by a claims schema, required ones being non-optional.
+ */
+export type SchemaClaims<TSchema extends ClaimsSchema> =
+  { -readonly [K in keyof TSchema as TSchema[K] extends { required: true } ? K : never]: InferClaim<TSchema[K]> } &
+  { -readonly [K in keyof TSchema as TSchema[K] extends { required: true } ? never : K]?: InferClaim<TSchema[K]> };
+
+/**
+ * The type of a claim (or nested property) described by a claims schema field.
+ */
+export type InferClaim<TField extends ClaimSchemaField> =
+  TField extends { type: 'string' | 'number'; enum: readonly (infer TValue)[] } ? TValue
+    : TField extends { type: 'string' } ? string
+      : TField extends { type: 'number' } ? number
+        : TField extends { type: 'boolean' } ? boolean
+          : TField extends { type: 'array'; items: infer TItems extends ClaimSchemaField } ? InferClaim<TItems>[]
+            : TField extends { type: 'array' } ? unknown[]
+              : TField extends { type: 'object'; properties: infer TProperties extends ClaimsSchema }
+                ? SchemaClaims<TProperties> & { [property: string]: unknown }
+                : { [property: string]: unknown };
+
+/**
+ * The registered claims of a JWT payload (RFC 7519 Section 4.1), without the payload's catch-all index signature.
+ */
+export type RegisteredClaims = Pick<JWTPayload, 'iss' | 'sub' | 'aud' | 'exp' | 'nbf' | 'iat' | 'jti'>;
+
+/**
+ * Describes the first mismatch found between a payload and a claims schema.
+ */
+export interface ClaimSchemaViolation {
+  /**
+   * Dot-separated path to the offending claim (e.g. `org.id` or `permissions[2]`).
+   */
+  path: string;
+
+  /**
+   * True if the claim is required but absent, false if it is present with an invalid value.
+   */
+  missing: boolean;
+
+  /**
+   * Human-readable description of the mismatch.
+   */
+  message: string;
+}
+
+/**
+ * Provides configuration options for Wristband JWT validation.
+ */
+export interface WristbandJwtValidatorConfig {
+  /**
+   * The Wristband application vanity domain. This value is used to construct the JWKS endpoint
+   * URL for token validation.
+   */
+  wristbandApplicationVanityDomain: string;
+
+  /**
+   * Enables OpenID Connect discovery. Instead of building the JWKS endpoint URL from the vanity domain, the
+   * `jwks_uri` is read from the issuer's `/.well-known/openid-configuration` document, whose `issuer` must match
+   * the expected issuer. Unless `algorithms` is set, the accepted signing algorithms are those advertised in
+   * `id_token_signing_alg_values_supported`, or only `RS256` if the document doesn't include it. Set to `true` to
+   * cache the document for 1 hour, or pass custom options. Disabled by default.
+   */
+  oidcDiscovery?: boolean | OidcDiscoveryOptions;
+
+  /**
+   * A key set to validate tokens against instead of fetching the JWKS, for deployments without network access
+   * (e.g. air-gapped installs) or to skip the initial JWKS request (e.g. in serverless functions): an inline JWKS,
+   * `{ path }` to a JSON file containing one (with `watch: true` to reload it when it changes, while the validator
+   * is started), or `{ pem }` mapping key IDs to PEM-encoded public keys. The keys go through the same validation
+   * as fetched keys. When set, the JWKS endpoint is never contacted and `oidcDiscovery` is ignored.
+   */
+  staticJwks?: StaticJwks;
+
+  /**
+   * Keys to start the cache with, as exported by `exportKeySnapshot()`, so that the first validations don't wait on
+   * the JWKS endpoint (e.g. on serverless cold starts). The keys go through the same validation as fetched keys;
+   * invalid and expired keys are skipped. Keys without an advertised lifetime expire once `jwksCacheTtl` (or, without
+   * it, `jwksCacheMaxTtl`) has elapsed since they were fetched. Keys missing from the snapshot are fetched as usual.
+   */
+  keySnapshot?: JwksKeySnapshot;
+
+  /**
+   * The maximum number of JWK keys to cache. When this limit is reached, the least recently
+   * used keys will be evicted from the cache. Default is 20.
+   */
+  jwksCacheMaxSize?: number;
+
+  /**
+   * The time-to-live for cached JWK keys, in milliseconds. If undefined (the default), keys are cached
+   * indefinitely until evicted due to the cache size limit. Only applies when the JWKS response has no
+   * `Cache-Control: max-age` or `Expires` header; otherwise, keys expire when the JWKS endpoint advertises.
+   */
+  jwksCacheTtl?: number;
+
+  /**
+   * The minimum lifetime of cached JWK keys when it comes from the JWKS response's caching headers, in milliseconds.
+   * Shorter lifetimes (including `no-cache` and `no-store` responses) are raised to this value. Default is 60000.
+   */
+  jwksCacheMinTtl?: number;
+
+  /**
+   * The maximum lifetime of cached JWK keys when it comes from the JWKS response's caching headers, in milliseconds.
+   * Longer lifetimes are lowered to this value. Default is 86400000 (1 day).
+   */
+  jwksCacheMaxTtl?: number;
+
+  /**
+   * A store for JWK keys shared between processes (e.g. backed by Redis or Memcached), so that a cache miss in one
+   * process can be served with keys another process already fetched, instead of each process fetching the JWKS.
+   * Keys read from the store go through the same validation as fetched keys, and imported keys are still cached in
+   * each process. Keys are stored under the issuer, so validators of different issuers can share a store. Ignored
+   * with `staticJwks`. If undefined (the default), keys are only cached in the validator's in-memory LRU cache.
+   */
+  jwksCacheStore?: JwksCacheStore;
+
+  /**
+   * The minimum time between JWKS refetches triggered by tokens with an unknown `kid`, in milliseconds. Within
+   * this interval, unknown key IDs are rejected with the `unknown_kid` error code without contacting the JWKS
+   * endpoint, which protects it from floods of tokens with forged key IDs. Set to 0 to disable. Default is 30000.
+   */
+  jwksRefetchInterval?: number;
+
+  /**
+   * How long a `kid` that was not found in the JWKS is remembered, in milliseconds. Tokens with a remembered `kid`
+   * are rejected with the `unknown_kid` error code without contacting the JWKS endpoint. Set to 0 to disable.
+   * Default is 30000.
+   */
+  jwksNegativeCacheTtl?: number;
+
+  /**
+   * The interval between background refreshes of the whole key set, in milliseconds. Background refreshing only
+   * runs after `start()` is called on the validator. If undefined, the key set is refreshed shortly before cached
+   * keys expire (at 90% of the lifetime advertised by the JWKS endpoint's caching headers, or of `jwksCacheTtl`),
+   * or every 5 minutes otherwise.
+   */
+  jwksRefreshInterval?: number;
+
+  /**
+   * How long after the last successful JWKS fetch the last known good keys may still be used when the JWKS endpoint
+   * can't be reached, in milliseconds. Within this window, a failed fetch falls back to the last fetched key set
+   * instead of failing validation with `jwks_unavailable`. Default is 0 (disabled).
+   */
+  jwksMaxStale?: number;
+
+  /**
+   * The fetch implementation used to request the JWKS. Use this to route JWKS requests through a proxy, trust a
+   * custom CA (e.g. with an undici dispatcher), or inject a stub in tests. Defaults to the global `fetch`.
+   */
+  jwksFetch?: typeof fetch;
+
+  /**
+   * The timeout for each JWKS request attempt, in milliseconds. A request that takes longer is aborted and counts
+   * as a failed attempt. Set to 0 to disable. Default is 10000.
+   */
+  jwksTimeoutMs?: number;
+
+  /**
+   * Additional HTTP headers to send with every JWKS request.
+   */
+  jwksHeaders?: Record<string, string>;
+
+  /**
+   * How failed JWKS requests are retried. By default, up to 3 attempts are made with exponential backoff, starting
+   * at 100ms and capped at 5000ms. Only network errors, timeouts, invalid responses and HTTP 408,
+   * 429 and 5xx responses are retried, and a `Retry-After` header on 429 and 503 responses is honored.
+   */
+  jwksRetryPolicy?: JwksRetryPolicy;
+
+  /**
+   * Enables a circuit breaker around the JWKS endpoint, so that validation fails fast with `jwks_unavailable`
+   * instead of spending time on requests and retries while the endpoint is down. Set to `true` to use the default
+   * thresholds (open after 5 consecutive failed fetches, try again after 30 seconds), or pass custom thresholds.
+   * Disabled by default.
+   */
+  jwksCircuitBreaker?: boolean | JwksCircuitBreakerOptions;
+
+  /**
+   * The expected audience(s) for incoming tokens. When set, the token's `aud` claim must be present and match
+   * according to RFC 7519: a string `aud` must equal an expected value, and an array `aud` must contain at least
+   * one expected value. A predicate can be provided instead for custom matching logic; it receives the token's
+   * audience values normalized to an array. If undefined (the default), the `aud` claim is not checked.
+   */
+  audience?: AudienceOption;
+
+  /**
+   * The number of seconds of leeway allowed when checking time-based claims (`exp`, `nbf`, `iat`, including the
+   * max token age), to account for clock drift between Wristband and your servers. Must be a non-negative number.
+   * Default is 0.
+   */
+  clockToleranceSeconds?: number;
+
+  /**
+   * A function returning the current time in epoch milliseconds. It is used for every time-based check,
+   * including token lifetime claims and JWKS cache expiration. Defaults to `Date.now`. Useful for freezing
+   * time in tests without mocking the global `Date`.
+   */
+  clock?: () => number;
+
+  /**
+   * Claims that must be present in every token. Tokens missing any listed claim are rejected. The `exp` claim
+   * is always required, even if omitted from this list. Default is `['exp', 'iat', 'sub']`.
+   */
+  requiredClaims?: string[];
+
+  /**
+   * The maximum age of a token, in seconds, measured from its `iat` claim. Tokens issued longer ago are rejected
+   * even if they have not yet expired. When set, the `iat` claim is required. If undefined (the default), token
+   * age is not limited.
+   */
+  maxTokenAge?: number;
+
+  /**
+   * The maximum lifetime of a token, in seconds, computed as `exp - iat`. Tokens minted with a longer lifetime are
+   * rejected, which caps exposure from misconfigured long-lived tokens. When set, the `iat` claim is required. If
+   * undefined (the default), token lifetime is not limited.
+   */
+  maxTokenLifetime?: number;
+
+  /**
+   * The signing algorithms accepted in the token header. Tokens signed with any other algorithm are rejected
+   * before the signing key is fetched, and a JWK that declares an `alg` can only verify tokens using that same
+   * algorithm. Supported values are `RS256`, `RS384`, `RS512`, `PS256`, `PS384`, `PS512`, `ES256`, `ES384`,
+   * `ES512` and `EdDSA`. Default is `['RS256']`, or with `oidcDiscovery`, the supported algorithms advertised by
+   * the issuer (still `['RS256']` if it advertises none).
+   */
+  algorithms?: SigningAlgorithm[];
+}
+
+/**
+ * JWS signing algorithms that the validator can verify (RFC 7518 Section 3.1): RSASSA-PKCS1-v1_5 (`RS*`),
+ * RSASSA-PSS (`PS*`) and ECDSA over P-256, P-384 and P-521 (`ES*`), with SHA-256, SHA-384 or SHA-512, plus
+ * EdDSA with Ed25519 keys (RFC 8037).
+ */
+export type SigningAlgorithm =
+  | 'RS256' | 'RS384' | 'RS512'
+  | 'PS256' | 'PS384' | 'PS512'
+  | 'ES256' | 'ES384' | 'ES512'
+  | 'EdDSA';
+
+/**
+ * Accepted forms of the expected audience configuration: a single audience, a list of acceptable audiences,
+ * or a predicate that receives the token's audience values (always normalized to an array).
+ */
+export type AudienceOption = string | string[] | ((tokenAudiences: string[]) => boolean);
+
+/**
+ * Options for OpenID Connect discovery.
+ */
+export interface OidcDiscoveryOptions {
+  /**
+   * How long the discovery document is cached, in milliseconds. Default is 3600000 (1 hour).
+   */
+  cacheTtl?: number;
+}
+
+/**
+ * The members of an OpenID Connect discovery document (OpenID Connect Discovery 1.0 Section 3) used by the SDK.
+ */
+export interface OidcDiscoveryDocument {
+  /**
+   * The issuer identifier. Must exactly match the issuer the document was requested for.
+   */
+  issuer: string;
+
+  /**
+   * The URL of the issuer's JSON Web Key Set.
+   */
+  jwks_uri: string;
+
+  /**
+   * The signing algorithms the issuer supports for ID tokens.
+   */
+  id_token_signing_alg_values_supported?: string[];
+
+  /**
+   * Any other discovery metadata.
+   */
+  [key: string]: unknown;
+}
+
+/**
+ * Controls how failed JWKS requests are retried. The delay before each retry doubles, starting at the base delay and
+ * capped at the max delay. With jitter, a random delay between 0 and that value is used instead, which spreads out
+ * retries from many instances hitting the same outage.
+ */
+export interface JwksRetryPolicy {
+  /**
+   * Maximum number of attempts, including the first request. 1 disables retries. Defaults to 3.
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry, in milliseconds. Defaults to 100.
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Maximum delay between attempts, in milliseconds. A `Retry-After` header asking to wait longer than this stops
+   * retrying. Defaults to 5000.
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Whether to randomize retry delays ("full jitter"). Recommended when many instances share the JWKS endpoint.
+   * Defaults to false.
+   */
+  jitter?: boolean;
+
+  /**
+   * Decides whether a failed attempt should be retried. By default, network errors, timeouts, invalid responses and
+   * HTTP 408, 429 and 5xx responses are retried; other HTTP errors, such as 401 or 404, are not.
+   */
+  isRetryable?: (failure: JwksRequestFailure) => boolean;
+}
+
+/**
+ * Describes a failed JWKS request attempt, as passed to a retry policy's `isRetryable` predicate.
+ */
+export interface JwksRequestFailure {
+  /**
+   * The error the attempt failed with.
+   */
+  error: Error;
+
+  /**
+   * The HTTP status code, when the JWKS endpoint responded with an error status.
+   */
+  status?: number;
+
+  /**
+   * The number of the failed attempt, starting at 1.
+   */
+  attempt: number;
+}
+
+/**
+ * Options for the circuit breaker around the JWKS endpoint. After `failureThreshold` consecutive failed JWKS fetches
+ * (each after all of its retries), the breaker opens and fetches fail fast for `resetTimeoutMs`. Then it is
+ * half-open: the next fetch is a trial, which closes the breaker if it succeeds and opens it again if it fails.
+ */
+export interface JwksCircuitBreakerOptions {
+  /**
+   * Number of consecutive failed JWKS fetches that opens the breaker. Defaults to 5.
+   */
+  failureThreshold?: number;
+
+  /**
+   * How long the breaker stays open before a trial fetch is allowed, in milliseconds. Defaults to 30000.
+   */
+  resetTimeoutMs?: number;
+}
+
+/**
+ * State of the circuit breaker around the JWKS endpoint: `closed` (fetching normally), `open` (failing fast) or
+ * `half-open` (allowing a trial fetch).
+ */
+export type JwksCircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Health of the JWKS endpoint as seen by the validator, for health checks and monitoring.
+ */
+export interface JwksHealth {
+  /**
+   * Current state of the circuit breaker. Always `closed` when the circuit breaker is disabled.
+   */
+  circuitState: JwksCircuitState;
+
+  /**
+   * Number of consecutive failed JWKS fetches. Reset to 0 by a successful fetch.
+   */
+  consecutiveFailures: number;
+
+  /**
+   * When the JWKS was last fetched successfully, in epoch milliseconds. Undefined if it never was.
+   */
+  lastSuccessfulFetchTime?: number;
+
+  /**
+   * While the breaker is open, when the next trial fetch will be allowed, in epoch milliseconds.
+   */
+  retryAt?: number;
+}
+
+/**
+ * A key set to validate tokens against without contacting the JWKS endpoint: an inline JWKS, the path of a JSON
+ * file containing one, or PEM-encoded public keys (`-----BEGIN PUBLIC KEY-----`) keyed by their key ID. With
+ * `watch: true`, the file is reloaded whenever it changes, from when `start()` is called until `stop()`.
+ */
+export type StaticJwks = JWKSResponse | { path: string; watch?: boolean } | { pem: Record<string, string> };
+
+/**
+ * Response structure from the JWKS endpoint. Contains an array of JWK keys used for JWT signature verification.
+ */
+export interface JWKSResponse {
+  /**
+   * Array of JSON Web Keys available for signature verification.
+   */
+  keys: JWKSKey[];
+}
+
+/**
+ * Represents a single JSON Web Key (JWK) as defined in RFC 7517. Contains the cryptographic key material and metadata
+ * needed for JWT signature verification.
+ */
+export interface JWKSKey {
+  /**
+   * Key type parameter - identifies the cryptographic algorithm family used with the key.
+   */
+  kty: string;
+  
+  /**
+   * Key ID parameter - used to match a specific key during signature verification.
+   */
+  kid: string;
+  
+  /**
+   * Public key use parameter - identifies the intended use of the public key.
+   */
+  use?: string;
+  
+  /**
+   * RSA modulus parameter - represents the modulus value for RSA public keys (base64url-encoded).
+   */
+  n?: string;
+  
+  /**
+   * RSA exponent parameter - represents the exponent value for RSA public keys (base64url-encoded).
+   */
+  e?: string;
+  
+  /**
+   * Curve parameter - identifies the curve of an EC public key (e.g. "P-256") or OKP public key (e.g. "Ed25519").
+   */
+  crv?: string;
+  
+  /**
+   * EC x coordinate parameter - represents the x coordinate of an EC public key point, or the public key itself
+   * for OKP keys (base64url-encoded).
+   */
+  x?: string;
+  
+  /**
+   * EC y coordinate parameter - represents the y coordinate of an EC public key point (base64url-encoded).
+   */
+  y?: string;
+  
+  /**
+   * X.509 certificate chain parameter - contains the X.509 public key certificate or certificate chain.
+   */
+  x5c?: string[];
+  
+  /**
+   * X.509 certificate SHA-1 thumbprint parameter - base64url-encoded SHA-1 thumbprint of the X.509 certificate.
+   */
+  x5t?: string;
+  
+  /**
+   * Algorithm parameter - identifies the algorithm intended for use with the key.
+   */
+  alg?: string;
+}
+
+/**
+ * The keys cached by a validator, as exported by `exportKeySnapshot()`. Only contains public keys, and can be
+ * serialized as JSON.
+ */
+export interface JwksKeySnapshot {
+  /**
+   * Version of the snapshot format.
+   */
+  version: 1;
+
+  /**
+   * The cached keys, from most to least recently used.
+   */
+  keys: JwksKeySnapshotEntry[];
+}
+
+/**
+ * A cached key in a key snapshot.
  */
-export interface WristbandJwtValidator {
+export interface JwksKeySnapshotEntry {
   /**
-   * Extracts the raw Bearer token from an HTTP Authorization header.
-   *
-   * @param authorizationHeader - The value of the Authorization header, which may be:
-   *   - A string (e.g., "Bearer abc123")
-   *   - An array containing a single string
-   *   - `null` or `undefined`
-   * @returns The raw token string (e.g., "abc123") if valid
-   * @throws If the header is missing, malformed, contains multiple entries, or uses a non-Bearer scheme
+   * The public JWK, including its key ID.
    */
-  extractBearerToken(authorizationHeader?: string | string[] | null): string;
+  jwk: JWKSKey;
 
   /**
-   * Validates a JWT token using the Wristband JWKS endpoint and RS256 signature.
-   * 
-   * Performs checks for:
-   * - Proper JWT structure
-   * - Supported algorithm (RS256)
-   * - Valid signature
-   * - Matching issuer
-   * - Expiration (`exp`) and not-before (`nbf`) claims
-   *
-   * @param token - A raw JWT token string
-   * @returns A `JwtValidationResult` object indicating success or failure with details
+   * When the key was last fetched (or revalidated), in epoch milliseconds.
+   */
+  fetchedAt: number;
+
+  /**
+   * When the cached key expires, in epoch milliseconds, if its lifetime was advertised by the JWKS endpoint or it
+   * was restored from a snapshot. Undefined if it is kept per the cache TTL; once restored, such a key expires when
+   * the cache TTL (or cache max TTL) has elapsed since `fetchedAt`.
    */
-  validate(token: string): Promise<JwtValidationResult>;
+  expiresAt?: number;
 }
 
 /**
- * Provides configuration options for Wristband JWT validation.
+ * An asynchronous store for JWK keys. Implement it to share fetched keys between processes, e.g. with Redis or
+ * Memcached. Stored values are plain JWKs, so they can be serialized as JSON. Errors thrown by the store are treated
+ * as cache misses and never fail token validation.
+ *
+ * Keys are stored under store keys made of the client's namespace (the issuer, or the JWKS URI) and the key ID, so
+ * that clients of different issuers can share a store without one issuer's keys verifying another issuer's tokens.
  */
-export interface WristbandJwtValidatorConfig {
+export interface JwksCacheStore {
   /**
-   * The Wristband application vanity domain. This value is used to construct the JWKS endpoint
-   * URL for token validation.
+   * Returns the JWK stored under a store key, or undefined if there is none or it has expired.
    */
-  wristbandApplicationVanityDomain: string;
+  get(key: string): Promise<JWKSKey | undefined>;
 
   /**
-   * The maximum number of JWK keys to cache. When this limit is reached, the least recently
-   * used keys will be evicted from the cache. Default is 20.
+   * Stores a JWK under a store key, replacing any JWK already stored under it. It expires after the TTL, in
+   * milliseconds, or is kept until evicted if the TTL is undefined.
    */
-  jwksCacheMaxSize?: number;
+  set(key: string, jwk: JWKSKey, ttl?: number): Promise<void>;
 
   /**
-   * The time-to-live for cached JWK keys, in milliseconds. If undefined (the default), keys are cached
-   * indefinitely until evicted due to the cache size limit.
+   * Removes the JWK stored under a store key, if any.
    */
-  jwksCacheTtl?: number;
+  delete(key: string): Promise<void>;
+
+  /**
+   * Removes all stored JWKs. Optional; without it, clearing the validator's cache only removes the keys of the
+   * last fetched key set from the store.
+   */
+  clear?(): Promise<void>;
 }
 
+
 /**
  * Standard JWT payload structure containing common claims and custom properties. Follows RFC 7519
  * specifications for JSON Web Token claims.
@@ -106,11 +777,120 @@ export interface JWTPayload {
   [key: string]: any;
 }
 
+/**
+ * Payload of an access token issued by Wristband. Extends the standard JWT claims with the Wristband-specific
+ * claims present in both user and machine-to-machine (client credentials) tokens.
+ */
+export interface WristbandAccessTokenPayload extends JWTPayload {
+  /**
+   * ID of the Wristband application that issued the token.
+   */
+  app_id?: string;
+
+  /**
+   * ID of the tenant that the token was issued for.
+   */
+  tnt_id?: string;
+
+  /**
+   * ID of the OAuth2 client that requested the token. For client credentials tokens, this is also the subject.
+   */
+  client_id?: string;
+
+  /**
+   * Name of the identity provider the user authenticated with. Only present in tokens issued to users.
+   */
+  idp_name?: string;
+
+  /**
+   * Space-delimited list of scopes granted to the token.
+   */
+  scope?: string;
+}
+
+/**
+ * Properties shared by all authenticated principals derived from a Wristband access token.
+ */
+interface BasePrincipal {
+  /**
+   * The `sub` claim of the token.
+   */
+  subject: string;
+
+  /**
+   * ID of the tenant that the token was issued for (`tnt_id` claim).
+   */
+  tenantId?: string;
+
+  /**
+   * ID of the Wristband application that issued the token (`app_id` claim).
+   */
+  applicationId?: string;
+
+  /**
+   * Scopes granted to the token, parsed from the `scope` and `scp` claims.
+   */
+  scopes: string[];
+
+  /**
+   * The full token payload the principal was derived from.
+   */
+  payload: WristbandAccessTokenPayload;
+}
+
+/**
+ * A principal representing an end user who authenticated through a user-facing flow (e.g. authorization code).
+ */
+export interface UserPrincipal extends BasePrincipal {
+  /**
+   * Discriminator identifying a user principal.
+   */
+  type: 'user';
+
+  /**
+   * ID of the user (the `sub` claim).
+   */
+  userId: string;
+
+  /**
+   * ID of the OAuth2 client the user authenticated through (`client_id` claim), if present.
+   */
+  clientId?: string;
+
+  /**
+   * Name of the identity provider the user authenticated with (`idp_name` claim), if present.
+   */
+  identityProviderName?: string;
+}
+
+/**
+ * A principal representing a machine client that authenticated with the client credentials grant.
+ */
+export interface MachinePrincipal extends BasePrincipal {
+  /**
+   * Discriminator identifying a machine principal.
+   */
+  type: 'machine';
+
+  /**
+   * ID of the OAuth2 client (the `client_id` claim, which matches the `sub` claim).
+   */
+  clientId: string;
+}
+
+/**
+ * An authenticated principal derived from a Wristband access token. Use the `type` discriminator to tell
+ * users apart from machine clients.
+ */
+export type Principal = UserPrincipal | MachinePrincipal;
+
 /**
  * Result object returned by JWT validation. Contains validation status, decoded payload on success, or
  * error details on failure.
+ *
+ * @typeParam TPayload - The type of the decoded payload. Defaults to `JWTPayload`.
  */
-export interface JwtValidationResult {
+export interface JwtValidationResult<TPayload = JWTPayload> {
   /**
    * Flag indicating whether the token is valid or not.
    */
@@ -119,8 +899,13 @@ export interface JwtValidationResult {
   /**
    * Decoded JWT payload, if valid.
    */
-  payload?: JWTPayload;
+  payload?: TPayload;
   
+  /**
+   * Stable, machine-readable reason for the failure, if validation failed.
+   */
+  errorCode?: JwtValidationErrorCode;
+
   /**
    * Error message, if validation failed.
    */
@@ -131,14 +916,58 @@ export interface JwtValidationResult {
 //  INTERNAL TYPES
 // ////////////////////////////////////
 
+/**
+ * Optional claim validation settings applied by the validator implementation.
+ */
+export interface JwtValidatorOptions {
+  /**
+   * The expected audience(s) for incoming tokens. If undefined, the `aud` claim is not checked.
+   */
+  audience?: AudienceOption;
+
+  /**
+   * Leeway in seconds applied to time-based claim checks. Defaults to 0.
+   */
+  clockToleranceSeconds?: number;
+
+  /**
+   * Time source returning the current time in epoch milliseconds. Defaults to `Date.now`.
+   */
+  clock?: () => number;
+
+  /**
+   * Claims that must be present in every token payload. `exp` is always enforced. Defaults to
+   * `['exp', 'iat', 'sub']`.
+   */
+  requiredClaims?: string[];
+
+  /**
+   * Maximum token age in seconds, measured from `iat`. If undefined, age is not limited.
+   */
+  maxTokenAge?: number;
+
+  /**
+   * Maximum token lifetime in seconds (`exp - iat`). If undefined, lifetime is not limited.
+   */
+  maxTokenLifetime?: number;
+
+  /**
+   * Resolves the signing algorithms advertised by the issuer (e.g. from its OpenID Connect discovery document).
+   * When set, only algorithms that are both allowed and advertised are accepted. Resolving to undefined means
+   * the issuer does not advertise its algorithms.
+   */
+  advertisedAlgorithms?: () => Promise<string[] | undefined>;
+}
+
 /**
  * Configuration options for the JWKS (JSON Web Key Set) client.
  */
 export interface JWKSClientConfig {
   /**
-   * The URI endpoint for fetching the JSON Web Key Set.
+   * The URI endpoint for fetching the JSON Web Key Set, or a function resolving it before each request (e.g. from
+   * an OpenID Connect discovery document).
    */
-  jwksUri: string;
+  jwksUri: string | (() => Promise<string>);
   
   /**
    * Maximum number of keys to store in the cache.
@@ -147,64 +976,220 @@ export interface JWKSClientConfig {
   
   /**
    * Time-to-live for cached keys, in milliseconds. If undefined, keys are cached indefinitely until evicted.
+   * Only used when the JWKS response has no `Cache-Control: max-age` or `Expires` header.
    */
   cacheTtl?: number;
+
+  /**
+   * Lower bound for the key lifetime advertised by the JWKS response's caching headers, in milliseconds.
+   * Defaults to 60000.
+   */
+  cacheMinTtl?: number;
+
+  /**
+   * Upper bound for the key lifetime advertised by the JWKS response's caching headers, in milliseconds.
+   * Defaults to 86400000.
+   */
+  cacheMaxTtl?: number;
+
+  /**
+   * Store for JWK keys shared with other processes, consulted on cache misses before fetching the JWKS. If
+   * undefined, keys are only cached in the LRU cache. Ignored with a static key set.
+   */
+  cacheStore?: JwksCacheStore;
+
+  /**
+   * Namespace of this client's keys in the cache store, which prefixes the key ID in every store key so that clients
+   * of different issuers can share a store. Defaults to the JWKS URI; required with a cache store if the JWKS URI is
+   * resolved by a function.
+   */
+  cacheStoreNamespace?: string;
+
+  /**
+   * Keys to start the cache with, as exported by `exportKeySnapshot()`. Restored when the cache is first used.
+   */
+  keySnapshot?: JwksKeySnapshot;
+
+  /**
+   * Minimum time between JWKS fetches triggered by unknown key IDs, in milliseconds. 0 disables rate limiting.
+   * Defaults to 30000.
+   */
+  refetchInterval?: number;
+
+  /**
+   * How long a key ID that was not found in the JWKS is remembered, in milliseconds. 0 disables negative caching.
+   * Defaults to 30000.
+   */
+  negativeCacheTtl?: number;
+
+  /**
+   * Interval between background refreshes of the key set after `start()`, in milliseconds. Defaults to 90% of the
+   * key set's lifetime advertised by the JWKS response's caching headers, or of `cacheTtl`, or 300000 otherwise.
+   */
+  refreshInterval?: number;
+
+  /**
+   * How long after the last successful fetch the last known good key set may still be served when fetching fails,
+   * in milliseconds. 0 disables serving stale keys. Defaults to 0.
+   */
+  maxStale?: number;
+
+  /**
+   * The fetch implementation used to request the JWKS, e.g. one that routes through a proxy or trusts a custom CA.
+   * Defaults to the global `fetch`.
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * Timeout for each JWKS request attempt, including reading the response body, in milliseconds. 0 disables the
+   * timeout. Defaults to 10000.
+   */
+  timeoutMs?: number;
+
+  /**
+   * Additional headers sent with every JWKS request.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * How failed JWKS requests are retried. Unset fields use their defaults.
+   */
+  retryPolicy?: JwksRetryPolicy;
+
+  /**
+   * Enables the circuit breaker around the JWKS endpoint, with default (`true`) or custom thresholds. Disabled by
+   * default.
+   */
+  circuitBreaker?: boolean | JwksCircuitBreakerOptions;
+
+  /**
+   * A key set to use instead of fetching the JWKS, loaded through a key source. When set, the JWKS URI is never
+   * requested, and a watched file replaces periodic background refreshes.
+   */
+  staticJwks?: StaticJwks;
+
+  /**
+   * Time source returning the current time in epoch milliseconds. Defaults to `Date.now`.
+   */
+  clock?: () => number;
 }
 
 /**
- * Represents a single JSON Web Key (JWK) as defined in RFC 7517. Contains the cryptographic key material and metadata
- * needed for JWT signature verification.
+ * Configuration options for the OpenID Connect discovery client.
  */
-export interface JWKSKey {
+export interface OidcDiscoveryClientConfig {
   /**
-   * Key type parameter - identifies the cryptographic algorithm family used with the key.
+   * The expected issuer. The discovery document is requested from `<issuer>/.well-known/openid-configuration`.
    */
-  kty: string;
-  
+  issuer: string;
+
   /**
-   * Key ID parameter - used to match a specific key during signature verification.
+   * How long the discovery document is cached, in milliseconds. Defaults to 3600000.
    */
-  kid: string;
-  
+  cacheTtl?: number;
+
   /**
-   * Public key use parameter - identifies the intended use of the public key.
+   * The fetch implementation used to request the discovery document. Defaults to the global `fetch`.
    */
-  use?: string;
-  
+  fetch?: typeof fetch;
+
   /**
-   * RSA modulus parameter - represents the modulus value for RSA public keys (base64url-encoded).
+   * Timeout for the discovery request, including reading the response body, in milliseconds. 0 disables the
+   * timeout. Defaults to 10000.
    */
-  n?: string;
-  
+  timeoutMs?: number;
+
   /**
-   * RSA exponent parameter - represents the exponent value for RSA public keys (base64url-encoded).
+   * Additional headers sent with the discovery request.
    */
-  e?: string;
-  
+  headers?: Record<string, string>;
+
   /**
-   * X.509 certificate chain parameter - contains the X.509 public key certificate or certificate chain.
+   * Time source returning the current time in epoch milliseconds. Defaults to `Date.now`.
    */
-  x5c?: string[];
-  
+  clock?: () => number;
+
   /**
-   * X.509 certificate SHA-1 thumbprint parameter - base64url-encoded SHA-1 thumbprint of the X.509 certificate.
+   * Wraps each discovery request, e.g. so that the JWKS client's circuit breaker fails it fast while open and
+   * counts its failures. Defaults to making requests as is.
    */
-  x5t?: string;
-  
+  requestGuard?: (request: () => Promise<OidcDiscoveryDocument>) => Promise<OidcDiscoveryDocument>;
+}
+
+/**
+ * A validated signing key stored in the JWKS client cache, along with the CryptoKeys imported from it.
+ */
+export interface CachedSigningKey {
   /**
-   * Algorithm parameter - identifies the algorithm intended for use with the key.
+   * The public key material of the JWK (e.g. `kty`, `n`, `e`), used to import the key for each algorithm.
+   */
+  jwk: JsonWebKey;
+
+  /**
+   * Imported, non-extractable CryptoKeys for this key, indexed by the signing algorithm they were imported for.
+   * RSA keys are bound to a single hash and padding scheme when imported, so one JWK may need several CryptoKeys.
+   */
+  cryptoKeys: Record<string, CryptoKey>;
+
+  /**
+   * The key type, taken from the JWK `kty` parameter (e.g. "RSA", "EC" or "OKP").
+   */
+  kty: string;
+
+  /**
+   * The curve of an EC or OKP key, taken from the JWK `crv` parameter.
+   */
+  crv?: string;
+
+  /**
+   * The algorithm the key is restricted to, taken from the JWK `alg` parameter. If undefined, the key may be used
+   * with any allowed algorithm of its key type.
    */
   alg?: string;
+
+  /**
+   * When the key was last fetched (or revalidated), in epoch milliseconds.
+   */
+  fetchedAt: number;
 }
 
 /**
- * Response structure from the JWKS endpoint. Contains an array of JWK keys used for JWT signature verification.
+ * A source of the key set that the JWKS client uses instead of fetching the JWKS endpoint.
  */
-export interface JWKSResponse {
+export interface JwksSource {
   /**
-   * Array of JSON Web Keys available for signature verification.
+   * Returns the current key set, loading it first if needed.
    */
-  keys: JWKSKey[];
+  load(): Promise<JWKSResponse>;
+
+  /**
+   * Starts watching for key set changes, calling the listener with each new key set, and resolves to a function
+   * that stops watching. Only implemented by sources whose key set can change.
+   */
+  watch?(listener: (jwks: JWKSResponse) => void): Promise<() => void>;
+}
+
+/**
+ * The outcome of a JWKS request, including the HTTP caching metadata the JWKS endpoint returned with it.
+ */
+export interface JwksFetchResult {
+  /**
+   * The fetched key set, or the previously fetched key set if the endpoint responded with 304 Not Modified.
+   */
+  jwks: JWKSResponse;
+  /**
+   * How long the key set may be cached, in milliseconds, according to the response's `Cache-Control` or `Expires`
+   * header. Undefined if the response had no caching headers.
+   */
+  lifetime?: number;
+  /**
+   * The response's entity tag, sent back in `If-None-Match` when the key set is fetched again.
+   */
+  etag?: string;
+  /**
+   * True if the endpoint responded with 304 Not Modified, so the key set was revalidated rather than fetched.
+   */
+  notModified?: boolean;
 }
 
 /**
@@ -214,7 +1199,7 @@ export interface JWKSResponse {
 export interface JWTHeader {
   /**
    * Algorithm parameter - identifies the cryptographic algorithm used to secure the JWT.
-   * For Wristband tokens, this should be "RS256".
+   * Must be one of the validator's allowed algorithms (RS256 by default).
    */
   alg: string;
   
@@ -245,30 +1230,38 @@ export interface CacheOptions {
    * patterns. If undefined, entries will only be evicted due to size constraints.
    */
   ttl?: number;
+  /**
+   * Optional time source returning the current time in epoch milliseconds. Defaults to `Date.now`.
+   */
+  clock?: () => number;
 }
 
 /**
  * Node in the doubly-linked list for LRU cache operations.
  */
-export interface LRUNode {
+export interface LRUNode<T = string> {
   /**
    * The cache key for this entry
    */
   key: string;
   /**
-   * The cached JWK value
+   * The cached value
    */
-  value: string;
+  value: T;
   /**
    * Timestamp when this entry was last accessed
    */
   lastAccessed: number;
+  /**
+   * Timestamp when this entry expires, if it was stored with its own TTL. Takes precedence over the cache's TTL.
+   */
+  expiresAt?: number;
   /**
    * Pointer to the previous node in the doubly-linked list (null for head)
    */
-  prev: LRUNode | null;
+  prev: LRUNode<T> | null;
   /**
    * Pointer to the next node in the doubly-linked list (null for tail)
    */
-  next: LRUNode | null;
+  next: LRUNode<T> | null;
 }
@@ -14,6 +14,8 @@ import { CacheOptions, LRUNode } from '../types';
  * - **Framework agnostic**: Works in Node.js, Deno, Bun, Edge Runtime, etc.
  * - **Thread-safe operations**: All operations are synchronous and atomic
  * 
+ * @typeParam T - The type of the cached values. Defaults to `string`.
+ * 
  * @example
  * ```typescript
  * // JWKS key caching example
@@ -22,11 +24,11 @@ import { CacheOptions, LRUNode } from '../types';
  * const cachedKey = jwksCache.get('kid123');
  * ```
  */
-export class LRUCache {
+export class LRUCache<T = string> {
   /**
    * Hash map for O(1) key lookups pointing to doubly-linked list nodes.
    */
-  private cache = new Map<string, LRUNode>();
+  private cache = new Map<string, LRUNode<T>>();
   /**
    * Maximum number of entries allowed in the cache. Triggers LRU eviction when exceeded.
    */
@@ -36,20 +38,24 @@ export class LRUCache {
    * regardless of access patterns.
    */
   private ttl?: number;
+  /**
+   * Time source used for TTL and access-time bookkeeping, returning epoch milliseconds.
+   */
+  private clock: () => number;
   /**
    * Head of the doubly-linked list (most recently used)
    */
-  private head: LRUNode;
+  private head: LRUNode<T>;
   /**
    * Tail of the doubly-linked list (least recently used)
    */
-  private tail: LRUNode;
+  private tail: LRUNode<T>;
 
   /**
    * Creates a new LRU cache instance with the specified configuration.
    * 
    * @param options - Configuration object specifying cache behavior
-   * @throws {Error} If maxSize or ttl are not a positive integer
+   * @throws {Error} If maxSize or ttl are not a positive integer, or clock is not a function
    * 
    * @example
    * ```typescript
@@ -67,13 +73,17 @@ export class LRUCache {
     if (options.ttl && (!Number.isInteger(options.ttl) || options.ttl <= 0)) {
       throw new Error('ttl must be a positive integer (if specified)');
     }
+    if (options.clock !== undefined && typeof options.clock !== 'function') {
+      throw new Error('clock must be a function (if specified)');
+    }
     
     this.maxSize = options.maxSize;
     this.ttl = options.ttl ?? undefined;
+    this.clock = options.clock ?? ((): number => Date.now());
     
-    // Initialize dummy head and tail nodes to simplify edge cases
-    this.head = { key: '', value: '', lastAccessed: 0, prev: null, next: null };
-    this.tail = { key: '', value: '', lastAccessed: 0, prev: null, next: null };
+    // Initialize dummy head and tail nodes to simplify edge cases (their values are never read)
+    this.head = { key: '', value: undefined as T, lastAccessed: 0, prev: null, next: null };
+    this.tail = { key: '', value: undefined as T, lastAccessed: 0, prev: null, next: null };
     this.head.next = this.tail;
     this.tail.prev = this.head;
   }
@@ -100,7 +110,7 @@ export class LRUCache {
    * const expired = cache.get('kid123'); // undefined (auto-removed)
    * ```
    */
-  get(key: string): string | undefined {
+  get(key: string): T | undefined {
     // First check for existing key
     const node = this.cache.get(key);
     if (!node) {
@@ -108,14 +118,14 @@ export class LRUCache {
     }
 
     // Check TTL expiration
-    if (this.ttl && Date.now() - node.lastAccessed > this.ttl) {
+    if (this.isExpired(node)) {
       this.removeNode(node);
       this.cache.delete(key);
       return undefined;
     }
 
     // Move to front (most recently used) and update access time
-    node.lastAccessed = Date.now();
+    node.lastAccessed = this.clock();
     this.moveToFront(node);
     
     return node.value;
@@ -124,12 +134,16 @@ export class LRUCache {
   /**
    * Stores a value in the cache with O(1) LRU eviction when size limit is exceeded.
    * 
-   * If the key already exists, updates the value and moves it to the front.
+   * If the key already exists, keeps the existing value and moves it to the front.
    * If adding a new entry would exceed maxSize, evicts the least recently
    * used entry (tail) in O(1) time before adding the new one.
    * 
+   * An entry stored with its own TTL expires that long after it was (last) set, regardless of access, instead of
+   * after the cache's TTL of inactivity.
+   * 
    * @param key - The cache key to store
-   * @param value - The string value to cache
+   * @param value - The value to cache
+   * @param ttl - Optional time-to-live for this entry, in milliseconds
    * 
    * @example
    * ```typescript
@@ -142,21 +156,26 @@ export class LRUCache {
    * 
    * // When cache is full, LRU entry is automatically evicted in O(1) time
    * cache.set('kid789', 'public_key789'); // Evicts tail node instantly
+   * 
+   * // Expire an entry 5 minutes from now, even if it keeps being accessed
+   * cache.set('kid123', 'public_key123', 300000);
    * ```
    */
-  set(key: string, value: string): void {
-    const now = Date.now();
+  set(key: string, value: T, ttl?: number): void {
+    const now = this.clock();
+    const expiresAt = ttl === undefined ? undefined : now + ttl;
     const existingNode = this.cache.get(key);
     
     // Make existing node most recently used
     if (existingNode) {
       existingNode.lastAccessed = now;
+      existingNode.expiresAt = expiresAt;
       this.moveToFront(existingNode);
       return;
     }
 
     // Otherwise create a new node
-    const newNode: LRUNode = { key, value, lastAccessed: now, prev: null, next: null };
+    const newNode: LRUNode<T> = { key, value, lastAccessed: now, expiresAt, prev: null, next: null };
     this.cache.set(key, newNode);
     this.addToFront(newNode);
 
@@ -197,7 +216,7 @@ export class LRUCache {
     }
 
     // Check if expired
-    if (this.ttl && Date.now() - node.lastAccessed > this.ttl) {
+    if (this.isExpired(node)) {
       this.removeNode(node);
       this.cache.delete(key);
       return false;
@@ -270,6 +289,29 @@ export class LRUCache {
     return this.cache.size;
   }
 
+  /**
+   * Returns the entries that haven't expired, from most to least recently used, without updating access order.
+   * 
+   * @returns The entries' keys and values, with their expiration time in epoch milliseconds if they were set with a
+   * TTL of their own
+   * 
+   * @example
+   * ```typescript
+   * cache.set('a', '1');
+   * cache.set('b', '2', 60000);
+   * console.log(cache.entries()); // [{ key: 'b', value: '2', expiresAt: ... }, { key: 'a', value: '1' }]
+   * ```
+   */
+  entries(): { key: string; value: T; expiresAt?: number }[] {
+    const entries: { key: string; value: T; expiresAt?: number }[] = [];
+    for (let node = this.head.next; node && node !== this.tail; node = node.next) {
+      if (!this.isExpired(node)) {
+        entries.push({ key: node.key, value: node.value, expiresAt: node.expiresAt });
+      }
+    }
+    return entries;
+  }
+
   /**
    * Returns cache statistics for monitoring and debugging.
    * 
@@ -286,6 +328,22 @@ export class LRUCache {
     return { size: this.cache.size, maxSize: this.maxSize };
   }
 
+  /**
+   * Checks whether a node has expired, either past its own expiration time or, without one, because it hasn't been
+   * accessed within the cache's TTL.
+   * 
+   * @private
+   * @param node - The node to check
+   * @returns True if the node has expired
+   */
+  private isExpired(node: LRUNode<T>): boolean {
+    const now = this.clock();
+    if (node.expiresAt !== undefined) {
+      return now > node.expiresAt;
+    }
+    return !!this.ttl && now - node.lastAccessed > this.ttl;
+  }
+
   /**
    * Moves a node to the front of the doubly-linked list (most recently used).
    * This is an O(1) operation that maintains LRU ordering.
@@ -293,7 +351,7 @@ export class LRUCache {
    * @private
    * @param node - The node to move to front
    */
-  private moveToFront(node: LRUNode): void {
+  private moveToFront(node: LRUNode<T>): void {
     this.removeNode(node);
     this.addToFront(node);
   }
@@ -305,7 +363,7 @@ export class LRUCache {
    * @private
    * @param node - The node to add to front
    */
-  private addToFront(node: LRUNode): void {
+  private addToFront(node: LRUNode<T>): void {
     node.prev = this.head;
     node.next = this.head.next;
     
@@ -321,7 +379,7 @@ export class LRUCache {
    * @private
    * @param node - The node to remove
    */
-  private removeNode(node: LRUNode): void {
+  private removeNode(node: LRUNode<T>): void {
     if (node.prev) {
       node.prev.next = node.next;
     }
@@ -0,0 +1,117 @@
+/**
+ * Runtime validation of JWT payloads against a lightweight, dependency-free claims schema.
+ *
+ * The schema supports the JSON types that can appear in a JWT payload (string, number, boolean,
+ * array, and nested objects), along with required fields and enumerated values. It exists so that
+ * the payload type `validate()` infers from the schema is backed by an actual runtime check.
+ *
+ * @module claims-schema
+ */
+import { ClaimSchemaField, ClaimSchemaViolation, ClaimsSchema } from '../types';
+
+/**
+ * Validates a JWT payload against a claims schema and returns the first violation found.
+ *
+ * Claims that are absent (`undefined` or `null`) only fail validation when marked as `required`.
+ * Claims not described by the schema are ignored.
+ *
+ * @param payload - The decoded JWT payload (or a nested object within it)
+ * @param schema - The claims schema to validate against
+ * @returns The first violation found, or undefined if the payload satisfies the schema
+ * @throws {Error} If the schema contains an unsupported field type
+ *
+ * @example
+ * ```typescript
+ * const schema: ClaimsSchema = { role: { type: 'string', required: true, enum: ['admin', 'member'] } };
+ *
+ * validateClaimsSchema({ role: 'admin' }, schema); // undefined
+ * validateClaimsSchema({ role: 'guest' }, schema);
+ * // { path: 'role', missing: false, message: "Claim 'role' must be one of: admin, member" }
+ * ```
+ */
+export function validateClaimsSchema(
+  payload: Record<string, unknown>,
+  schema: ClaimsSchema
+): ClaimSchemaViolation | undefined {
+  return validateObject(payload, schema, '');
+}
+
+/**
+ * Validates each property described by a schema against an object.
+ *
+ * @param value - The object to validate
+ * @param schema - The schema describing the object's properties
+ * @param basePath - Path of the object within the payload ('' for the root)
+ * @returns The first violation found, or undefined
+ */
+function validateObject(
+  value: Record<string, unknown>,
+  schema: ClaimsSchema,
+  basePath: string
+): ClaimSchemaViolation | undefined {
+  for (const [name, field] of Object.entries(schema)) {
+    const path = basePath ? `${basePath}.${name}` : name;
+    const violation = validateField(value[name], field, path);
+    if (violation) {
+      return violation;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Validates a single value against its schema field definition.
+ *
+ * @param value - The value to validate
+ * @param field - The schema field describing the expected value
+ * @param path - Path of the value within the payload
+ * @returns The first violation found, or undefined
+ */
+function validateField(value: unknown, field: ClaimSchemaField, path: string): ClaimSchemaViolation | undefined {
+  if (value === undefined || value === null) {
+    return field.required ? { path, missing: true, message: `Token is missing required claim: ${path}` } : undefined;
+  }
+
+  const invalid = (expectation: string): ClaimSchemaViolation => {
+    return { path, missing: false, message: `Claim '${path}' must be ${expectation}` };
+  };
+
+  switch (field.type) {
+    case 'string':
+    case 'number':
+      if (typeof value !== field.type || (field.type === 'number' && !Number.isFinite(value))) {
+        return invalid(`a ${field.type}`);
+      }
+      if (field.enum && !(field.enum as readonly unknown[]).includes(value)) {
+        return invalid(`one of: ${field.enum.join(', ')}`);
+      }
+      return undefined;
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : invalid('a boolean');
+    case 'array':
+      if (!Array.isArray(value)) {
+        return invalid('an array');
+      }
+      if (field.items) {
+        for (let i = 0; i < value.length; i++) {
+          const itemPath = `${path}[${i}]`;
+          // Null entries inside an array are malformed values rather than missing claims
+          if (value[i] === undefined || value[i] === null) {
+            return { path: itemPath, missing: false, message: `Claim '${itemPath}' must be a ${field.items.type}` };
+          }
+          const violation = validateField(value[i], field.items, itemPath);
+          if (violation) {
+            return violation;
+          }
+        }
+      }
+      return undefined;
+    case 'object':
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return invalid('an object');
+      }
+      return field.properties ? validateObject(value as Record<string, unknown>, field.properties, path) : undefined;
+    default:
+      throw new Error(`Unsupported claims schema type for '${path}': ${(field as { type: string }).type}`);
+  }
+}
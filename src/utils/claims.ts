@@ -0,0 +1,125 @@
+/**
+ * Claim validation utility functions for JWT validation.
+ *
+ * This module provides framework-agnostic helpers for checking registered JWT claims beyond
+ * the issuer and lifetime checks, following the semantics defined in RFC 7519.
+ *
+ * @module claims
+ */
+import { AudienceOption, JWTPayload } from '../types';
+
+/**
+ * Normalizes the `aud` claim of a JWT payload into an array of audience values.
+ *
+ * Per RFC 7519 Section 4.1.3, the `aud` claim may be either a single case-sensitive string or an
+ * array of strings. Any non-string entries are discarded so that malformed claims can never match.
+ *
+ * @param aud - The raw `aud` claim value from the token payload
+ * @returns Array of audience strings (empty if the claim is missing or malformed)
+ *
+ * @example
+ * ```typescript
+ * normalizeAudience('api://orders');            // ['api://orders']
+ * normalizeAudience(['api://orders', 'other']); // ['api://orders', 'other']
+ * normalizeAudience(undefined);                 // []
+ * ```
+ */
+export function normalizeAudience(aud: unknown): string[] {
+  if (typeof aud === 'string') {
+    return aud ? [aud] : [];
+  }
+  if (Array.isArray(aud)) {
+    return aud.filter((value): value is string => typeof value === 'string' && value.length > 0);
+  }
+  return [];
+}
+
+/**
+ * Validates the `aud` claim of a JWT against the expected audience configuration.
+ *
+ * Implements RFC 7519 audience semantics: the token is accepted if at least one of its audience
+ * values exactly matches (case-sensitive) one of the expected audiences. When a predicate is
+ * configured, it receives the token's normalized audience values and decides acceptance.
+ * Tokens without an `aud` claim are always rejected when an audience is expected.
+ *
+ * @param aud - The raw `aud` claim value from the token payload
+ * @param expected - The expected audience(s), or a custom predicate
+ * @returns True if the token audience is acceptable, false otherwise
+ *
+ * @example
+ * ```typescript
+ * validateAudience('api://orders', 'api://orders');                  // true
+ * validateAudience(['api://orders', 'api://billing'], 'api://billing'); // true
+ * validateAudience('api://orders', ['api://billing']);                 // false
+ * validateAudience(['a', 'b'], (auds) => auds.includes('b'));         // true
+ * ```
+ */
+export function validateAudience(aud: unknown, expected: AudienceOption): boolean {
+  const tokenAudiences = normalizeAudience(aud);
+  if (tokenAudiences.length === 0) {
+    return false;
+  }
+
+  if (typeof expected === 'function') {
+    return expected(tokenAudiences) === true;
+  }
+
+  const expectedAudiences = (Array.isArray(expected) ? expected : [expected]).filter(value => value?.trim());
+  return tokenAudiences.some(value => expectedAudiences.includes(value));
+}
+
+/**
+ * Expected JSON types of the registered claims defined in RFC 7519 Section 4.1.
+ */
+const registeredClaimValidators: Record<string, (value: unknown) => boolean> = {
+  iss: value => typeof value === 'string',
+  sub: value => typeof value === 'string',
+  aud: value => typeof value === 'string' || (Array.isArray(value) && value.every(item => typeof item === 'string')),
+  exp: value => typeof value === 'number' && Number.isFinite(value),
+  nbf: value => typeof value === 'number' && Number.isFinite(value),
+  iat: value => typeof value === 'number' && Number.isFinite(value),
+  jti: value => typeof value === 'string',
+};
+
+/**
+ * Finds the first required claim that is absent from a JWT payload.
+ *
+ * A claim is considered absent if it is missing, `undefined`, or `null`.
+ *
+ * @param payload - The decoded JWT payload
+ * @param requiredClaims - Names of the claims that must be present
+ * @returns The name of the first missing claim, or undefined if all required claims are present
+ *
+ * @example
+ * ```typescript
+ * findMissingClaim({ sub: 'user123', exp: 1700000000 }, ['exp', 'iat', 'sub']); // 'iat'
+ * findMissingClaim({ sub: 'user123', exp: 1700000000, iat: 1699990000 }, ['exp', 'iat', 'sub']); // undefined
+ * ```
+ */
+export function findMissingClaim(payload: JWTPayload, requiredClaims: string[]): string | undefined {
+  return requiredClaims.find(claim => payload[claim] === undefined || payload[claim] === null);
+}
+
+/**
+ * Finds the first registered claim whose value has the wrong JSON type.
+ *
+ * Per RFC 7519, `exp`, `nbf` and `iat` must be NumericDate values (JSON numbers), `iss`, `sub` and `jti`
+ * must be strings, and `aud` must be a string or an array of strings. Claims that are absent are ignored;
+ * use {@link findMissingClaim} to enforce presence.
+ *
+ * @param payload - The decoded JWT payload
+ * @returns The name of the first claim with an invalid type, or undefined if all present claims are well-typed
+ *
+ * @example
+ * ```typescript
+ * findInvalidClaim({ exp: '1700000000' }); // 'exp'
+ * findInvalidClaim({ sub: 12345 });        // 'sub'
+ * findInvalidClaim({ exp: 1700000000 });   // undefined
+ * ```
+ */
+export function findInvalidClaim(payload: JWTPayload): string | undefined {
+  return Object.keys(registeredClaimValidators).find((claim) => {
+    const value: unknown = payload[claim];
+    return value !== undefined && !registeredClaimValidators[claim](value);
+  });
+}
@@ -17,7 +17,7 @@
  * - Edge Runtime (Next.js middleware, Cloudflare Workers, Vercel Edge Functions)
  * - Modern browsers (for client-side validation scenarios)
  */
-import { pemFooter, pemHeader } from '../constants';
+import { pemFooter, pemHeader, supportedAlgorithms } from '../constants';
 
 /**
  * Decodes a base64url-encoded string to a regular UTF-8 string.
@@ -111,40 +111,170 @@ export function arrayBufferToBase64(buffer: ArrayBuffer | Uint8Array): string {
 }
 
 /**
- * Verifies an RS256 JWT signature using the Web Crypto API.
+ * Web Crypto parameters for each supported JWS algorithm (RFC 7518 Section 3.1). RSA-PSS salt lengths match the
+ * hash output size, as required by RFC 7518 Section 3.5. ECDSA signatures have a fixed length: the R and S values
+ * are each padded to the curve's coordinate size (RFC 7518 Section 3.4), and Ed25519 signatures are always 64 bytes.
+ */
+const signatureAlgorithms: Record<string, {
+  importParams: RsaHashedImportParams | EcKeyImportParams | Algorithm;
+  verifyParams: RsaPssParams | EcdsaParams | Algorithm;
+  signatureLength?: number;
+}> = {
+  RS256: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, verifyParams: { name: 'RSASSA-PKCS1-v1_5' } },
+  RS384: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' }, verifyParams: { name: 'RSASSA-PKCS1-v1_5' } },
+  RS512: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' }, verifyParams: { name: 'RSASSA-PKCS1-v1_5' } },
+  PS256: { importParams: { name: 'RSA-PSS', hash: 'SHA-256' }, verifyParams: { name: 'RSA-PSS', saltLength: 32 } },
+  PS384: { importParams: { name: 'RSA-PSS', hash: 'SHA-384' }, verifyParams: { name: 'RSA-PSS', saltLength: 48 } },
+  PS512: { importParams: { name: 'RSA-PSS', hash: 'SHA-512' }, verifyParams: { name: 'RSA-PSS', saltLength: 64 } },
+  ES256: {
+    importParams: { name: 'ECDSA', namedCurve: 'P-256' },
+    verifyParams: { name: 'ECDSA', hash: 'SHA-256' },
+    signatureLength: 64,
+  },
+  ES384: {
+    importParams: { name: 'ECDSA', namedCurve: 'P-384' },
+    verifyParams: { name: 'ECDSA', hash: 'SHA-384' },
+    signatureLength: 96,
+  },
+  ES512: {
+    importParams: { name: 'ECDSA', namedCurve: 'P-521' },
+    verifyParams: { name: 'ECDSA', hash: 'SHA-512' },
+    signatureLength: 132,
+  },
+  EdDSA: { importParams: { name: 'Ed25519' }, verifyParams: { name: 'Ed25519' }, signatureLength: 64 },
+};
+
+/**
+ * Imports a public JSON Web Key as a non-extractable CryptoKey for verifying signatures of the given algorithm.
+ * 
+ * Keys are imported directly from their JWK representation (RFC 7517) using the Web Crypto API, so no manual
+ * DER/PEM encoding is needed. The resulting key is bound to the algorithm (and hash) it was imported for, may
+ * only be used for verification, and can't be exported.
+ * 
+ * @param algorithm - The JWS algorithm the key will verify (e.g., "RS256", "ES384", "EdDSA")
+ * @param jwk - The public JWK containing only the key material (e.g. `kty`, `n`, `e` or `kty`, `crv`, `x`, `y`)
+ * @returns Promise resolving to a CryptoKey configured for the given algorithm
+ * 
+ * @example
+ * ```typescript
+ * const key = await importSigningKey('RS256', { kty: 'RSA', n: '0vx7agoebGcQSuu...', e: 'AQAB' });
+ * const isValid = await verifySignature('RS256', `${header}.${payload}`, signature, key);
+ * ```
+ * 
+ * @throws {Error} If the algorithm is not supported or the key material is invalid for the algorithm
+ */
+export async function importSigningKey(algorithm: string, jwk: JsonWebKey): Promise<CryptoKey> {
+  const supportedAlgorithm = normalizeAlgorithm(algorithm);
+  if (!supportedAlgorithm) {
+    throw new Error(`Unsupported signing algorithm: ${algorithm}`);
+  }
+
+  return crypto.subtle.importKey(
+    'jwk',
+    jwk,
+    signatureAlgorithms[supportedAlgorithm].importParams,
+    false, // Not extractable for security
+    ['verify'] // Only allow verification operations
+  );
+}
+
+/**
+ * Algorithms whose key parameters are tried, in order, when importing a PEM public key of unknown type: RSA, EC on
+ * each supported curve, and Ed25519.
+ */
+const pemKeyAlgorithms = ['RS256', 'ES256', 'ES384', 'ES512', 'EdDSA'];
+
+/**
+ * Converts a PEM-encoded public key (SubjectPublicKeyInfo, `-----BEGIN PUBLIC KEY-----`) to a public JWK.
+ * 
+ * The key type isn't known up front, so the key is imported with the parameters of each supported key type until
+ * one succeeds, and then exported as a JWK. Only the public key material is returned; in particular, no `alg` is
+ * set, so the key isn't restricted to the algorithm it happened to be imported with.
+ * 
+ * @param pem - The PEM-encoded public key
+ * @returns Promise resolving to the public JWK (e.g. `kty`, `n`, `e` or `kty`, `crv`, `x`, `y`)
+ * 
+ * @example
+ * ```typescript
+ * const jwk = await pemToPublicJwk(`-----BEGIN PUBLIC KEY-----
+ * MIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEA...
+ * -----END PUBLIC KEY-----`);
+ * console.log(jwk.kty); // 'RSA'
+ * ```
+ * 
+ * @throws {Error} If the PEM is malformed or does not contain an RSA, EC (P-256, P-384, P-521) or Ed25519 key
+ */
+export async function pemToPublicJwk(pem: string): Promise<JsonWebKey> {
+  const trimmed = typeof pem === 'string' ? pem.trim() : '';
+  if (!trimmed.startsWith(pemHeader) || !trimmed.endsWith(pemFooter)) {
+    throw new Error('Invalid PEM format - missing headers');
+  }
+
+  let der: Uint8Array<ArrayBuffer>;
+  try {
+    const binaryDer = atob(trimmed.slice(pemHeader.length, -pemFooter.length).replace(/\s/g, ''));
+    der = Uint8Array.from(binaryDer, char => char.charCodeAt(0));
+  } catch (error) {
+    throw new Error('Invalid PEM format - body is not valid base64');
+  }
+
+  for (const algorithm of pemKeyAlgorithms) {
+    let key: CryptoKey;
+    try {
+      key = await crypto.subtle.importKey('spki', der, signatureAlgorithms[algorithm].importParams, true, ['verify']);
+    } catch (error) {
+      continue;
+    }
+    const { kty, n, e, crv, x, y } = await crypto.subtle.exportKey('jwk', key);
+    return Object.fromEntries(Object.entries({ kty, n, e, crv, x, y }).filter(([, value]) => value !== undefined));
+  }
+  throw new Error('Unsupported PEM public key. Only RSA, EC (P-256, P-384, P-521) and Ed25519 keys are supported');
+}
+
+/**
+ * Verifies a JWT signature using the Web Crypto API.
  * 
- * Implements OWASP-compliant JWT signature verification using RSASSA-PKCS1-v1_5 
- * with SHA-256.
+ * Supports RSASSA-PKCS1-v1_5 (RS256, RS384, RS512), RSASSA-PSS (PS256, PS384, PS512), ECDSA (ES256, ES384,
+ * ES512) and EdDSA with Ed25519 keys. The algorithm name is matched case-insensitively; unsupported algorithms
+ * (including "none") always fail verification.
+ * 
+ * JWS ECDSA signatures are the raw R || S concatenation (RFC 7518 Section 3.4), which is also the format Web Crypto
+ * expects, so no conversion is needed. DER-encoded signatures (as produced by OpenSSL and Node's `crypto.sign`)
+ * are not valid JWS signatures and are rejected.
  * 
  * Security features:
  * - Uses Web Crypto API for constant-time operations
  * - Validates input parameters to prevent timing attacks
- * - Implements OWASP-recommended RSASSA-PKCS1-v1_5 + SHA-256
+ * - Rejects keys imported for a different algorithm, hash or curve, so a key can't be reused across algorithms
  * - Graceful error handling without information leakage
  * 
+ * @param algorithm - The JWS algorithm from the token header (e.g., "RS256", "PS384")
  * @param data - The JWT header and payload joined with a dot (e.g., "header.payload")
  * @param signature - The base64url-encoded signature to verify
- * @param publicKeyPem - The RSA public key in PEM format for verification
+ * @param publicKey - The public key, as imported by {@link importSigningKey} for the same algorithm
  * @returns Promise resolving to true if signature is valid, false otherwise
  * 
  * @example
  * ```typescript
- * const headerPayload = "eyJhbGciOiJSUzI1NiJ9.eyJzdWIiOiIxMjM0NTY3ODkwIn0";
- * const signature = "EkN-DOsnsuRjRO6BxXemmJDm3HbxrbRzXglbN2S4sOkopdU4IsDxTI8jO19W_A4K8ZPJijNLis4EZsHeY559a4DFOd50_OqgHs
- * 3EpI";
- * const publicKey = "-----BEGIN PUBLIC KEY-----\n...";
- * 
- * const isValid = await verifyRS256Signature(headerPayload, signature, publicKey);
- * if (isValid) {
- *   console.log("Signature verified successfully");
- * } else {
- *   console.log("Invalid signature");
- * }
+ * const [header, payload, signature] = token.split('.');
+ * const publicKey = await importSigningKey('PS256', jwk);
+ * const isValid = await verifySignature('PS256', `${header}.${payload}`, signature, publicKey);
  * ```
  */
-export async function verifyRS256Signature(data: string, signature: string, publicKeyPem: string): Promise<boolean> {
+export async function verifySignature(
+  algorithm: string,
+  data: string,
+  signature: string,
+  publicKey: CryptoKey
+): Promise<boolean> {
   try {
-    if (!data || !signature || !publicKeyPem) {
+    if (typeof algorithm !== 'string' || !data || !signature || !publicKey) {
+      return false;
+    }
+
+    const supportedAlgorithm = normalizeAlgorithm(algorithm);
+    const params = supportedAlgorithm ? signatureAlgorithms[supportedAlgorithm] : undefined;
+    if (!params || !isKeyForAlgorithm(publicKey, params.importParams)) {
       return false;
     }
 
@@ -155,101 +285,41 @@ export async function verifyRS256Signature(data: string, signature: string, publ
 
     // Convert base64url signature to ArrayBuffer
     const signatureBuffer = base64urlToArrayBuffer(signature);
+    if (params.signatureLength !== undefined && signatureBuffer.byteLength !== params.signatureLength) {
+      return false;
+    }
     
     // Convert data string to ArrayBuffer
     const dataBuffer = new TextEncoder().encode(data);
     
-    // Parse PEM public key
-    const publicKey = await importRSAPublicKey(publicKeyPem);
-    
-    // Verify signature using Web Crypto API with RS256 (RSASSA-PKCS1-v1_5 + SHA-256)
-    const isValid = await crypto.subtle.verify(
-      {
-        name: 'RSASSA-PKCS1-v1_5',
-        hash: 'SHA-256', // OWASP-approved hashing algorithm
-      },
-      publicKey,
-      signatureBuffer,
-      dataBuffer
-    );
-
-    return isValid;
+    return await crypto.subtle.verify(params.verifyParams, publicKey, signatureBuffer, dataBuffer);
   } catch (error) {
     return false;
   }
 }
 
 /**
- * Imports an RSA public key from PEM format using the Web Crypto API.
+ * Resolves an algorithm name to its canonical supported spelling.
  * 
- * Converts a PEM-encoded RSA public key into a CryptoKey object suitable for
- * use with Web Crypto API operations. Implements secure key handling practices
- * recommended by OWASP including non-extractable key storage and restricted usage.
+ * JWS algorithm names are matched case-insensitively throughout the SDK, but mixed-case names such as "EdDSA"
+ * can't be normalized by simply upper-casing them. This returns the name as listed in the supported algorithms.
  * 
- * The function expects standard PEM format with proper headers and base64-encoded
- * DER data. It performs validation to ensure the key is properly formatted before
- * attempting import operations.
- * 
- * @param pemKey - RSA public key in PEM format with proper headers
- * @returns Promise resolving to a CryptoKey configured for RS256 verification
+ * @param algorithm - The algorithm name to resolve (e.g., "rs256", "EDDSA")
+ * @returns The canonical algorithm name, or undefined if the algorithm is not supported
  * 
  * @example
  * ```typescript
- * const pemKey = `-----BEGIN PUBLIC KEY-----
- * MIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEA4f5wg5l2hKsTeNem/V41
- * fGnJm6gOdrj8ym3rFkEjWT2btf02uSxZ8gktFfT0CvQKOGaKN8JW2P1MvcKZJdFC
- * ...
- * -----END PUBLIC KEY-----`;
- * 
- * try {
- *   const cryptoKey = await importRSAPublicKey(pemKey);
- *   // Use cryptoKey with crypto.subtle.verify()
- * } catch (error) {
- *   console.error('Failed to import key:', error.message);
- * }
+ * normalizeAlgorithm('ps256'); // 'PS256'
+ * normalizeAlgorithm('EDDSA'); // 'EdDSA'
+ * normalizeAlgorithm('HS256'); // undefined
  * ```
- * 
- * @throws {Error} If PEM format is invalid, missing headers, or key import fails
- * 
- * @internal This function is used internally by verifyRS256Signature
  */
-async function importRSAPublicKey(pemKey: string): Promise<CryptoKey> {
-  try {
-    // Remove PEM header/footer and whitespace    
-    if (!pemKey.includes(pemHeader) || !pemKey.includes(pemFooter)) {
-      throw new Error('Invalid PEM format - missing headers');
-    }
-    
-    const pemContents = pemKey
-      .replace(pemHeader, '')
-      .replace(pemFooter, '')
-      .replace(/\s/g, '');
-    
-    // Convert base64 to ArrayBuffer
-    const binaryDer = atob(pemContents);
-    const derBuffer = new ArrayBuffer(binaryDer.length);
-    const derView = new Uint8Array(derBuffer);
-    
-    for (let i = 0; i < binaryDer.length; i++) {
-      derView[i] = binaryDer.charCodeAt(i);
-    }
-    
-    // Import key using Web Crypto API with OWASP-recommended parameters
-    const publicKey = await crypto.subtle.importKey(
-      'spki', // SubjectPublicKeyInfo format
-      derView,
-      {
-        name: 'RSASSA-PKCS1-v1_5',
-        hash: 'SHA-256', // OWASP-approved hash function
-      },
-      false, // Not extractable for security
-      ['verify'] // Only allow verification operations
-    );
-    
-    return publicKey;
-  } catch (error) {
-    throw new Error(`Failed to import RSA public key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+export function normalizeAlgorithm(algorithm: string): string | undefined {
+  if (typeof algorithm !== 'string') {
+    return undefined;
   }
+  const normalizedAlg = algorithm.toUpperCase();
+  return supportedAlgorithms.find(supported => supported.toUpperCase() === normalizedAlg);
 }
 
 /**
@@ -313,3 +383,24 @@ export function validateAlgorithm(algorithm: string, allowedAlgorithms: string[]
   
   return normalizedAllowed.includes(normalizedAlg);
 }
+
+/**
+ * Checks that a CryptoKey was imported for the algorithm, hash and curve described by the given import parameters.
+ *
+ * @param key - The key to check
+ * @param importParams - The Web Crypto import parameters of the JWS algorithm
+ * @returns True if the key's algorithm matches the import parameters
+ */
+function isKeyForAlgorithm(
+  key: CryptoKey,
+  importParams: RsaHashedImportParams | EcKeyImportParams | Algorithm
+): boolean {
+  const keyAlgorithm = key.algorithm as Partial<RsaHashedKeyAlgorithm & EcKeyAlgorithm>;
+  if (keyAlgorithm?.name !== importParams.name) {
+    return false;
+  }
+  if ('hash' in importParams && keyAlgorithm.hash?.name !== importParams.hash) {
+    return false;
+  }
+  return !('namedCurve' in importParams) || keyAlgorithm.namedCurve === importParams.namedCurve;
+}
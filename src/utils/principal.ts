@@ -0,0 +1,90 @@
+/**
+ * Helpers for turning validated Wristband access token payloads into typed principals.
+ *
+ * Wristband issues access tokens both to users (e.g. via the authorization code flow) and to machine
+ * clients (via the client credentials grant). Client credentials tokens have no user, so their `sub`
+ * claim is the OAuth2 client ID, which is how the two kinds of tokens are told apart.
+ *
+ * @module principal
+ */
+import { JwtValidationError, JwtValidationErrorCode } from '../errors';
+import { JWTPayload, MachinePrincipal, Principal, UserPrincipal, WristbandAccessTokenPayload } from '../types';
+import { getScopes } from './scopes';
+
+/**
+ * Checks whether a Wristband access token was issued to a machine client through the client credentials grant.
+ *
+ * @param payload - The validated JWT payload
+ * @returns True if the token's subject is the OAuth2 client itself, false if it was issued to a user
+ *
+ * @example
+ * ```typescript
+ * isMachineToken({ sub: 'client123', client_id: 'client123' }); // true
+ * isMachineToken({ sub: 'user123', client_id: 'client123' });   // false
+ * ```
+ */
+export function isMachineToken(payload: JWTPayload): boolean {
+  return typeof payload.client_id === 'string' && !!payload.client_id && payload.sub === payload.client_id;
+}
+
+/**
+ * Converts a validated Wristband access token payload into a typed principal.
+ *
+ * Returns a `MachinePrincipal` for client credentials tokens and a `UserPrincipal` for all other tokens.
+ * The `type` property can be used to narrow the result.
+ *
+ * @param payload - The validated JWT payload (e.g. `result.payload` from `validate()`)
+ * @returns A `UserPrincipal` or `MachinePrincipal` describing who the token was issued to
+ * @throws {JwtValidationError} With code `missing_claim` if the payload has no string `sub` claim
+ *
+ * @example
+ * ```typescript
+ * const result = await validator.validate(token);
+ * if (result.isValid) {
+ *   const principal = toPrincipal(result.payload!);
+ *   if (principal.type === 'user') {
+ *     console.log(`User ${principal.userId} in tenant ${principal.tenantId}`);
+ *   } else {
+ *     console.log(`Machine client ${principal.clientId}`);
+ *   }
+ * }
+ * ```
+ */
+export function toPrincipal(payload: JWTPayload): Principal {
+  if (typeof payload?.sub !== 'string' || !payload.sub) {
+    throw new JwtValidationError('Token is missing required claim: sub', JwtValidationErrorCode.MISSING_CLAIM);
+  }
+
+  const wristbandPayload = payload as WristbandAccessTokenPayload;
+  const base = {
+    subject: payload.sub,
+    tenantId: optionalString(wristbandPayload.tnt_id),
+    applicationId: optionalString(wristbandPayload.app_id),
+    scopes: getScopes(payload),
+    payload: wristbandPayload,
+  };
+
+  if (isMachineToken(payload)) {
+    const machine: MachinePrincipal = { ...base, type: 'machine', clientId: payload.sub };
+    return machine;
+  }
+
+  const user: UserPrincipal = {
+    ...base,
+    type: 'user',
+    userId: payload.sub,
+    clientId: optionalString(wristbandPayload.client_id),
+    identityProviderName: optionalString(wristbandPayload.idp_name),
+  };
+  return user;
+}
+
+/**
+ * Returns the value if it is a non-empty string, otherwise undefined.
+ *
+ * @param value - The claim value to check
+ * @returns The string value, or undefined
+ */
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
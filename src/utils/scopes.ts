@@ -0,0 +1,85 @@
+/**
+ * Scope authorization helpers for validated JWT payloads.
+ *
+ * Access tokens may carry their granted scopes either as a space-delimited `scope` string
+ * (RFC 8693 Section 4.2 / RFC 6749 Section 3.3) or as an array-valued `scp` claim, which is
+ * common among other issuers. These helpers understand both formats so that route handlers
+ * don't need to hand-parse scopes.
+ *
+ * @module scopes
+ */
+import { JWTPayload } from '../types';
+
+/**
+ * Extracts the set of granted scopes from a JWT payload.
+ *
+ * Scopes are read from the space-delimited `scope` claim and from the `scp` claim (either an
+ * array of strings or a space-delimited string). Duplicates and empty values are removed, and
+ * non-string values are ignored.
+ *
+ * @param payload - The validated JWT payload
+ * @returns Array of unique scope values granted to the token
+ *
+ * @example
+ * ```typescript
+ * getScopes({ scope: 'orders:read orders:write' });     // ['orders:read', 'orders:write']
+ * getScopes({ scp: ['orders:read'], scope: 'profile' }); // ['profile', 'orders:read']
+ * getScopes({});                                        // []
+ * ```
+ */
+export function getScopes(payload?: JWTPayload | null): string[] {
+  if (!payload) {
+    return [];
+  }
+
+  const scopes = new Set<string>();
+  const addScopes = (claim: unknown): void => {
+    if (typeof claim === 'string') {
+      claim.split(' ').filter(Boolean).forEach(scope => scopes.add(scope));
+    } else if (Array.isArray(claim)) {
+      claim.filter((scope): scope is string => typeof scope === 'string' && !!scope).forEach(scope => scopes.add(scope));
+    }
+  };
+
+  addScopes(payload.scope);
+  addScopes(payload.scp);
+  return Array.from(scopes);
+}
+
+/**
+ * Checks whether a JWT payload was granted ALL of the given scopes. Scope comparison is case-sensitive.
+ *
+ * @param payload - The validated JWT payload
+ * @param requiredScopes - Scopes that must all be present
+ * @returns True if every required scope was granted (also true when no scopes are required)
+ *
+ * @example
+ * ```typescript
+ * const payload = { scope: 'orders:read orders:write' };
+ * hasScopes(payload, 'orders:read');                  // true
+ * hasScopes(payload, 'orders:read', 'orders:delete'); // false
+ * ```
+ */
+export function hasScopes(payload: JWTPayload | null | undefined, ...requiredScopes: string[]): boolean {
+  const granted = getScopes(payload);
+  return requiredScopes.every(scope => granted.includes(scope));
+}
+
+/**
+ * Checks whether a JWT payload was granted AT LEAST ONE of the given scopes. Scope comparison is case-sensitive.
+ *
+ * @param payload - The validated JWT payload
+ * @param acceptedScopes - Scopes of which at least one must be present
+ * @returns True if any accepted scope was granted (false when no scopes are given)
+ *
+ * @example
+ * ```typescript
+ * const payload = { scp: ['orders:read'] };
+ * hasAnyScope(payload, 'orders:read', 'orders:admin'); // true
+ * hasAnyScope(payload, 'orders:admin');                // false
+ * ```
+ */
+export function hasAnyScope(payload: JWTPayload | null | undefined, ...acceptedScopes: string[]): boolean {
+  const granted = getScopes(payload);
+  return acceptedScopes.some(scope => granted.includes(scope));
+}
@@ -0,0 +1,90 @@
+/**
+ * Tenant isolation helpers for multi-tenant APIs.
+ *
+ * Wristband access tokens carry the ID of the tenant they were issued for in the `tnt_id` claim.
+ * These helpers compare that claim against the tenant a request is targeting (e.g. from a
+ * `/tenants/:tenantId/...` route) so that a token issued for one tenant can never be used to
+ * access another tenant's resources.
+ *
+ * @module tenant
+ */
+import { JwtValidationError, JwtValidationErrorCode } from '../errors';
+import { JWTPayload } from '../types';
+
+/**
+ * Returns the tenant ID (`tnt_id` claim) of a JWT payload.
+ *
+ * @param payload - The validated JWT payload
+ * @returns The tenant ID, or undefined if the claim is missing or not a non-empty string
+ *
+ * @example
+ * ```typescript
+ * getTenantId({ tnt_id: 'tenant123' }); // 'tenant123'
+ * getTenantId({});                      // undefined
+ * ```
+ */
+export function getTenantId(payload?: JWTPayload | null): string | undefined {
+  const tenantId: unknown = payload?.tnt_id;
+  return typeof tenantId === 'string' && tenantId ? tenantId : undefined;
+}
+
+/**
+ * Checks whether a JWT payload was issued for the expected tenant. Comparison is exact and case-sensitive.
+ * Fails closed: a missing token tenant or an empty expected tenant never matches.
+ *
+ * @param payload - The validated JWT payload
+ * @param expectedTenantId - The tenant ID the request is targeting
+ * @returns True if the token's `tnt_id` claim equals the expected tenant ID
+ *
+ * @example
+ * ```typescript
+ * matchesTenant({ tnt_id: 'tenant123' }, req.params.tenantId);
+ * ```
+ */
+export function matchesTenant(payload: JWTPayload | null | undefined, expectedTenantId?: string | null): boolean {
+  const tenantId = getTenantId(payload);
+  return !!tenantId && !!expectedTenantId && tenantId === expectedTenantId;
+}
+
+/**
+ * Asserts that a JWT payload was issued for the expected tenant. Intended for framework middlewares that
+ * want to enforce tenant isolation on an already-validated payload.
+ *
+ * @param payload - The validated JWT payload
+ * @param expectedTenantId - The tenant ID the request is targeting
+ * @throws {JwtValidationError} With code `tenant_mismatch` if the token was not issued for the expected tenant
+ *
+ * @example
+ * ```typescript
+ * app.use('/tenants/:tenantId', (req, res, next) => {
+ *   try {
+ *     assertTenant(req.auth, req.params.tenantId);
+ *     next();
+ *   } catch (error) {
+ *     res.status(403).json({ error: 'tenant_mismatch' });
+ *   }
+ * });
+ * ```
+ */
+export function assertTenant(payload: JWTPayload | null | undefined, expectedTenantId?: string | null): void {
+  if (!matchesTenant(payload, expectedTenantId)) {
+    throw new JwtValidationError(
+      describeTenantMismatch(payload, expectedTenantId),
+      JwtValidationErrorCode.TENANT_MISMATCH
+    );
+  }
+}
+
+/**
+ * Builds the error message used when a token's tenant does not match the expected tenant.
+ *
+ * @param payload - The validated JWT payload
+ * @param expectedTenantId - The tenant ID the request is targeting
+ * @returns A human-readable description of the mismatch
+ */
+export function describeTenantMismatch(
+  payload: JWTPayload | null | undefined,
+  expectedTenantId?: string | null
+): string {
+  return `Tenant mismatch. Expected ${expectedTenantId ? expectedTenantId : 'none'}, got ${getTenantId(payload) ?? 'none'}`;
+}
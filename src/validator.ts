@@ -1,12 +1,26 @@
 import {
+  AudienceOption,
+  ClaimsSchema,
+  InferClaims,
+  JwksHealth,
+  JwksKeySnapshot,
   JWTHeader,
   JWTPayload,
+  JwtValidateOptions,
   JwtValidationResult,
+  JwtValidatorOptions,
   WristbandJwtValidator,
   WristbandJwtValidatorConfig,
 } from './types';
-import { base64urlDecode, validateAlgorithm, verifyRS256Signature } from './utils/crypto';
-import { createJwksClient, JWKSClient } from './jwks-client';
+import { base64urlDecode, normalizeAlgorithm, validateAlgorithm, verifySignature } from './utils/crypto';
+import { findInvalidClaim, findMissingClaim, normalizeAudience, validateAudience } from './utils/claims';
+import { hasAnyScope, hasScopes } from './utils/scopes';
+import { validateClaimsSchema } from './utils/claims-schema';
+import { describeTenantMismatch, matchesTenant } from './utils/tenant';
+import { createJwksClient, JWKSClient, waitUnlessAborted } from './jwks-client';
+import { createOidcDiscoveryClient } from './discovery';
+import { BearerTokenExtractionError, JwtValidationError, JwtValidationErrorCode } from './errors';
+import { defaultRequiredClaims, supportedAlgorithms } from './constants';
 
 /**
  * Concrete implementation of the WristbandJwtValidator interface that provides JWT validation capabilities,
@@ -29,6 +43,34 @@ export class WristbandJwtValidatorImpl implements WristbandJwtValidator {
    * List of allowed signing algorithms for security validation. Defaults to ['RS256'].
    */
   private algorithms: string[];
+  /**
+   * Expected audience(s) or audience predicate. If undefined, the `aud` claim is not checked.
+   */
+  private audience?: AudienceOption;
+  /**
+   * Leeway in seconds applied when checking the `exp`, `nbf` and `iat` claims (including the max token age).
+   */
+  private clockToleranceSeconds: number;
+  /**
+   * Time source used for all time-based claim checks, returning epoch milliseconds.
+   */
+  private clock: () => number;
+  /**
+   * Claims that must be present in every token payload. Always includes `exp`.
+   */
+  private requiredClaims: string[];
+  /**
+   * Maximum allowed age of a token in seconds, measured from its `iat` claim. If undefined, age is not limited.
+   */
+  private maxTokenAge?: number;
+  /**
+   * Maximum allowed lifetime of a token in seconds (`exp - iat`). If undefined, lifetime is not limited.
+   */
+  private maxTokenLifetime?: number;
+  /**
+   * Resolves the signing algorithms advertised by the issuer. If undefined, all allowed algorithms are accepted.
+   */
+  private advertisedAlgorithms?: () => Promise<string[] | undefined>;
 
   /**
    * Creates a new WristbandJwtValidatorImpl instance.
@@ -36,26 +78,75 @@ export class WristbandJwtValidatorImpl implements WristbandJwtValidator {
    * @param jwksClient - Configured JWKS client for key retrieval
    * @param issuer - Expected issuer URL for token validation
    * @param algorithms - Allowed signing algorithms (defaults to ['RS256'])
+   * @param options - Optional claim validation settings (e.g. expected audience, clock tolerance)
    */
-  constructor(jwksClient: JWKSClient, issuer: string, algorithms: string[] = ['RS256']) {
+  constructor(
+    jwksClient: JWKSClient,
+    issuer: string,
+    algorithms: string[] = ['RS256'],
+    options: JwtValidatorOptions = {}
+  ) {
     if (!jwksClient) {
       throw new Error('JWKSClient must be provided to the validator.');
     }
     if (!issuer?.trim()) {
       throw new Error('A valid issuer must be provided to the validator.');
     }
+    if (!Array.isArray(algorithms) || algorithms.length === 0) {
+      throw new Error('At least one signing algorithm must be provided.');
+    }
+    const unsupportedAlgorithms = algorithms.filter(alg => !normalizeAlgorithm(alg));
+    if (unsupportedAlgorithms.length > 0) {
+      throw new Error(
+        `Unsupported signing algorithm(s): ${unsupportedAlgorithms.join(', ')}. ` +
+        `Supported algorithms are: ${supportedAlgorithms.join(', ')}.`
+      );
+    }
+    if (options.audience !== undefined && !isValidAudienceOption(options.audience)) {
+      throw new Error('The audience must be a non-empty string, an array of non-empty strings, or a function.');
+    }
+    if (
+      options.clockToleranceSeconds !== undefined &&
+      (!Number.isFinite(options.clockToleranceSeconds) || options.clockToleranceSeconds < 0)
+    ) {
+      throw new Error('The clock tolerance must be a non-negative number of seconds.');
+    }
+    if (options.clock !== undefined && typeof options.clock !== 'function') {
+      throw new Error('The clock must be a function returning the current time in milliseconds.');
+    }
     if (
-      !algorithms ||
-      algorithms.length !== 1 ||
-      typeof algorithms[0] !== 'string' ||
-      algorithms[0].toUpperCase() !== 'RS256'
+      options.requiredClaims !== undefined &&
+      (!Array.isArray(options.requiredClaims) || options.requiredClaims.some(claim => !claim?.trim()))
     ) {
-      throw new Error('Only the RS256 algorithm is supported.');
+      throw new Error('The required claims must be an array of non-empty claim names.');
+    }
+    if (options.maxTokenAge !== undefined && !isPositiveNumber(options.maxTokenAge)) {
+      throw new Error('The max token age must be a positive number of seconds.');
+    }
+    if (options.maxTokenLifetime !== undefined && !isPositiveNumber(options.maxTokenLifetime)) {
+      throw new Error('The max token lifetime must be a positive number of seconds.');
+    }
+    if (options.advertisedAlgorithms !== undefined && typeof options.advertisedAlgorithms !== 'function') {
+      throw new Error('The advertised algorithms resolver must be a function.');
     }
 
     this.jwksClient = jwksClient;
     this.issuer = issuer;
-    this.algorithms = algorithms;
+    this.algorithms = algorithms.map(alg => normalizeAlgorithm(alg) as string);
+    this.audience = options.audience;
+    this.clockToleranceSeconds = options.clockToleranceSeconds ?? 0;
+    this.clock = options.clock ?? ((): number => Date.now());
+    this.maxTokenAge = options.maxTokenAge;
+    this.maxTokenLifetime = options.maxTokenLifetime;
+    this.advertisedAlgorithms = options.advertisedAlgorithms;
+    // Tokens without an expiration never expire, so `exp` is always enforced. Age and lifetime policies
+    // can't be evaluated without `iat`, so it is also required when either policy is configured.
+    const usesIssuedAt = this.maxTokenAge !== undefined || this.maxTokenLifetime !== undefined;
+    this.requiredClaims = Array.from(new Set([
+      'exp',
+      ...(usesIssuedAt ? ['iat'] : []),
+      ...(options.requiredClaims ?? defaultRequiredClaims),
+    ]));
   }
 
   /**
@@ -74,12 +165,16 @@ export class WristbandJwtValidatorImpl implements WristbandJwtValidator {
    * 
    * @param authorizationHeader - The Authorization header value(s)
    * @returns The extracted Bearer token string
-   * @throws {Error} When header is missing, malformed, contains multiple entries, or uses wrong scheme
+   * @throws {BearerTokenExtractionError} When header is missing, malformed, contains multiple entries, or uses
+   * wrong scheme
    */
   extractBearerToken(authorizationHeader?: string | string[] | null): string {  
     // Handle null/undefined
     if (!authorizationHeader) {
-      throw new Error('No authorization header provided');
+      throw new BearerTokenExtractionError(
+        'No authorization header provided',
+        JwtValidationErrorCode.MISSING_AUTHORIZATION_HEADER
+      );
     }
     
     let headerValue: string;
@@ -87,10 +182,16 @@ export class WristbandJwtValidatorImpl implements WristbandJwtValidator {
     // Handle array
     if (Array.isArray(authorizationHeader)) {
       if (authorizationHeader.length === 0) {
-        throw new Error('No authorization header provided');
+        throw new BearerTokenExtractionError(
+          'No authorization header provided',
+          JwtValidationErrorCode.MISSING_AUTHORIZATION_HEADER
+        );
       }
       if (authorizationHeader.length > 1) {
-        throw new Error('Multiple authorization headers not allowed');
+        throw new BearerTokenExtractionError(
+          'Multiple authorization headers not allowed',
+          JwtValidationErrorCode.INVALID_AUTHORIZATION_HEADER
+        );
       }
       headerValue = authorizationHeader[0];
     } else {
@@ -99,33 +200,77 @@ export class WristbandJwtValidatorImpl implements WristbandJwtValidator {
     
     // Handle empty string
     if (!headerValue?.trim()) {
-      throw new Error('No authorization header provided');
+      throw new BearerTokenExtractionError(
+        'No authorization header provided',
+        JwtValidationErrorCode.MISSING_AUTHORIZATION_HEADER
+      );
     }
     
     if (!headerValue.startsWith('Bearer ')) {
-      throw new Error('Authorization header must provide "Bearer" token');
+      throw new BearerTokenExtractionError(
+        'Authorization header must provide "Bearer" token',
+        JwtValidationErrorCode.INVALID_AUTHORIZATION_HEADER
+      );
     }
     
     const token = headerValue.substring(7);
     if (!token) {
-      throw new Error('No token provided');
+      throw new BearerTokenExtractionError('No token provided', JwtValidationErrorCode.MISSING_TOKEN);
     }
     
     return token;
   }
 
   /**
-   * Validate a JWT token
+   * Starts refreshing the JWKS in the background.
+   */
+  start(): Promise<void> {
+    return this.jwksClient.start();
+  }
+
+  /**
+   * Stops refreshing the JWKS in the background.
+   */
+  stop(): void {
+    this.jwksClient.stop();
+  }
+
+  /**
+   * Reports the health of the JWKS endpoint.
    */
-  async validate(token: string): Promise<JwtValidationResult> {
+  getJwksHealth(): JwksHealth {
+    return this.jwksClient.getHealth();
+  }
+
+  /**
+   * Exports the currently cached keys.
+   */
+  exportKeySnapshot(): JwksKeySnapshot {
+    return this.jwksClient.exportKeySnapshot();
+  }
+
+  /**
+   * Validate a JWT token, then apply any per-call checks (e.g. claims schema, required scopes). With a claims
+   * schema, the payload type is inferred from the schema, or given explicitly.
+   */
+  validate<const TSchema extends ClaimsSchema>(
+    token: string,
+    options: JwtValidateOptions & { claimsSchema: TSchema }
+  ): Promise<JwtValidationResult<InferClaims<TSchema>>>;
+  validate<TPayload extends JWTPayload>(
+    token: string,
+    options: JwtValidateOptions & { claimsSchema: ClaimsSchema }
+  ): Promise<JwtValidationResult<TPayload>>;
+  validate(token: string, options?: JwtValidateOptions): Promise<JwtValidationResult>;
+  async validate(token: string, options: JwtValidateOptions = {}): Promise<JwtValidationResult> {
     try {
       if (!token) {
-        return { isValid: false, errorMessage: 'No token provided' };
+        return { isValid: false, errorCode: JwtValidationErrorCode.MISSING_TOKEN, errorMessage: 'No token provided' };
       }
 
       const parts = token.split('.');
       if (parts.length !== 3) {
-        return { isValid: false, errorMessage: 'Invalid JWT format' };
+        return { isValid: false, errorCode: JwtValidationErrorCode.MALFORMED, errorMessage: 'Invalid JWT format' };
       }
 
       const [headerB64, payloadB64, signatureB64] = parts;
@@ -138,14 +283,54 @@ export class WristbandJwtValidatorImpl implements WristbandJwtValidator {
         header = JSON.parse(base64urlDecode(headerB64)) as JWTHeader;
         payload = JSON.parse(base64urlDecode(payloadB64)) as JWTPayload;
       } catch (error) {
-        return { isValid: false, errorMessage: 'Invalid JWT encoding' };
+        return { isValid: false, errorCode: JwtValidationErrorCode.MALFORMED, errorMessage: 'Invalid JWT encoding' };
+      }
+
+      if (!isJsonObject(header) || !isJsonObject(payload)) {
+        return { isValid: false, errorCode: JwtValidationErrorCode.MALFORMED, errorMessage: 'Invalid JWT encoding' };
+      }
+
+      // Only accept algorithms the issuer advertises, when it does
+      let algorithms = this.algorithms;
+      if (this.advertisedAlgorithms) {
+        try {
+          const advertised = (await waitUnlessAborted(this.advertisedAlgorithms(), options.signal))
+            ?.map(alg => normalizeAlgorithm(alg));
+          algorithms = advertised ? algorithms.filter(alg => advertised.includes(alg)) : algorithms;
+        } catch (error) {
+          return {
+            isValid: false,
+            errorCode: error instanceof JwtValidationError ? error.code : JwtValidationErrorCode.JWKS_UNAVAILABLE,
+            errorMessage: `Failed to get signing algorithms: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          };
+        }
       }
 
       // Validate algorithm using OWASP-recommended practices
-      if (!validateAlgorithm(header.alg, this.algorithms)) {
+      if (!validateAlgorithm(header.alg, algorithms)) {
         return { 
           isValid: false, 
-          errorMessage: `Algorithm ${header.alg} not allowed. Expected one of: ${this.algorithms.join(', ')}` 
+          errorCode: JwtValidationErrorCode.BAD_ALGORITHM,
+          errorMessage: `Algorithm ${header.alg} not allowed. Expected one of: ${algorithms.join(', ') || 'none'}` 
+        };
+      }
+
+      // Validate presence of required claims and JSON types of registered claims
+      const missingClaim = findMissingClaim(payload, this.requiredClaims);
+      if (missingClaim) {
+        return {
+          isValid: false,
+          errorCode: JwtValidationErrorCode.MISSING_CLAIM,
+          errorMessage: `Token is missing required claim: ${missingClaim}`,
+        };
+      }
+
+      const invalidClaim = findInvalidClaim(payload);
+      if (invalidClaim) {
+        return {
+          isValid: false,
+          errorCode: JwtValidationErrorCode.INVALID_CLAIM,
+          errorMessage: `Token claim has an invalid type: ${invalidClaim}`,
         };
       }
 
@@ -153,45 +338,134 @@ export class WristbandJwtValidatorImpl implements WristbandJwtValidator {
       if (payload.iss !== this.issuer) {
         return { 
           isValid: false, 
+          errorCode: JwtValidationErrorCode.BAD_ISSUER,
           errorMessage: `Invalid issuer. Expected ${this.issuer}, got ${payload.iss}` 
         };
       }
 
-      // Validate expiration
-      if (payload.exp && Date.now() >= payload.exp * 1000) {
-        return { isValid: false, errorMessage: 'Token has expired' };
+      // Validate audience (only when configured)
+      if (this.audience !== undefined && !validateAudience(payload.aud, this.audience)) {
+        const expected = typeof this.audience === 'function' ? 'custom audience check' : [this.audience].flat().join(', ');
+        return {
+          isValid: false,
+          errorCode: JwtValidationErrorCode.BAD_AUDIENCE,
+          errorMessage: `Invalid audience. Expected ${expected}, got ${normalizeAudience(payload.aud).join(', ') || 'none'}`,
+        };
+      }
+
+      // Validate expiration and not before, allowing for the configured clock skew
+      const now = this.clock();
+      const toleranceMs = this.clockToleranceSeconds * 1000;
+      if (now >= (payload.exp as number) * 1000 + toleranceMs) {
+        return { isValid: false, errorCode: JwtValidationErrorCode.EXPIRED, errorMessage: 'Token has expired' };
       }
 
-      // Validate not before
-      if (payload.nbf && Date.now() < payload.nbf * 1000) {
-        return { isValid: false, errorMessage: 'Token not yet valid' };
+      if (payload.nbf && now < payload.nbf * 1000 - toleranceMs) {
+        return { isValid: false, errorCode: JwtValidationErrorCode.NOT_YET_VALID, errorMessage: 'Token not yet valid' };
+      }
+
+      // Validate issued at, plus the optional token age and lifetime policies
+      if (payload.iat !== undefined) {
+        if (now < payload.iat * 1000 - toleranceMs) {
+          return {
+            isValid: false,
+            errorCode: JwtValidationErrorCode.ISSUED_IN_FUTURE,
+            errorMessage: 'Token issued in the future',
+          };
+        }
+
+        if (this.maxTokenAge !== undefined && now > (payload.iat + this.maxTokenAge) * 1000 + toleranceMs) {
+          return {
+            isValid: false,
+            errorCode: JwtValidationErrorCode.TOKEN_TOO_OLD,
+            errorMessage: `Token exceeds the maximum age of ${this.maxTokenAge} seconds`,
+          };
+        }
+
+        if (this.maxTokenLifetime !== undefined && (payload.exp as number) - payload.iat > this.maxTokenLifetime) {
+          return {
+            isValid: false,
+            errorCode: JwtValidationErrorCode.LIFETIME_TOO_LONG,
+            errorMessage: `Token lifetime exceeds the maximum of ${this.maxTokenLifetime} seconds`,
+          };
+        }
       }
 
       // Get signing key and verify signature
       if (!header.kid) {
-        return { isValid: false, errorMessage: 'Token header missing kid (key ID)' };
+        return {
+          isValid: false,
+          errorCode: JwtValidationErrorCode.MISSING_KID,
+          errorMessage: 'Token header missing kid (key ID)',
+        };
       }
 
-      let publicKey: string;
+      let publicKey: CryptoKey;
       try {
-        publicKey = await this.jwksClient.getSigningKey(header.kid);
+        publicKey = await this.jwksClient.getSigningKey(header.kid, header.alg, options.signal);
       } catch (error) {
         return { 
           isValid: false, 
+          // Errors that don't identify a specific cause are treated as JWKS retrieval failures
+          errorCode: error instanceof JwtValidationError ? error.code : JwtValidationErrorCode.JWKS_UNAVAILABLE,
           errorMessage: `Failed to get signing key: ${error instanceof Error ? error.message : 'Unknown error'}`,
         };
       }
 
       // Verify signature using OWASP-compliant crypto
-      const signatureValid = await verifyRS256Signature(`${headerB64}.${payloadB64}`, signatureB64, publicKey);
+      const signatureValid = await verifySignature(header.alg, `${headerB64}.${payloadB64}`, signatureB64, publicKey);
       if (!signatureValid) {
-        return { isValid: false, errorMessage: 'Invalid signature' };
+        return { isValid: false, errorCode: JwtValidationErrorCode.BAD_SIGNATURE, errorMessage: 'Invalid signature' };
+      }
+
+      // Check the payload against the caller's claims schema so the typed payload can be trusted
+      if (options.claimsSchema) {
+        const violation = validateClaimsSchema(payload, options.claimsSchema);
+        if (violation) {
+          return {
+            isValid: false,
+            errorCode: violation.missing ? JwtValidationErrorCode.MISSING_CLAIM : JwtValidationErrorCode.INVALID_CLAIM,
+            errorMessage: violation.message,
+          };
+        }
+      }
+
+      // Authorization checks only run once the token is known to be authentic
+      if (options.tenant !== undefined) {
+        const expectedTenantId = typeof options.tenant === 'function' ? await options.tenant(payload) : options.tenant;
+        if (!matchesTenant(payload, expectedTenantId)) {
+          return {
+            isValid: false,
+            errorCode: JwtValidationErrorCode.TENANT_MISMATCH,
+            errorMessage: describeTenantMismatch(payload, expectedTenantId),
+          };
+        }
+      }
+
+      if (options.requireScopes?.length && !hasScopes(payload, ...options.requireScopes)) {
+        return {
+          isValid: false,
+          errorCode: JwtValidationErrorCode.INSUFFICIENT_SCOPE,
+          errorMessage: `Insufficient scope. Required all of: ${options.requireScopes.join(', ')}`,
+        };
+      }
+
+      if (options.requireAnyScope?.length && !hasAnyScope(payload, ...options.requireAnyScope)) {
+        return {
+          isValid: false,
+          errorCode: JwtValidationErrorCode.INSUFFICIENT_SCOPE,
+          errorMessage: `Insufficient scope. Required one of: ${options.requireAnyScope.join(', ')}`,
+        };
       }
 
       // Validation Success
       return { isValid: true, payload };
     } catch (error) {
-      return {  isValid: false,  errorMessage: error instanceof Error ? error.message : 'Token validation failed' };
+      return {
+        isValid: false,
+        errorCode: JwtValidationErrorCode.UNKNOWN,
+        errorMessage: error instanceof Error ? error.message : 'Token validation failed',
+      };
     }
   }
 }
@@ -207,7 +481,7 @@ export class WristbandJwtValidatorImpl implements WristbandJwtValidator {
  * 
  * @example
  * ```typescript
- * import { createWristbandJwtValidator } from '@wristband/jwt-validation';
+ * import { createWristbandJwtValidator, JwtValidationErrorCode } from '@wristband/jwt-validation';
  * 
  * // Create validator instance (reuse across requests)
  * const validator = createWristbandJwtValidator({
@@ -222,6 +496,8 @@ export class WristbandJwtValidatorImpl implements WristbandJwtValidator {
  *     
  *     if (result.isValid) {
  *       res.json({ user: result.payload?.sub, message: 'Access granted' });
+ *     } else if (result.errorCode === JwtValidationErrorCode.JWKS_UNAVAILABLE) {
+ *       res.status(503).json({ error: result.errorMessage });
  *     } else {
  *       res.status(401).json({ error: result.errorMessage });
  *     }
@@ -233,10 +509,89 @@ export class WristbandJwtValidatorImpl implements WristbandJwtValidator {
  */
 export function createWristbandJwtValidator(config: WristbandJwtValidatorConfig): WristbandJwtValidator {
   const issuer = `https://${config.wristbandApplicationVanityDomain}`;
+  const discoveryClient = config.oidcDiscovery && !config.staticJwks
+    ? createOidcDiscoveryClient({
+      issuer,
+      cacheTtl: typeof config.oidcDiscovery === 'object' ? config.oidcDiscovery.cacheTtl : undefined,
+      fetch: config.jwksFetch,
+      timeoutMs: config.jwksTimeoutMs,
+      headers: config.jwksHeaders,
+      clock: config.clock,
+      // Discovery failures count towards the JWKS circuit breaker and health, like failed JWKS fetches
+      requestGuard: request => jwksClient.guardRequest(request),
+    })
+    : undefined;
   const jwksClient = createJwksClient({
-    jwksUri: `${issuer}/api/v1/oauth2/jwks`,
+    jwksUri: discoveryClient ? (): Promise<string> => discoveryClient.getJwksUri() : `${issuer}/api/v1/oauth2/jwks`,
     cacheMaxSize: config.jwksCacheMaxSize ?? 20,
     cacheTtl: config.jwksCacheTtl, // undefined if not set (cached indefinitely)
+    cacheMinTtl: config.jwksCacheMinTtl,
+    cacheMaxTtl: config.jwksCacheMaxTtl,
+    cacheStore: config.jwksCacheStore,
+    cacheStoreNamespace: issuer,
+    keySnapshot: config.keySnapshot,
+    refetchInterval: config.jwksRefetchInterval,
+    negativeCacheTtl: config.jwksNegativeCacheTtl,
+    refreshInterval: config.jwksRefreshInterval,
+    maxStale: config.jwksMaxStale,
+    fetch: config.jwksFetch,
+    timeoutMs: config.jwksTimeoutMs,
+    headers: config.jwksHeaders,
+    retryPolicy: config.jwksRetryPolicy,
+    circuitBreaker: config.jwksCircuitBreaker,
+    staticJwks: config.staticJwks,
+    clock: config.clock,
   });
-  return new WristbandJwtValidatorImpl(jwksClient, issuer, ['RS256']);
+  // With discovery, the algorithms advertised by the issuer are accepted unless algorithms are configured. An issuer
+  // that advertises none only gets the default RS256, so enabling discovery never widens the default on its own.
+  const algorithms = config.algorithms ?? (discoveryClient ? supportedAlgorithms : ['RS256']);
+  return new WristbandJwtValidatorImpl(jwksClient, issuer, algorithms, {
+    audience: config.audience,
+    clockToleranceSeconds: config.clockToleranceSeconds,
+    clock: config.clock,
+    requiredClaims: config.requiredClaims,
+    maxTokenAge: config.maxTokenAge,
+    maxTokenLifetime: config.maxTokenLifetime,
+    advertisedAlgorithms: discoveryClient
+      ? async (): Promise<string[] | undefined> => {
+        return (await discoveryClient.getSigningAlgorithms()) ?? (config.algorithms ? undefined : ['RS256']);
+      }
+      : undefined,
+  });
+}
+
+/**
+ * Checks that a value is a finite number greater than zero.
+ *
+ * @param value - The value to check
+ * @returns True if the value is a positive, finite number
+ */
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Checks that a decoded JWT segment is a JSON object (as opposed to a primitive, array, or null).
+ *
+ * @param value - The parsed JSON value
+ * @returns True if the value is a non-null, non-array object
+ */
+function isJsonObject(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks that a configured audience option is usable for validation.
+ *
+ * @param audience - The audience option to check
+ * @returns True if the option is a non-empty string, a non-empty array of non-empty strings, or a function
+ */
+function isValidAudienceOption(audience: AudienceOption): boolean {
+  if (typeof audience === 'function') {
+    return true;
+  }
+  if (Array.isArray(audience)) {
+    return audience.length > 0 && audience.every(value => typeof value === 'string' && !!value.trim());
+  }
+  return typeof audience === 'string' && !!audience.trim();
 }
@@ -0,0 +1,239 @@
+/**
+ * Test suite for the OpenID Connect discovery client
+ * Tests fetching, validating and caching the discovery document
+ */
+
+import { createOidcDiscoveryClient, OidcDiscoveryClient } from '../src/discovery';
+import { JwtValidationErrorCode } from '../src/errors';
+
+const issuer = 'https://test.example.com';
+const discoveryDocument = {
+  issuer,
+  jwks_uri: 'https://test.example.com/oauth2/jwks',
+  id_token_signing_alg_values_supported: ['RS256', 'ES256'],
+};
+const documentResponse = (document: unknown = discoveryDocument): Response => {
+  return { ok: true, json: async () => document } as Response;
+};
+const serverError = { ok: false, status: 503, statusText: 'Service Unavailable' } as Response;
+
+describe('OidcDiscoveryClient', () => {
+  let now: number;
+  const clock = (): number => now;
+
+  beforeEach(() => {
+    now = 1_000_000;
+  });
+
+  describe('constructor', () => {
+    it('should require an issuer', () => {
+      expect(() => new OidcDiscoveryClient({ issuer: '' }))
+        .toThrow('A valid issuer is required for OpenID Connect discovery.');
+      // @ts-expect-error - Testing invalid input
+      expect(() => new OidcDiscoveryClient(undefined))
+        .toThrow('A valid issuer is required for OpenID Connect discovery.');
+    });
+
+    it('should validate the cache TTL', () => {
+      for (const cacheTtl of [0, -1, 1.5]) {
+        expect(() => new OidcDiscoveryClient({ issuer, cacheTtl }))
+          .toThrow('The OpenID Connect discovery cache TTL must be a positive integer number of milliseconds.');
+      }
+    });
+
+    it('should validate the request guard', () => {
+      // @ts-expect-error - Testing invalid input
+      expect(() => new OidcDiscoveryClient({ issuer, requestGuard: 'guard' }))
+        .toThrow('The OpenID Connect discovery request guard must be a function.');
+    });
+  });
+
+  describe('getDocument', () => {
+    it('should fetch the discovery document from the well-known path of the issuer', async () => {
+      const customFetch = jest.fn().mockResolvedValue(documentResponse());
+      const client = new OidcDiscoveryClient({ issuer, fetch: customFetch, headers: { 'User-Agent': 'test' } });
+
+      await expect(client.getDocument()).resolves.toEqual(discoveryDocument);
+      await expect(client.getJwksUri()).resolves.toBe('https://test.example.com/oauth2/jwks');
+      await expect(client.getSigningAlgorithms()).resolves.toEqual(['RS256', 'ES256']);
+      expect(customFetch).toHaveBeenCalledTimes(1);
+      expect(customFetch).toHaveBeenCalledWith('https://test.example.com/.well-known/openid-configuration', {
+        headers: { 'User-Agent': 'test' },
+        signal: expect.any(AbortSignal),
+      });
+    });
+
+    it('should not add a second slash when the issuer ends with one', async () => {
+      const customFetch = jest.fn().mockResolvedValue(documentResponse({ ...discoveryDocument, issuer: `${issuer}/` }));
+      const client = new OidcDiscoveryClient({ issuer: `${issuer}/`, fetch: customFetch });
+
+      await client.getDocument();
+      expect(customFetch).toHaveBeenCalledWith(
+        'https://test.example.com/.well-known/openid-configuration', expect.any(Object)
+      );
+    });
+
+    it('should cache the discovery document for the cache TTL', async () => {
+      const customFetch = jest.fn().mockResolvedValue(documentResponse());
+      const client = new OidcDiscoveryClient({ issuer, fetch: customFetch, cacheTtl: 60000, clock });
+
+      await client.getDocument();
+      now += 59999;
+      await client.getDocument();
+      expect(customFetch).toHaveBeenCalledTimes(1);
+
+      now += 1;
+      customFetch.mockResolvedValue(documentResponse({ ...discoveryDocument, jwks_uri: `${issuer}/v2/jwks` }));
+      await expect(client.getJwksUri()).resolves.toBe(`${issuer}/v2/jwks`);
+      expect(customFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should make a single request for concurrent callers', async () => {
+      const customFetch = jest.fn().mockResolvedValue(documentResponse());
+      const client = new OidcDiscoveryClient({ issuer, fetch: customFetch });
+
+      await Promise.all([client.getDocument(), client.getJwksUri(), client.getSigningAlgorithms()]);
+      expect(customFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep using the previous document when a refresh fails, and retry after 30 seconds', async () => {
+      const customFetch = jest.fn().mockResolvedValueOnce(documentResponse()).mockResolvedValue(serverError);
+      const client = new OidcDiscoveryClient({ issuer, fetch: customFetch, cacheTtl: 60000, clock });
+      await client.getDocument();
+
+      now += 60000;
+      await expect(client.getDocument()).resolves.toEqual(discoveryDocument);
+      now += 29999;
+      await expect(client.getDocument()).resolves.toEqual(discoveryDocument);
+      expect(customFetch).toHaveBeenCalledTimes(2);
+
+      now += 1;
+      await expect(client.getDocument()).resolves.toEqual(discoveryDocument);
+      expect(customFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should back off after failed requests until a document has been fetched', async () => {
+      const customFetch = jest.fn().mockResolvedValue(serverError);
+      const client = new OidcDiscoveryClient({ issuer, fetch: customFetch, clock });
+
+      for (let i = 0; i < 10; i++) {
+        await expect(client.getDocument()).rejects.toThrow('HTTP 503: Service Unavailable');
+      }
+      expect(customFetch).toHaveBeenCalledTimes(1);
+
+      // The backoff doubles after each consecutive failure, from 1 second up to 30 seconds
+      now += 1000;
+      await expect(client.getDocument()).rejects.toThrow('HTTP 503: Service Unavailable');
+      now += 1999;
+      await expect(client.getDocument()).rejects.toThrow('HTTP 503: Service Unavailable');
+      expect(customFetch).toHaveBeenCalledTimes(2);
+      now += 1;
+      await expect(client.getDocument()).rejects.toThrow('HTTP 503: Service Unavailable');
+      expect(customFetch).toHaveBeenCalledTimes(3);
+
+      now += 30000;
+      customFetch.mockResolvedValue(documentResponse());
+      await expect(client.getDocument()).resolves.toEqual(discoveryDocument);
+      expect(customFetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('should make each request through the request guard', async () => {
+      const customFetch = jest.fn().mockResolvedValueOnce(serverError).mockResolvedValue(documentResponse());
+      const requestGuard = jest.fn(request => request());
+      const client = new OidcDiscoveryClient({ issuer, fetch: customFetch, requestGuard, clock });
+
+      await expect(client.getDocument()).rejects.toThrow('HTTP 503: Service Unavailable');
+      now += 1000;
+      await expect(client.getDocument()).resolves.toEqual(discoveryDocument);
+      await client.getDocument();
+      expect(requestGuard).toHaveBeenCalledTimes(2);
+
+      requestGuard.mockRejectedValueOnce(new Error('Circuit breaker is open'));
+      const failingClient = new OidcDiscoveryClient({ issuer, fetch: customFetch, requestGuard });
+      await expect(failingClient.getDocument()).rejects.toThrow('Circuit breaker is open');
+      expect(customFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fail with jwks_unavailable when the endpoint responds with an HTTP error', async () => {
+      const client = new OidcDiscoveryClient({ issuer, fetch: jest.fn().mockResolvedValue(serverError) });
+
+      await expect(client.getDocument()).rejects.toMatchObject({
+        name: 'JwksError',
+        code: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+        message: 'Failed to fetch OpenID Connect discovery document: HTTP 503: Service Unavailable',
+      });
+    });
+
+    it('should fail with jwks_unavailable when the request fails', async () => {
+      const client = new OidcDiscoveryClient({ issuer, fetch: jest.fn().mockRejectedValue(new Error('Network error')) });
+
+      await expect(client.getDocument()).rejects.toMatchObject({
+        code: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+        message: 'Failed to fetch OpenID Connect discovery document: Network error',
+      });
+    });
+
+    it('should abort requests that take longer than the timeout', async () => {
+      jest.useFakeTimers();
+      try {
+        const customFetch = jest.fn((_input: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new Error('This operation was aborted')));
+        }));
+        const client = new OidcDiscoveryClient({ issuer, fetch: customFetch as typeof fetch, timeoutMs: 1000 });
+
+        const document = client.getDocument();
+        const assertion = expect(document).rejects.toThrow(
+          'Failed to fetch OpenID Connect discovery document: Request timed out after 1000ms'
+        );
+        await jest.advanceTimersByTimeAsync(1000);
+        await assertion;
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should reject a document published for a different issuer', async () => {
+      const customFetch = jest.fn().mockResolvedValue(documentResponse({ ...discoveryDocument, issuer: 'https://evil.com' }));
+      const client = new OidcDiscoveryClient({ issuer, fetch: customFetch });
+
+      await expect(client.getDocument()).rejects.toMatchObject({
+        code: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+        message: 'OpenID Connect discovery issuer mismatch. Expected https://test.example.com, got https://evil.com',
+      });
+    });
+
+    it('should reject invalid discovery documents', async () => {
+      const invalidDocuments = [
+        { document: { issuer }, message: 'missing jwks_uri' },
+        { document: { ...discoveryDocument, jwks_uri: 42 }, message: 'missing jwks_uri' },
+        {
+          document: { ...discoveryDocument, id_token_signing_alg_values_supported: 'RS256' },
+          message: 'id_token_signing_alg_values_supported must be an array of strings',
+        },
+      ];
+      for (const { document, message } of invalidDocuments) {
+        const customFetch = jest.fn().mockResolvedValue(documentResponse(document));
+        const client = new OidcDiscoveryClient({ issuer, fetch: customFetch });
+
+        await expect(client.getDocument()).rejects.toMatchObject({
+          code: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+          message: `Invalid OpenID Connect discovery document: ${message}`,
+        });
+      }
+    });
+
+    it('should resolve undefined signing algorithms when the issuer does not advertise them', async () => {
+      const document = { issuer, jwks_uri: discoveryDocument.jwks_uri };
+      const customFetch = jest.fn().mockResolvedValue(documentResponse(document));
+      const client = new OidcDiscoveryClient({ issuer, fetch: customFetch });
+
+      await expect(client.getSigningAlgorithms()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('factory function', () => {
+    it('should create an OidcDiscoveryClient instance', () => {
+      expect(createOidcDiscoveryClient({ issuer })).toBeInstanceOf(OidcDiscoveryClient);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import {
+  BearerTokenExtractionError,
+  JwksError,
+  JwtValidationError,
+  JwtValidationErrorCode
+} from '../src/errors';
+
+describe('Errors', () => {
+  describe('JwtValidationError', () => {
+    it('should carry the message, code and name', () => {
+      const error = new JwtValidationError('Token has expired', JwtValidationErrorCode.EXPIRED);
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error.message).toBe('Token has expired');
+      expect(error.code).toBe('expired');
+      expect(error.name).toBe('JwtValidationError');
+    });
+  });
+
+  describe('BearerTokenExtractionError', () => {
+    it('should be a JwtValidationError with its own name', () => {
+      const error = new BearerTokenExtractionError(
+        'No authorization header provided',
+        JwtValidationErrorCode.MISSING_AUTHORIZATION_HEADER
+      );
+
+      expect(error).toBeInstanceOf(JwtValidationError);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('BearerTokenExtractionError');
+      expect(error.code).toBe('missing_authorization_header');
+    });
+  });
+
+  describe('JwksError', () => {
+    it('should be a JwtValidationError with its own name', () => {
+      const error = new JwksError('Failed to fetch JWKS', JwtValidationErrorCode.JWKS_UNAVAILABLE);
+
+      expect(error).toBeInstanceOf(JwtValidationError);
+      expect(error.name).toBe('JwksError');
+      expect(error.code).toBe('jwks_unavailable');
+    });
+  });
+
+  describe('JwtValidationErrorCode', () => {
+    it('should expose stable snake_case string values', () => {
+      Object.values(JwtValidationErrorCode).forEach((code) => {
+        expect(code).toMatch(/^[a-z]+(_[a-z]+)*$/);
+      });
+    });
+  });
+});
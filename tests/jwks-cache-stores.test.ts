@@ -0,0 +1,128 @@
+/**
+ * Test suite for the JWK key stores
+ * Tests the in-memory LRU store and the in-memory reference implementation of a remote store
+ */
+
+import { InMemoryRemoteJwksCacheStore, LruJwksCacheStore } from '../src/jwks-cache-stores';
+import { JWKSKey } from '../src/types';
+
+const jwk: JWKSKey = { kty: 'RSA', kid: 'key-1', n: 'n1', e: 'AQAB' };
+const rotatedJwk: JWKSKey = { kty: 'RSA', kid: 'key-1', n: 'n2', e: 'AQAB' };
+
+describe('LruJwksCacheStore', () => {
+  let now: number;
+  const clock = (): number => now;
+
+  beforeEach(() => {
+    now = 1_000_000;
+  });
+
+  it('should store, replace and delete JWKs by key ID', async () => {
+    const store = new LruJwksCacheStore({ maxSize: 10 });
+
+    await expect(store.get('key-1')).resolves.toBeUndefined();
+    await store.set('key-1', jwk);
+    await expect(store.get('key-1')).resolves.toEqual(jwk);
+
+    await store.set('key-1', rotatedJwk);
+    await expect(store.get('key-1')).resolves.toEqual(rotatedJwk);
+
+    await store.delete('key-1');
+    await expect(store.get('key-1')).resolves.toBeUndefined();
+  });
+
+  it('should evict the least recently used JWK when full', async () => {
+    const store = new LruJwksCacheStore({ maxSize: 2 });
+
+    await store.set('key-1', jwk);
+    await store.set('key-2', { ...jwk, kid: 'key-2' });
+    await store.get('key-1');
+    await store.set('key-3', { ...jwk, kid: 'key-3' });
+    await expect(store.get('key-1')).resolves.toEqual(jwk);
+    await expect(store.get('key-2')).resolves.toBeUndefined();
+  });
+
+  it('should expire JWKs after the given TTL, or once unused for the cache TTL by default', async () => {
+    const store = new LruJwksCacheStore({ maxSize: 10, ttl: 60000, clock });
+
+    await store.set('key-1', jwk, 1000);
+    await store.set('key-2', { ...jwk, kid: 'key-2' });
+    now += 1001;
+    await expect(store.get('key-1')).resolves.toBeUndefined();
+    await expect(store.get('key-2')).resolves.toBeDefined();
+
+    now += 60001;
+    await expect(store.get('key-2')).resolves.toBeUndefined();
+  });
+
+  it('should remove all JWKs when cleared', async () => {
+    const store = new LruJwksCacheStore({ maxSize: 10 });
+
+    await store.set('key-1', jwk);
+    await store.clear();
+    await expect(store.get('key-1')).resolves.toBeUndefined();
+  });
+
+  it('should validate the cache options', () => {
+    expect(() => new LruJwksCacheStore({ maxSize: 0 })).toThrow('maxSize must be a positive integer');
+  });
+});
+
+describe('InMemoryRemoteJwksCacheStore', () => {
+  let now: number;
+  const clock = (): number => now;
+
+  beforeEach(() => {
+    now = 1_000_000;
+  });
+
+  it('should store, replace and delete JWKs by key ID', async () => {
+    const store = new InMemoryRemoteJwksCacheStore();
+
+    await expect(store.get('key-1')).resolves.toBeUndefined();
+    await store.set('key-1', jwk);
+    await expect(store.get('key-1')).resolves.toEqual(jwk);
+
+    await store.set('key-1', rotatedJwk);
+    await expect(store.get('key-1')).resolves.toEqual(rotatedJwk);
+
+    await store.delete('key-1');
+    await expect(store.get('key-1')).resolves.toBeUndefined();
+  });
+
+  it('should return copies of the stored JWKs, like a remote store', async () => {
+    const store = new InMemoryRemoteJwksCacheStore();
+    const stored = { ...jwk };
+
+    await store.set('key-1', stored);
+    stored.n = 'changed';
+    const first = await store.get('key-1');
+    const second = await store.get('key-1');
+    expect(first).toEqual(jwk);
+    expect(first).not.toBe(second);
+  });
+
+  it('should expire JWKs after their TTL, and keep JWKs without one', async () => {
+    const store = new InMemoryRemoteJwksCacheStore(clock);
+
+    await store.set('key-1', jwk, 1000);
+    await store.set('key-2', { ...jwk, kid: 'key-2' });
+    now += 999;
+    await expect(store.get('key-1')).resolves.toEqual(jwk);
+
+    now += 1;
+    await expect(store.get('key-1')).resolves.toBeUndefined();
+    now += 86400000;
+    await expect(store.get('key-2')).resolves.toBeDefined();
+  });
+
+  it('should remove all JWKs when cleared', async () => {
+    const store = new InMemoryRemoteJwksCacheStore();
+
+    await store.set('key-1', jwk);
+    await store.set('key-2', { ...jwk, kid: 'key-2' });
+    await store.clear();
+    await expect(store.get('key-1')).resolves.toBeUndefined();
+    await expect(store.get('key-2')).resolves.toBeUndefined();
+  });
+});
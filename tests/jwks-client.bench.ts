@@ -0,0 +1,65 @@
+/**
+ * Benchmark for JWKS key caching, run with `npm run bench` (not part of `npm test`)
+ * Compares verifying signatures with the cached CryptoKey against importing the key for every verification
+ */
+
+import { JWKSClient } from '../src/jwks-client';
+import { arrayBufferToBase64, importSigningKey, verifySignature } from '../src/utils/crypto';
+
+const ITERATIONS = 300;
+const data = 'header.payload';
+
+describe('JWKSClient key caching benchmark', () => {
+  let publicJwk: JsonWebKey;
+  let signature: string;
+
+  const measure = async (verify: () => Promise<boolean>): Promise<number> => {
+    const start = performance.now();
+    for (let i = 0; i < ITERATIONS; i++) {
+      expect(await verify()).toBe(true);
+    }
+    return performance.now() - start;
+  };
+
+  beforeAll(async () => {
+    const keyPair = await crypto.subtle.generateKey(
+      { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+      true,
+      ['sign', 'verify']
+    );
+    const { kty, n, e } = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+    publicJwk = { kty, n, e };
+    const signatureBuffer = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', keyPair.privateKey, new TextEncoder().encode(data));
+    signature = arrayBufferToBase64(signatureBuffer).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  });
+
+  it(`should report the time to verify ${ITERATIONS} signatures with cached and per-call imported keys`, async () => {
+    const client = new JWKSClient({
+      jwksUri: 'https://test.example.com/jwks',
+      fetch: jest.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ keys: [{ ...publicJwk, kid: 'bench-key-id' }] })
+      }),
+    });
+
+    const verifyWithCachedKey = async (): Promise<boolean> => {
+      return verifySignature('RS256', data, signature, await client.getSigningKey('bench-key-id', 'RS256'));
+    };
+    const verifyWithImportedKey = async (): Promise<boolean> => {
+      return verifySignature('RS256', data, signature, await importSigningKey('RS256', publicJwk));
+    };
+
+    // Warm up both paths (and populate the cache) before measuring
+    await verifyWithCachedKey();
+    await verifyWithImportedKey();
+
+    const importedMs = await measure(verifyWithImportedKey);
+    const cachedMs = await measure(verifyWithCachedKey);
+
+    // Timings depend on the machine, so they are reported rather than asserted
+    console.log(
+      `Verified ${ITERATIONS} RS256 signatures: ${cachedMs.toFixed(1)}ms with cached CryptoKeys, ` +
+      `${importedMs.toFixed(1)}ms with per-call key import (${(importedMs / cachedMs).toFixed(1)}x)`
+    );
+  });
+});
@@ -1,10 +1,16 @@
 /**
  * Comprehensive test suite for JWKS Client
- * Tests all functionality including key fetching, caching, ASN.1 encoding, and error handling
+ * Tests all functionality including key fetching, caching, key import, and error handling
  */
 
 import { createJwksClient, JWKSClient } from '../src/jwks-client';
-import { JWKSKey, JWKSResponse } from '../src/types';
+import { JWKSClientConfig, JWKSKey, JWKSResponse } from '../src/types';
+import { JwksError, JwtValidationErrorCode } from '../src/errors';
+import { verifySignature } from '../src/utils/crypto';
+import { InMemoryRemoteJwksCacheStore } from '../src/jwks-cache-stores';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 // Mock fetch globally
 global.fetch = jest.fn();
@@ -85,6 +91,29 @@ describe('JWKSClient', () => {
       expect(() => new JWKSClient({ jwksUri: '\t\n  ' })).toThrow('A valid JWKS URI is required.');
     });
 
+    it('should throw when the refetch interval or negative cache TTL is invalid', () => {
+      const jwksUri = 'https://test.example.com/jwks';
+      expect(() => new JWKSClient({ jwksUri, refetchInterval: -1 }))
+        .toThrow('The JWKS refetch interval must be a non-negative integer number of milliseconds.');
+      expect(() => new JWKSClient({ jwksUri, refetchInterval: 1.5 }))
+        .toThrow('The JWKS refetch interval must be a non-negative integer number of milliseconds.');
+      expect(() => new JWKSClient({ jwksUri, negativeCacheTtl: NaN }))
+        .toThrow('The JWKS negative cache TTL must be a non-negative integer number of milliseconds.');
+      expect(() => new JWKSClient({ jwksUri, refetchInterval: 0, negativeCacheTtl: 0 })).not.toThrow();
+    });
+
+    it('should throw when the cache min or max TTL is invalid', () => {
+      const jwksUri = 'https://test.example.com/jwks';
+      expect(() => new JWKSClient({ jwksUri, cacheMinTtl: 0 }))
+        .toThrow('The JWKS cache min TTL must be a positive integer number of milliseconds.');
+      expect(() => new JWKSClient({ jwksUri, cacheMaxTtl: 1.5 }))
+        .toThrow('The JWKS cache max TTL must be a positive integer number of milliseconds.');
+      expect(() => new JWKSClient({ jwksUri, cacheMinTtl: 2000, cacheMaxTtl: 1000 }))
+        .toThrow('The JWKS cache min TTL must not be greater than the cache max TTL.');
+      expect(() => new JWKSClient({ jwksUri, cacheMaxTtl: 1000 })).not.toThrow();
+      expect(() => new JWKSClient({ jwksUri, cacheMinTtl: 100000000 })).not.toThrow();
+    });
+
     it('should create client with default cache size', () => {
       const client = new JWKSClient({
         jwksUri: 'https://test.example.com/jwks',
@@ -131,225 +160,1960 @@ describe('JWKSClient', () => {
       expect(client.cache).not.toBeNull();
     });
 
-    it('should lazy-load cache on getSigningKey call', async () => {
-      const client = new JWKSClient({
-        jwksUri: 'https://test.example.com/jwks',
-        cacheMaxSize: 10
+    it('should lazy-load cache on getSigningKey call', async () => {
+      const client = new JWKSClient({
+        jwksUri: 'https://test.example.com/jwks',
+        cacheMaxSize: 10
+      });
+      
+      // Cache should not be instantiated yet
+      // @ts-expect-error - Accessing private property for testing
+      expect(client.cache).toBeNull();
+      
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => VALID_JWKS_RESPONSE
+      } as Response);
+      
+      // This should trigger cache creation
+      await client.getSigningKey('test-key-id', 'RS256');
+      
+      // Cache should now be instantiated
+      // @ts-expect-error - Accessing private property for testing
+      expect(client.cache).not.toBeNull();
+    });
+
+    it('should lazy-load cache on clear call', () => {
+      const client = new JWKSClient({
+        jwksUri: 'https://test.example.com/jwks',
+        cacheMaxSize: 10
+      });
+      
+      // Cache should not be instantiated yet
+      // @ts-expect-error - Accessing private property for testing
+      expect(client.cache).toBeNull();
+      
+      // This should trigger cache creation
+      client.clear();
+      
+      // Cache should now be instantiated
+      // @ts-expect-error - Accessing private property for testing
+      expect(client.cache).not.toBeNull();
+    });
+  });
+
+  describe('getSigningKey', () => {
+    let client: JWKSClient;
+
+    beforeEach(() => {
+      client = new JWKSClient({
+        jwksUri: 'https://test.example.com/jwks',
+        cacheMaxSize: 10
+      });
+    });
+
+    describe('successful key retrieval', () => {
+      it('should fetch and return a valid signing key', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: async () => VALID_JWKS_RESPONSE
+        } as Response);
+
+        const key = await client.getSigningKey('test-key-id', 'RS256');
+        
+        expect(key.type).toBe('public');
+        expect(mockFetch).toHaveBeenCalledWith(
+          'https://test.example.com/jwks',
+          { headers: {}, signal: expect.any(AbortSignal) }
+        );
+      });
+
+      it('should return cached key on subsequent requests', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: async () => VALID_JWKS_RESPONSE
+        } as Response);
+
+        // First call - should fetch
+        const key1 = await client.getSigningKey('test-key-id', 'RS256');
+        
+        // Second call - should use cache
+        const key2 = await client.getSigningKey('test-key-id', 'RS256');
+        
+        expect(key1).toBe(key2);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        expect(client.getCacheStats().size).toBe(2); // Every key in the set is cached
+      });
+
+      it('should handle multiple different keys', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: async () => VALID_JWKS_RESPONSE
+        } as Response);
+
+        const key1 = await client.getSigningKey('test-key-id', 'RS256');
+        const key2 = await client.getSigningKey('another-key-id', 'RS256');
+        
+        // Both should be imported public keys
+        expect(key1.type).toBe('public');
+        expect(key2.type).toBe('public');
+        expect(mockFetch).toHaveBeenCalledTimes(1); // The whole key set is cached by the first fetch
+        expect(client.getCacheStats().size).toBe(2); // Two separate cache entries
+      });
+    });
+
+    describe('EC keys', () => {
+      const curves = [
+        { alg: 'ES256', crv: 'P-256', hash: 'SHA-256' },
+        { alg: 'ES384', crv: 'P-384', hash: 'SHA-384' },
+        { alg: 'ES512', crv: 'P-521', hash: 'SHA-512' },
+      ];
+      const ecKeys: Record<string, { jwk: JWKSKey; privateKey: CryptoKey }> = {};
+
+      beforeAll(async () => {
+        for (const { crv } of curves) {
+          const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: crv }, true, ['sign', 'verify']);
+          const { kty, x, y } = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+          ecKeys[crv] = { jwk: { kty: kty as string, kid: `ec-${crv}`, crv, x, y }, privateKey: keyPair.privateKey };
+        }
+      });
+
+      const mockEcJwks = (...jwks: JWKSKey[]): void => {
+        mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ keys: jwks }) } as Response);
+      };
+
+      it.each(curves)('should import $crv keys that verify $alg signatures', async ({ alg, crv, hash }) => {
+        mockEcJwks(ecKeys[crv].jwk);
+        const data = new TextEncoder().encode('header.payload');
+        const signature = await crypto.subtle.sign({ name: 'ECDSA', hash }, ecKeys[crv].privateKey, data);
+        const signatureB64 = btoa(String.fromCharCode(...new Uint8Array(signature)))
+          .replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
+
+        const publicKey = await client.getSigningKey(`ec-${crv}`, alg);
+        expect(publicKey.algorithm).toMatchObject({ name: 'ECDSA', namedCurve: crv });
+        expect(await verifySignature(alg, 'header.payload', signatureB64, publicKey)).toBe(true);
+      });
+
+      it('should reject an EC key used with an algorithm for a different curve', async () => {
+        mockEcJwks(ecKeys['P-256'].jwk);
+
+        await expect(client.getSigningKey('ec-P-256', 'ES384')).rejects.toMatchObject({
+          code: JwtValidationErrorCode.INVALID_KEY,
+          message: "Signing key 'ec-P-256' (EC P-256) can't verify ES384 tokens",
+        });
+      });
+
+      it('should reject EC and RSA keys used with the other key type\'s algorithms', async () => {
+        mockEcJwks(ecKeys['P-256'].jwk, VALID_JWK);
+
+        await expect(client.getSigningKey('ec-P-256', 'RS256')).rejects.toMatchObject({
+          code: JwtValidationErrorCode.INVALID_KEY,
+        });
+        await expect(client.getSigningKey('test-key-id', 'ES256')).rejects.toMatchObject({
+          code: JwtValidationErrorCode.INVALID_KEY,
+          message: "Signing key 'test-key-id' (RSA) can't verify ES256 tokens",
+        });
+      });
+
+      it('should throw for unsupported curves', async () => {
+        mockEcJwks({ ...ecKeys['P-256'].jwk, crv: 'secp256k1' });
+
+        await expect(client.getSigningKey('ec-P-256', 'ES256')).rejects.toMatchObject({
+          code: JwtValidationErrorCode.INVALID_KEY,
+          message: "Unsupported EC curve 'secp256k1'. Supported curves are: P-256, P-384, P-521",
+        });
+      });
+
+      it('should throw when EC coordinates are missing', async () => {
+        mockEcJwks({ kty: 'EC', kid: 'ec-key-id', crv: 'P-256' });
+
+        await expect(client.getSigningKey('ec-key-id', 'ES256')).rejects.toThrow('Invalid JWK: missing x or y parameters');
+      });
+
+      it('should throw when EC coordinates have the wrong length for the curve', async () => {
+        mockEcJwks({ ...ecKeys['P-384'].jwk, crv: 'P-256' });
+
+        await expect(client.getSigningKey('ec-P-384', 'ES256')).rejects.toMatchObject({
+          code: JwtValidationErrorCode.INVALID_KEY,
+          message: 'Invalid JWK: x and y must be 32 bytes for curve P-256',
+        });
+      });
+    });
+
+    describe('OKP keys', () => {
+      let ed25519Jwk: JWKSKey;
+      let privateKey: CryptoKey;
+
+      beforeAll(async () => {
+        const keyPair = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+        const { kty, crv, x } = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+        ed25519Jwk = { kty: kty as string, kid: 'okp-key-id', crv, x };
+        privateKey = keyPair.privateKey;
+      });
+
+      const mockOkpJwks = (...jwks: JWKSKey[]): void => {
+        mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ keys: jwks }) } as Response);
+      };
+
+      it('should import Ed25519 keys that verify EdDSA signatures', async () => {
+        mockOkpJwks(ed25519Jwk);
+        const signature = await crypto.subtle.sign({ name: 'Ed25519' }, privateKey, new TextEncoder().encode('h.p'));
+        const signatureB64 = btoa(String.fromCharCode(...new Uint8Array(signature)))
+          .replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
+
+        const publicKey = await client.getSigningKey('okp-key-id', 'EdDSA');
+        expect(publicKey.algorithm).toMatchObject({ name: 'Ed25519' });
+        expect(await verifySignature('EdDSA', 'h.p', signatureB64, publicKey)).toBe(true);
+      });
+
+      it('should reject Ed25519 keys used with other algorithms', async () => {
+        mockOkpJwks(ed25519Jwk);
+
+        await expect(client.getSigningKey('okp-key-id', 'ES256')).rejects.toMatchObject({
+          code: JwtValidationErrorCode.INVALID_KEY,
+          message: "Signing key 'okp-key-id' (OKP Ed25519) can't verify ES256 tokens",
+        });
+      });
+
+      it('should throw for unsupported OKP curves', async () => {
+        mockOkpJwks({ ...ed25519Jwk, crv: 'Ed448' });
+
+        await expect(client.getSigningKey('okp-key-id', 'EdDSA')).rejects.toMatchObject({
+          code: JwtValidationErrorCode.INVALID_KEY,
+          message: "Unsupported OKP curve 'Ed448'. Only Ed25519 is supported",
+        });
+      });
+
+      it('should throw when the OKP public key is missing or has the wrong length', async () => {
+        mockOkpJwks({ kty: 'OKP', kid: 'okp-key-id', crv: 'Ed25519' });
+        await expect(client.getSigningKey('okp-key-id', 'EdDSA')).rejects.toThrow('Invalid JWK: missing x parameter');
+
+        client.clear();
+        mockOkpJwks({ ...ed25519Jwk, x: 'AAAA' });
+        await expect(client.getSigningKey('okp-key-id', 'EdDSA')).rejects.toThrow('Invalid JWK: x must be 32 bytes for curve Ed25519');
+      });
+    });
+
+    describe('key algorithm checks', () => {
+      const PS256_JWKS_RESPONSE: JWKSResponse = { keys: [{ ...VALID_JWK, alg: 'PS256' }] };
+
+      it('should return a key whose alg matches the token algorithm', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: true, json: async () => PS256_JWKS_RESPONSE } as Response);
+
+        await expect(client.getSigningKey('test-key-id', 'PS256')).resolves.toMatchObject({ type: 'public' });
+      });
+
+      it('should return a key without an alg for any token algorithm', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: true, json: async () => VALID_JWKS_RESPONSE } as Response);
+
+        await expect(client.getSigningKey('test-key-id', 'RS512')).resolves.toMatchObject({ type: 'public' });
+        await expect(client.getSigningKey('test-key-id', 'PS384')).resolves.toMatchObject({ type: 'public' });
+      });
+
+      it('should throw JwksError with invalid_key code when the key alg does not match', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: true, json: async () => PS256_JWKS_RESPONSE } as Response);
+
+        await expect(client.getSigningKey('test-key-id', 'RS256')).rejects.toMatchObject({
+          name: 'JwksError',
+          code: JwtValidationErrorCode.INVALID_KEY,
+          message: 'Signing key \'test-key-id\' is intended for PS256, but the token uses RS256',
+        });
+      });
+
+      it('should enforce the key alg for cached keys', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: true, json: async () => PS256_JWKS_RESPONSE } as Response);
+
+        await client.getSigningKey('test-key-id', 'PS256');
+        await expect(client.getSigningKey('test-key-id', 'RS256')).rejects.toMatchObject({
+          code: JwtValidationErrorCode.INVALID_KEY,
+        });
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('network error handling with retry logic', () => {
+      it('should retry on HTTP error response and eventually succeed', async () => {
+        // First two attempts return 500, third succeeds
+        mockFetch
+          .mockResolvedValueOnce({ ok: false, status: 500, statusText: 'Internal Server Error' } as Response)
+          .mockResolvedValueOnce({ ok: false, status: 500, statusText: 'Internal Server Error' } as Response)
+          .mockResolvedValueOnce({ ok: true, json: async () => VALID_JWKS_RESPONSE } as Response);
+
+        const key = await client.getSigningKey('test-key-id', 'RS256');
+        expect(key.type).toBe('public');
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+      });
+
+      it('should fail after all 3 retry attempts are exhausted', async () => {
+        const startTime = Date.now();
+
+        mockFetch
+          .mockRejectedValueOnce(new Error('Network error'))
+          .mockRejectedValueOnce(new Error('Network error'))
+          .mockRejectedValueOnce(new Error('Network error'));
+
+        await expect(client.getSigningKey('test-key-id', 'RS256'))
+          .rejects.toThrow('Failed to fetch JWKS after 3 attempts: Network error');
+        
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+        // should respect retry delay timing - 2 delays of 100ms each
+        const elapsed = Date.now() - startTime;
+        expect(elapsed).toBeGreaterThanOrEqual(200);
+      });
+    });
+
+    describe('key validation errors', () => {
+      it('should throw when key ID is not found', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: async () => VALID_JWKS_RESPONSE
+        } as Response);
+
+        await expect(client.getSigningKey('nonexistent-key-id', 'RS256'))
+          .rejects.toThrow("Unable to find a signing key that matches 'nonexistent-key-id'");
+      });
+
+      it('should throw when key is not RSA or EC', async () => {
+        const octJwks = {
+          keys: [{
+            kty: 'oct',
+            kid: 'oct-key-id',
+            k: 'c2VjcmV0'
+          }]
+        };
+
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: async () => octJwks
+        } as Response);
+
+        await expect(client.getSigningKey('oct-key-id', 'RS256'))
+          .rejects.toThrow("Unsupported key type 'oct'. Only RSA, EC and OKP keys are supported");
+      });
+
+      it('should throw when JWK is missing required parameters', async () => {
+        const invalidJwks = {
+          keys: [{
+            kty: 'RSA',
+            kid: 'invalid-key-id'
+            // Missing 'n' and 'e' parameters
+          }]
+        };
+
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: async () => invalidJwks
+        } as Response);
+
+        await expect(client.getSigningKey('invalid-key-id', 'RS256'))
+          .rejects.toThrow('Invalid JWK: missing n or e parameters');
+      });
+
+      it('should throw when RSA key is too weak', async () => {
+        const weakJwks = {
+          keys: [WEAK_JWK]
+        };
+
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: async () => weakJwks
+        } as Response);
+
+        await expect(client.getSigningKey('weak-key-id', 'RS256'))
+          .rejects.toThrow('RSA key too weak');
+      });
+    });
+
+    describe('error codes', () => {
+      it('should throw JwksError with key_not_found code for unknown kid', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: true, json: async () => VALID_JWKS_RESPONSE } as Response);
+
+        await expect(client.getSigningKey('nonexistent-key-id', 'RS256')).rejects.toMatchObject({
+          name: 'JwksError',
+          code: JwtValidationErrorCode.KEY_NOT_FOUND,
+        });
+      });
+
+      it('should throw JwksError with invalid_key code for weak keys', async () => {
+        mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ keys: [WEAK_JWK] }) } as Response);
+
+        const error = await client.getSigningKey('weak-key-id', 'RS256').catch(e => e);
+        expect(error).toBeInstanceOf(JwksError);
+        expect(error.code).toBe(JwtValidationErrorCode.INVALID_KEY);
+      });
+
+      it('should throw JwksError with jwks_unavailable code when fetching fails', async () => {
+        mockFetch
+          .mockRejectedValueOnce(new Error('Network error'))
+          .mockRejectedValueOnce(new Error('Network error'))
+          .mockRejectedValueOnce(new Error('Network error'));
+
+        await expect(client.getSigningKey('test-key-id', 'RS256')).rejects.toMatchObject({
+          code: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+        });
+      });
+    });
+
+  describe('empty JWKS responses', () => {
+      it('should handle empty key set', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ keys: [] })
+        } as Response);
+
+        await expect(client.getSigningKey('any-key-id', 'RS256'))
+          .rejects.toThrow("Unable to find a signing key that matches 'any-key-id'");
+      });
+
+      it('should handle malformed JWKS response', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ notKeys: [] })
+        } as Response);
+        mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ notKeys: [] }) } as Response);
+        mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ notKeys: [] }) } as Response);
+
+        await expect(client.getSigningKey('any-key-id', 'RS256'))
+          .rejects.toThrow('Invalid JWKS response: missing keys array');
+      });
+    });
+  });
+
+  describe('refetch rate limiting and negative caching', () => {
+    let now: number;
+    const clock = (): number => now;
+
+    const createClient = (config: Partial<JWKSClientConfig> = {}): JWKSClient => {
+      return new JWKSClient({ jwksUri: 'https://test.example.com/jwks', clock, ...config });
+    };
+    const mockJwks = (...keys: JWKSKey[]): void => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ keys }) } as Response);
+    };
+
+    beforeEach(() => {
+      now = 1_000_000;
+    });
+
+    it('should fail fast with unknown_kid for a kid that was recently not found', async () => {
+      const client = createClient({ refetchInterval: 0 });
+      mockJwks(VALID_JWK);
+
+      await expect(client.getSigningKey('forged-kid', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.KEY_NOT_FOUND,
+        message: 'Unable to find a signing key that matches \'forged-kid\'',
+      });
+      now += 30000;
+      await expect(client.getSigningKey('forged-kid', 'RS256')).rejects.toMatchObject({
+        name: 'JwksError',
+        code: JwtValidationErrorCode.UNKNOWN_KID,
+        message: 'Unable to find a signing key that matches \'forged-kid\' (not found in a recent JWKS fetch)',
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      // Once the negative cache entry expires, the kid is looked up again
+      now += 1;
+      mockJwks(VALID_JWK, { ...VALID_JWK, kid: 'forged-kid' });
+      await expect(client.getSigningKey('forged-kid', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not refetch the JWKS for unknown kids within the refetch interval', async () => {
+      const client = createClient({ negativeCacheTtl: 0 });
+      mockJwks(VALID_JWK);
+
+      await expect(client.getSigningKey('kid-a', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.KEY_NOT_FOUND,
+      });
+      now += 29999;
+      await expect(client.getSigningKey('kid-b', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.UNKNOWN_KID,
+        message: 'Unable to find a signing key that matches \'kid-b\' (JWKS refetch is rate-limited)',
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      now += 1;
+      mockJwks(VALID_JWK, { ...VALID_JWK, kid: 'kid-b' });
+      await expect(client.getSigningKey('kid-b', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fetch a rotated key once the refetch interval has elapsed, without negatively caching it', async () => {
+      const client = createClient();
+      mockJwks(VALID_JWK);
+      await client.getSigningKey('test-key-id', 'RS256');
+
+      now += 10000;
+      await expect(client.getSigningKey('rotated-key-id', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.UNKNOWN_KID,
+        message: 'Unable to find a signing key that matches \'rotated-key-id\' (JWKS refetch is rate-limited)',
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      now += 20000;
+      mockJwks(VALID_JWK, { ...VALID_JWK, kid: 'rotated-key-id' });
+      await expect(client.getSigningKey('rotated-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should resolve known keys from the last fetched key set while refetching is rate-limited', async () => {
+      const client = createClient({ cacheMaxSize: 1 });
+      mockJwks(...VALID_JWKS_RESPONSE.keys);
+
+      await client.getSigningKey('test-key-id', 'RS256');
+      await expect(client.getSigningKey('another-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refetch on every cache miss when rate limiting and negative caching are disabled', async () => {
+      const client = createClient({ refetchInterval: 0, negativeCacheTtl: 0 });
+      mockJwks(VALID_JWK);
+      mockJwks(VALID_JWK);
+
+      await expect(client.getSigningKey('forged-kid', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.KEY_NOT_FOUND,
+      });
+      await expect(client.getSigningKey('forged-kid', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.KEY_NOT_FOUND,
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should forget unknown kids and the last fetch time when the cache is cleared', async () => {
+      const client = createClient();
+      mockJwks(VALID_JWK);
+      mockJwks(VALID_JWK);
+
+      await expect(client.getSigningKey('forged-kid', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.KEY_NOT_FOUND,
+      });
+      client.clear();
+      await expect(client.getSigningKey('forged-kid', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.KEY_NOT_FOUND,
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should bound the number of remembered unknown kids', async () => {
+      const client = createClient({ refetchInterval: 0 });
+      mockFetch.mockResolvedValue({ ok: true, json: async () => ({ keys: [VALID_JWK] }) } as Response);
+
+      for (let i = 0; i <= 1000; i++) {
+        await client.getSigningKey(`forged-kid-${i}`, 'RS256').catch(() => undefined);
+      }
+
+      // @ts-expect-error - Accessing private property for testing
+      expect(client.unknownKidCache.size()).toBe(1000);
+    });
+  });
+
+  describe('background refresh', () => {
+    const jwksUri = 'https://test.example.com/jwks';
+    const mockJwks = (...keys: JWKSKey[]): void => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ keys }) } as Response);
+    };
+    let client: JWKSClient;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      client.stop();
+      jest.useRealTimers();
+    });
+
+    it('should fetch and cache the whole key set when started', async () => {
+      client = new JWKSClient({ jwksUri, refreshInterval: 60000 });
+      mockJwks(...VALID_JWKS_RESPONSE.keys);
+
+      await client.start();
+      expect(client.getCacheStats().size).toBe(2);
+
+      await client.getSigningKey('test-key-id', 'RS256');
+      await client.getSigningKey('another-key-id', 'RS256');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refresh the key set on every interval, keeping the imported keys of unchanged JWKs', async () => {
+      client = new JWKSClient({ jwksUri, refreshInterval: 60000 });
+      mockJwks(VALID_JWK);
+      await client.start();
+      const key = await client.getSigningKey('test-key-id', 'RS256');
+
+      mockJwks(VALID_JWK, { ...VALID_JWK, kid: 'rotated-key-id' });
+      await jest.advanceTimersByTimeAsync(59999);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      // The rotated key is available without waiting on the JWKS endpoint
+      await expect(client.getSigningKey('rotated-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      expect(await client.getSigningKey('test-key-id', 'RS256')).toBe(key);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop validating with keys removed from the key set once it is refreshed', async () => {
+      const cacheStore = new InMemoryRemoteJwksCacheStore();
+      client = new JWKSClient({ jwksUri, refreshInterval: 60000, cacheStore });
+      mockJwks(VALID_JWK);
+      await client.start();
+      await client.getSigningKey('test-key-id', 'RS256');
+
+      mockJwks({ ...VALID_JWK, kid: 'rotated-key-id' });
+      await jest.advanceTimersByTimeAsync(60000);
+
+      await expect(client.getSigningKey('test-key-id', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.UNKNOWN_KID,
+      });
+      await expect(client.getSigningKey('rotated-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      await expect(cacheStore.get(`${jwksUri}#test-key-id`)).resolves.toBeUndefined();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refresh shortly before the cache TTL expires when no interval is configured', async () => {
+      client = new JWKSClient({ jwksUri, cacheTtl: 10000 });
+      mockJwks(VALID_JWK);
+      mockJwks(VALID_JWK);
+      await client.start();
+
+      await jest.advanceTimersByTimeAsync(8999);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep serving cached keys when a background refresh fails', async () => {
+      client = new JWKSClient({ jwksUri, refreshInterval: 60000 });
+      mockJwks(VALID_JWK);
+      await client.start();
+
+      mockFetch.mockRejectedValue(new Error('Network error'));
+      await jest.advanceTimersByTimeAsync(60000 + 1000);
+      expect(mockFetch).toHaveBeenCalledTimes(4); // Initial fetch, then 3 failed attempts
+
+      await expect(client.getSigningKey('test-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      mockFetch.mockReset();
+    });
+
+    it('should reject start() when the initial fetch fails, and keep refreshing in the background', async () => {
+      client = new JWKSClient({ jwksUri, refreshInterval: 60000 });
+      mockFetch
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockRejectedValueOnce(new Error('Network error'));
+
+      const started = client.start();
+      const assertion = expect(started).rejects.toMatchObject({ code: JwtValidationErrorCode.JWKS_UNAVAILABLE });
+      await jest.advanceTimersByTimeAsync(1000);
+      await assertion;
+
+      mockJwks(VALID_JWK);
+      await jest.advanceTimersByTimeAsync(60000);
+      expect(client.getCacheStats().size).toBe(1);
+    });
+
+    it('should not start a second timer when started twice, and stop refreshing when stopped', async () => {
+      client = new JWKSClient({ jwksUri, refreshInterval: 60000 });
+      mockJwks(VALID_JWK);
+      await client.start();
+      await client.start();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      mockJwks(VALID_JWK);
+      await jest.advanceTimersByTimeAsync(60000);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      client.stop();
+      client.stop();
+      await jest.advanceTimersByTimeAsync(120000);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not keep the process alive with the refresh timer', async () => {
+      jest.useRealTimers();
+      client = new JWKSClient({ jwksUri });
+      mockJwks(VALID_JWK);
+      await client.start();
+
+      // @ts-expect-error - Accessing private property for testing
+      expect(client.backgroundRefresh.timer.hasRef()).toBe(false);
+    });
+
+    it('should throw when the refresh interval or max stale window is invalid', () => {
+      client = new JWKSClient({ jwksUri });
+      expect(() => new JWKSClient({ jwksUri, refreshInterval: 0 }))
+        .toThrow('The JWKS refresh interval must be a positive integer number of milliseconds.');
+      expect(() => new JWKSClient({ jwksUri, maxStale: -1 }))
+        .toThrow('The JWKS max stale window must be a non-negative integer number of milliseconds.');
+    });
+  });
+
+  describe('serving stale keys', () => {
+    let now: number;
+    const clock = (): number => now;
+    const failFetch = (): void => {
+      mockFetch
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockRejectedValueOnce(new Error('Network error'));
+    };
+
+    beforeEach(() => {
+      now = 1_000_000;
+    });
+
+    it('should fall back to the last known good key set within the max stale window', async () => {
+      const client = new JWKSClient({
+        jwksUri: 'https://test.example.com/jwks', cacheMaxSize: 1, refetchInterval: 0, maxStale: 60000, clock
+      });
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => VALID_JWKS_RESPONSE } as Response);
+      await client.getSigningKey('test-key-id', 'RS256');
+
+      // 'another-key-id' was evicted by the small cache, and the JWKS endpoint is down
+      now += 60000;
+      failFetch();
+      await expect(client.getSigningKey('another-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+
+      now += 1;
+      failFetch();
+      await expect(client.getSigningKey('test-key-id', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+      });
+    });
+
+    it('should not serve stale keys by default', async () => {
+      const client = new JWKSClient({
+        jwksUri: 'https://test.example.com/jwks', cacheMaxSize: 1, refetchInterval: 0, clock
+      });
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => VALID_JWKS_RESPONSE } as Response);
+      await client.getSigningKey('test-key-id', 'RS256');
+
+      failFetch();
+      await expect(client.getSigningKey('another-key-id', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+      });
+    });
+  });
+
+  describe('HTTP caching headers', () => {
+    let now: number;
+    const clock = (): number => now;
+
+    const createClient = (config: Partial<JWKSClientConfig> = {}): JWKSClient => {
+      return new JWKSClient({ jwksUri: 'https://test.example.com/jwks', clock, ...config });
+    };
+    const mockJwks = (headers: Record<string, string>, keys: JWKSKey[] = VALID_JWKS_RESPONSE.keys): void => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true, status: 200, headers: new Headers(headers), json: async () => ({ keys })
+      } as Response);
+    };
+    const mockNotModified = (headers: Record<string, string> = {}): void => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false, status: 304, statusText: 'Not Modified', headers: new Headers(headers)
+      } as Response);
+    };
+    const expectKeyExpiry = async (client: JWKSClient, lifetime: number): Promise<void> => {
+      const fetchCount = mockFetch.mock.calls.length;
+      now += lifetime;
+      await client.getSigningKey('test-key-id', 'RS256');
+      expect(mockFetch).toHaveBeenCalledTimes(fetchCount);
+
+      now += 1;
+      mockJwks({});
+      await client.getSigningKey('test-key-id', 'RS256');
+      expect(mockFetch).toHaveBeenCalledTimes(fetchCount + 1);
+    };
+
+    beforeEach(() => {
+      now = Date.parse('2024-01-01T00:00:00Z');
+    });
+
+    it('should expire cached keys after the Cache-Control max-age, even if they keep being used', async () => {
+      const client = createClient({ cacheTtl: 10000 });
+      mockJwks({ 'Cache-Control': 'public, max-age=120' });
+      await client.getSigningKey('test-key-id', 'RS256');
+
+      now += 60000;
+      await client.getSigningKey('test-key-id', 'RS256');
+      await expectKeyExpiry(client, 60000);
+    });
+
+    it('should subtract the Age header from max-age', async () => {
+      const client = createClient();
+      mockJwks({ 'Cache-Control': 'max-age=300', 'Age': '100' });
+      await client.getSigningKey('test-key-id', 'RS256');
+
+      await expectKeyExpiry(client, 200000);
+    });
+
+    it('should use the Expires header relative to the Date header', async () => {
+      const client = createClient();
+      mockJwks({ 'Date': 'Mon, 01 Jan 2024 00:00:00 GMT', 'Expires': 'Mon, 01 Jan 2024 00:10:00 GMT' });
+      await client.getSigningKey('test-key-id', 'RS256');
+
+      await expectKeyExpiry(client, 600000);
+    });
+
+    it('should use the Expires header relative to the current time without a Date header', async () => {
+      const client = createClient();
+      now = Date.parse('2024-01-01T00:05:00Z');
+      mockJwks({ 'Expires': 'Mon, 01 Jan 2024 00:10:00 GMT' });
+      await client.getSigningKey('test-key-id', 'RS256');
+
+      await expectKeyExpiry(client, 300000);
+    });
+
+    it('should prefer max-age over the Expires header', async () => {
+      const client = createClient();
+      mockJwks({ 'Cache-Control': 'max-age=120', 'Expires': 'Mon, 01 Jan 2024 01:00:00 GMT' });
+      await client.getSigningKey('test-key-id', 'RS256');
+
+      await expectKeyExpiry(client, 120000);
+    });
+
+    it('should raise short lifetimes to the cache min TTL', async () => {
+      const client = createClient();
+      mockJwks({ 'Cache-Control': 'no-store' });
+      await client.getSigningKey('test-key-id', 'RS256');
+      await expectKeyExpiry(client, 60000);
+
+      const customClient = createClient({ cacheMinTtl: 300000 });
+      mockJwks({ 'Cache-Control': 'max-age=10' });
+      await customClient.getSigningKey('test-key-id', 'RS256');
+      await expectKeyExpiry(customClient, 300000);
+    });
+
+    it('should treat a malformed Expires header as already expired', async () => {
+      const client = createClient({ cacheMinTtl: 5000, refetchInterval: 0 });
+      mockJwks({ 'Expires': '0' });
+      await client.getSigningKey('test-key-id', 'RS256');
+
+      await expectKeyExpiry(client, 5000);
+    });
+
+    it('should lower long lifetimes to the cache max TTL', async () => {
+      const client = createClient();
+      mockJwks({ 'Cache-Control': 'max-age=31536000' });
+      await client.getSigningKey('test-key-id', 'RS256');
+      await expectKeyExpiry(client, 86400000);
+
+      const customClient = createClient({ cacheMaxTtl: 30000 });
+      mockJwks({ 'Cache-Control': 'max-age=3600' });
+      await customClient.getSigningKey('test-key-id', 'RS256');
+      await expectKeyExpiry(customClient, 30000);
+    });
+
+    it('should fall back to the cache TTL when the response has no caching headers', async () => {
+      const client = createClient({ cacheTtl: 10000, refetchInterval: 0 });
+      mockJwks({ 'Cache-Control': 'public' });
+      await client.getSigningKey('test-key-id', 'RS256');
+
+      // The cache TTL is a sliding expiration
+      now += 10000;
+      await client.getSigningKey('test-key-id', 'RS256');
+      now += 10001;
+      mockJwks({});
+      await client.getSigningKey('test-key-id', 'RS256');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should revalidate the key set with If-None-Match and apply the lifetime of a 304 response', async () => {
+      const client = createClient();
+      mockJwks({ 'Cache-Control': 'max-age=120', 'ETag': '"v1"' });
+      await client.getSigningKey('test-key-id', 'RS256');
+
+      now += 120001;
+      mockNotModified({ 'Cache-Control': 'max-age=300' });
+      await expect(client.getSigningKey('test-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'https://test.example.com/jwks',
+        expect.objectContaining({ headers: { 'If-None-Match': '"v1"' } })
+      );
+
+      // The 304 response's max-age applies to the key set it revalidated
+      await expectKeyExpiry(client, 300000);
+    });
+
+    it('should refresh ahead of the advertised lifetime in the background, extending cached keys on 304', async () => {
+      jest.useFakeTimers();
+      const client = new JWKSClient({ jwksUri: 'https://test.example.com/jwks' });
+      try {
+        mockJwks({ 'Cache-Control': 'max-age=120', 'ETag': '"v1"' });
+        await client.start();
+        const cryptoKey = await client.getSigningKey('test-key-id', 'RS256');
+
+        // Revalidated at 90% of the advertised lifetime
+        mockNotModified({ 'Cache-Control': 'max-age=300' });
+        await jest.advanceTimersByTimeAsync(107999);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        await jest.advanceTimersByTimeAsync(1);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+        expect(mockFetch).toHaveBeenLastCalledWith(
+          'https://test.example.com/jwks',
+          expect.objectContaining({ headers: { 'If-None-Match': '"v1"' } })
+        );
+
+        // Well past the original max-age, the cached key (and its imported CryptoKey) is still in use
+        await jest.advanceTimersByTimeAsync(269999);
+        expect(await client.getSigningKey('test-key-id', 'RS256')).toBe(cryptoKey);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+      } finally {
+        client.stop();
+        jest.useRealTimers();
+      }
+    });
+
+    it('should keep the previous lifetime and entity tag when a 304 response omits them', async () => {
+      const client = createClient();
+      mockJwks({ 'Cache-Control': 'max-age=120', 'ETag': '"v1"' });
+      await client.getSigningKey('test-key-id', 'RS256');
+
+      now += 120001;
+      mockNotModified();
+      await client.getSigningKey('test-key-id', 'RS256');
+
+      now += 120001;
+      mockNotModified();
+      await client.getSigningKey('test-key-id', 'RS256');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'https://test.example.com/jwks',
+        expect.objectContaining({ headers: { 'If-None-Match': '"v1"' } })
+      );
+    });
+
+    it('should replace a cached key when the key set changes it under the same kid', async () => {
+      const client = createClient();
+      mockJwks({ 'Cache-Control': 'max-age=120', 'ETag': '"v1"' });
+      const cryptoKey = await client.getSigningKey('test-key-id', 'RS256');
+
+      const rotatedJwk = { ...VALID_JWK, n: create2048BitModulus().replace(/^AE/, 'AF') };
+      now += 120001;
+      mockJwks({ 'Cache-Control': 'max-age=120', 'ETag': '"v2"' }, [rotatedJwk]);
+      const rotatedCryptoKey = await client.getSigningKey('test-key-id', 'RS256');
+
+      expect(rotatedCryptoKey).not.toBe(cryptoKey);
+      // @ts-expect-error - Accessing private property for testing
+      expect(client.cache.get('test-key-id').jwk.n).toBe(rotatedJwk.n);
+    });
+
+    it('should not send If-None-Match without an entity tag or after the cache is cleared', async () => {
+      const client = createClient();
+      mockJwks({ 'Cache-Control': 'max-age=120' });
+      await client.getSigningKey('test-key-id', 'RS256');
+      now += 120001;
+      mockJwks({ 'Cache-Control': 'max-age=120', 'ETag': '"v1"' });
+      await client.getSigningKey('test-key-id', 'RS256');
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'https://test.example.com/jwks',
+        expect.objectContaining({ headers: {} })
+      );
+
+      client.clear();
+      mockJwks({});
+      await client.getSigningKey('test-key-id', 'RS256');
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'https://test.example.com/jwks',
+        expect.objectContaining({ headers: {} })
+      );
+    });
+
+    it('should fail with jwks_unavailable on a 304 response to an unconditional request', async () => {
+      const client = createClient();
+      mockNotModified();
+
+      await expect(client.getSigningKey('test-key-id', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+        message: 'Failed to fetch JWKS after 1 attempt: HTTP 304: Not Modified',
+      });
+    });
+  });
+
+  describe('request options', () => {
+    const jwksUri = 'https://test.example.com/jwks';
+    const jwksResponse = (): Response => ({ ok: true, json: async () => VALID_JWKS_RESPONSE } as Response);
+    const hangingFetch = (): jest.MockedFunction<typeof fetch> => jest.fn((_input, init?: RequestInit) => {
+      return new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new Error('This operation was aborted')));
+      });
+    });
+
+    it('should use the configured fetch implementation instead of the global fetch', async () => {
+      const customFetch = jest.fn(async () => jwksResponse());
+      const client = new JWKSClient({ jwksUri, fetch: customFetch });
+
+      await expect(client.getSigningKey('test-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      expect(customFetch).toHaveBeenCalledWith(jwksUri, expect.objectContaining({ headers: {} }));
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should resolve a JWKS URI function before each request, retrying resolution failures', async () => {
+      const customFetch = jest.fn(async () => jwksResponse());
+      const resolveJwksUri = jest.fn()
+        .mockRejectedValueOnce(new Error('Failed to fetch OpenID Connect discovery document: Network error'))
+        .mockResolvedValue('https://keys.example.com/jwks');
+      const client = new JWKSClient({ jwksUri: resolveJwksUri, fetch: customFetch, retryPolicy: { baseDelayMs: 0 } });
+
+      await expect(client.getSigningKey('test-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      expect(resolveJwksUri).toHaveBeenCalledTimes(2);
+      expect(customFetch).toHaveBeenCalledTimes(1);
+      expect(customFetch).toHaveBeenCalledWith('https://keys.example.com/jwks', expect.any(Object));
+    });
+
+    it('should send the configured headers with every request, alongside If-None-Match', async () => {
+      const customFetch = jest.fn()
+        .mockResolvedValueOnce({ ...jwksResponse(), headers: new Headers({ 'ETag': '"v1"' }) })
+        .mockResolvedValueOnce({ ...jwksResponse(), headers: new Headers() });
+      const client = new JWKSClient({ jwksUri, fetch: customFetch, headers: { 'User-Agent': 'orders-api' } });
+
+      await client.start();
+      client.stop();
+      await client.start();
+      client.stop();
+      expect(customFetch).toHaveBeenNthCalledWith(1, jwksUri, expect.objectContaining({
+        headers: { 'User-Agent': 'orders-api' },
+      }));
+      expect(customFetch).toHaveBeenNthCalledWith(2, jwksUri, expect.objectContaining({
+        headers: { 'User-Agent': 'orders-api', 'If-None-Match': '"v1"' },
+      }));
+    });
+
+    it('should abort requests that exceed the timeout and count them as failed attempts', async () => {
+      jest.useFakeTimers();
+      try {
+        const customFetch = hangingFetch();
+        const client = new JWKSClient({ jwksUri, fetch: customFetch, timeoutMs: 1000 });
+
+        const signingKey = client.getSigningKey('test-key-id', 'RS256');
+        const assertion = expect(signingKey).rejects.toMatchObject({
+          code: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+          message: 'Failed to fetch JWKS after 3 attempts: Request timed out after 1000ms',
+        });
+        await jest.advanceTimersByTimeAsync(3 * 1000 + 100 + 200);
+        await assertion;
+        expect(customFetch).toHaveBeenCalledTimes(3);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should time out requests after 10 seconds by default, and not at all when the timeout is 0', async () => {
+      const customFetch = jest.fn(async () => jwksResponse());
+      await new JWKSClient({ jwksUri, fetch: customFetch }).getSigningKey('test-key-id', 'RS256');
+      await new JWKSClient({ jwksUri, fetch: customFetch, timeoutMs: 0 }).getSigningKey('test-key-id', 'RS256');
+
+      expect(customFetch).toHaveBeenNthCalledWith(1, jwksUri, { headers: {}, signal: expect.any(AbortSignal) });
+      expect(customFetch).toHaveBeenNthCalledWith(2, jwksUri, { headers: {}, signal: undefined });
+
+      jest.useFakeTimers();
+      try {
+        const client = new JWKSClient({ jwksUri, fetch: hangingFetch() });
+        const assertion = expect(client.getSigningKey('test-key-id', 'RS256')).rejects.toMatchObject({
+          message: 'Failed to fetch JWKS after 3 attempts: Request timed out after 10000ms',
+        });
+        await jest.advanceTimersByTimeAsync(3 * 10000 + 100 + 200);
+        await assertion;
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should stop waiting when the signal aborts, while the shared request completes for other callers', async () => {
+      let resolveFetch: (response: Response) => void = () => undefined;
+      const customFetch = jest.fn(() => new Promise<Response>((resolve) => {
+        resolveFetch = resolve;
+      }));
+      const client = new JWKSClient({ jwksUri, fetch: customFetch });
+      const controller = new AbortController();
+
+      const abortedKey = client.getSigningKey('test-key-id', 'RS256', controller.signal);
+      const otherKey = client.getSigningKey('test-key-id', 'RS256');
+      controller.abort();
+      await expect(abortedKey).rejects.toMatchObject({
+        name: 'JwksError',
+        code: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+        message: 'Aborted while waiting for the JWKS',
+      });
+
+      resolveFetch(jwksResponse());
+      await expect(otherKey).resolves.toMatchObject({ type: 'public' });
+      expect(client.getCacheStats().size).toBe(2);
+      expect(customFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject immediately for an aborted signal, unless the key is cached', async () => {
+      const customFetch = jest.fn(async () => jwksResponse());
+      const client = new JWKSClient({ jwksUri, fetch: customFetch });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(client.getSigningKey('test-key-id', 'RS256', controller.signal)).rejects.toMatchObject({
+        code: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+      });
+      await client.getSigningKey('test-key-id', 'RS256');
+      await expect(client.getSigningKey('test-key-id', 'RS256', controller.signal))
+        .resolves.toMatchObject({ type: 'public' });
+    });
+
+    it('should throw when the timeout or fetch implementation is invalid', () => {
+      expect(() => new JWKSClient({ jwksUri, timeoutMs: -1 }))
+        .toThrow('The JWKS request timeout must be a non-negative integer number of milliseconds.');
+      expect(() => new JWKSClient({ jwksUri, timeoutMs: 1.5 }))
+        .toThrow('The JWKS request timeout must be a non-negative integer number of milliseconds.');
+      // @ts-expect-error - Testing invalid input
+      expect(() => new JWKSClient({ jwksUri, fetch: 'fetch' }))
+        .toThrow('The JWKS fetch implementation must be a function.');
+    });
+  });
+
+  describe('retry policy', () => {
+    const jwksUri = 'https://test.example.com/jwks';
+    const jwksResponse = { ok: true, json: async () => VALID_JWKS_RESPONSE } as Response;
+    const httpError = (status: number, statusText: string, headers: Record<string, string> = {}): Response => {
+      return { ok: false, status, statusText, headers: new Headers(headers) } as Response;
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    });
+
+    it('should not retry HTTP errors that will not succeed on retry', async () => {
+      for (const [status, statusText] of [[404, 'Not Found'], [401, 'Unauthorized'], [403, 'Forbidden']] as const) {
+        const customFetch = jest.fn().mockResolvedValue(httpError(status, statusText));
+        const client = new JWKSClient({ jwksUri, fetch: customFetch });
+
+        await expect(client.getSigningKey('test-key-id', 'RS256')).rejects.toMatchObject({
+          code: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+          message: `Failed to fetch JWKS after 1 attempt: HTTP ${status}: ${statusText}`,
+        });
+        expect(customFetch).toHaveBeenCalledTimes(1);
+      }
+    });
+
+    it('should retry network errors, invalid responses and HTTP 408, 429 and 5xx responses', async () => {
+      const customFetch = jest.fn()
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ notKeys: [] }) })
+        .mockResolvedValueOnce(httpError(408, 'Request Timeout'))
+        .mockResolvedValueOnce(httpError(429, 'Too Many Requests'))
+        .mockResolvedValueOnce(httpError(502, 'Bad Gateway'))
+        .mockResolvedValueOnce(jwksResponse);
+      const client = new JWKSClient({ jwksUri, fetch: customFetch, retryPolicy: { maxAttempts: 6 } });
+
+      const signingKey = client.getSigningKey('test-key-id', 'RS256');
+      await jest.advanceTimersByTimeAsync(100 + 200 + 400 + 800 + 1600);
+      await expect(signingKey).resolves.toMatchObject({ type: 'public' });
+      expect(customFetch).toHaveBeenCalledTimes(6);
+    });
+
+    it('should double the delay between attempts, up to the max delay', async () => {
+      const customFetch = jest.fn().mockRejectedValue(new Error('Network error'));
+      const client = new JWKSClient({
+        jwksUri, fetch: customFetch, retryPolicy: { maxAttempts: 5, baseDelayMs: 100, maxDelayMs: 300 }
+      });
+
+      const assertion = expect(client.getSigningKey('test-key-id', 'RS256')).rejects.toMatchObject({
+        message: 'Failed to fetch JWKS after 5 attempts: Network error',
+      });
+      for (const delay of [100, 200, 300, 300]) {
+        const calls = customFetch.mock.calls.length;
+        await jest.advanceTimersByTimeAsync(delay - 1);
+        expect(customFetch).toHaveBeenCalledTimes(calls);
+        await jest.advanceTimersByTimeAsync(1);
+        expect(customFetch).toHaveBeenCalledTimes(calls + 1);
+      }
+      await assertion;
+    });
+
+    it('should randomize delays between 0 and the backoff delay with jitter', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      const customFetch = jest.fn().mockRejectedValue(new Error('Network error'));
+      const client = new JWKSClient({ jwksUri, fetch: customFetch, retryPolicy: { baseDelayMs: 1000, jitter: true } });
+
+      const assertion = expect(client.getSigningKey('test-key-id', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+      });
+      await jest.advanceTimersByTimeAsync(500);
+      expect(customFetch).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(999);
+      expect(customFetch).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(customFetch).toHaveBeenCalledTimes(3);
+      await assertion;
+    });
+
+    it('should not retry when max attempts is 1', async () => {
+      const customFetch = jest.fn().mockRejectedValue(new Error('Network error'));
+      const client = new JWKSClient({ jwksUri, fetch: customFetch, retryPolicy: { maxAttempts: 1 } });
+
+      await expect(client.getSigningKey('test-key-id', 'RS256')).rejects.toMatchObject({
+        message: 'Failed to fetch JWKS after 1 attempt: Network error',
+      });
+      expect(customFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should let a custom predicate decide which failures are retried', async () => {
+      const customFetch = jest.fn()
+        .mockResolvedValueOnce(httpError(404, 'Not Found'))
+        .mockResolvedValueOnce(httpError(500, 'Internal Server Error'));
+      const isRetryable = jest.fn(({ status }: { status?: number }) => status === 404);
+      const client = new JWKSClient({ jwksUri, fetch: customFetch, retryPolicy: { isRetryable } });
+
+      const assertion = expect(client.getSigningKey('test-key-id', 'RS256')).rejects.toMatchObject({
+        message: 'Failed to fetch JWKS after 2 attempts: HTTP 500: Internal Server Error',
+      });
+      await jest.advanceTimersByTimeAsync(100);
+      await assertion;
+      expect(isRetryable).toHaveBeenNthCalledWith(1, { error: expect.any(Error), status: 404, attempt: 1 });
+      expect(isRetryable).toHaveBeenNthCalledWith(2, { error: expect.any(Error), status: 500, attempt: 2 });
+    });
+
+    it('should wait at least as long as Retry-After on 429 and 503 responses', async () => {
+      const now = Date.parse('2024-01-01T00:00:00Z');
+      const customFetch = jest.fn()
+        .mockResolvedValueOnce(httpError(503, 'Service Unavailable', { 'Retry-After': '2' }))
+        .mockResolvedValueOnce(httpError(429, 'Too Many Requests', { 'Retry-After': 'Mon, 01 Jan 2024 00:00:03 GMT' }))
+        .mockResolvedValueOnce(jwksResponse);
+      const client = new JWKSClient({ jwksUri, fetch: customFetch, clock: (): number => now });
+
+      const signingKey = client.getSigningKey('test-key-id', 'RS256');
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(customFetch).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(customFetch).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(2999);
+      expect(customFetch).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(1);
+      await expect(signingKey).resolves.toMatchObject({ type: 'public' });
+      expect(customFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop retrying when Retry-After exceeds the max delay', async () => {
+      const customFetch = jest.fn().mockResolvedValue(httpError(503, 'Service Unavailable', { 'Retry-After': '60' }));
+      const client = new JWKSClient({ jwksUri, fetch: customFetch });
+
+      await expect(client.getSigningKey('test-key-id', 'RS256')).rejects.toMatchObject({
+        message: 'Failed to fetch JWKS after 1 attempt: HTTP 503: Service Unavailable',
+      });
+      expect(customFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore Retry-After on other status codes and malformed Retry-After values', async () => {
+      const customFetch = jest.fn()
+        .mockResolvedValueOnce(httpError(500, 'Internal Server Error', { 'Retry-After': '60' }))
+        .mockResolvedValueOnce(httpError(503, 'Service Unavailable', { 'Retry-After': 'soon' }))
+        .mockResolvedValueOnce(jwksResponse);
+      const client = new JWKSClient({ jwksUri, fetch: customFetch });
+
+      const signingKey = client.getSigningKey('test-key-id', 'RS256');
+      await jest.advanceTimersByTimeAsync(100 + 200);
+      await expect(signingKey).resolves.toMatchObject({ type: 'public' });
+    });
+
+    it('should throw when the retry policy is invalid', () => {
+      expect(() => new JWKSClient({ jwksUri, retryPolicy: { maxAttempts: 0 } }))
+        .toThrow('The JWKS retry policy max attempts must be a positive integer.');
+      expect(() => new JWKSClient({ jwksUri, retryPolicy: { baseDelayMs: -1 } }))
+        .toThrow('The JWKS retry policy base delay must be a non-negative integer number of milliseconds.');
+      expect(() => new JWKSClient({ jwksUri, retryPolicy: { maxDelayMs: 0.5 } }))
+        .toThrow('The JWKS retry policy max delay must be a non-negative integer number of milliseconds.');
+      // @ts-expect-error - Testing invalid input
+      expect(() => new JWKSClient({ jwksUri, retryPolicy: { isRetryable: true } }))
+        .toThrow('The JWKS retry policy isRetryable predicate must be a function.');
+    });
+  });
+
+  describe('circuit breaker', () => {
+    const jwksUri = 'https://test.example.com/jwks';
+    const jwksResponse = { ok: true, json: async () => VALID_JWKS_RESPONSE } as Response;
+    const serverError = { ok: false, status: 503, statusText: 'Service Unavailable', headers: new Headers() } as Response;
+    let now: number;
+    const clock = (): number => now;
+
+    beforeEach(() => {
+      now = 1_000_000;
+    });
+
+    const failTimes = async (client: JWKSClient, times: number): Promise<void> => {
+      for (let i = 0; i < times; i++) {
+        await expect(client.getSigningKey('test-key-id', 'RS256')).rejects.toThrow('HTTP 503: Service Unavailable');
+      }
+    };
+
+    it('should open after the failure threshold and fail fast without calling the JWKS endpoint', async () => {
+      const customFetch = jest.fn().mockResolvedValue(serverError);
+      const client = new JWKSClient({
+        jwksUri, fetch: customFetch, refetchInterval: 0, retryPolicy: { maxAttempts: 1 }, clock,
+        circuitBreaker: { failureThreshold: 3, resetTimeoutMs: 10000 }
+      });
+
+      await failTimes(client, 3);
+      expect(customFetch).toHaveBeenCalledTimes(3);
+
+      await expect(client.getSigningKey('test-key-id', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+        message: 'Failed to fetch JWKS: circuit breaker is open after 3 consecutive failed fetches',
+      });
+      expect(customFetch).toHaveBeenCalledTimes(3);
+      expect(client.getHealth()).toEqual({
+        circuitState: 'open', consecutiveFailures: 3, lastSuccessfulFetchTime: undefined, retryAt: 1_010_000
+      });
+    });
+
+    it('should close again after a successful trial fetch once the reset timeout has elapsed', async () => {
+      const customFetch = jest.fn().mockResolvedValue(serverError);
+      const client = new JWKSClient({
+        jwksUri, fetch: customFetch, refetchInterval: 0, retryPolicy: { maxAttempts: 1 }, clock,
+        circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 10000 }
+      });
+      await failTimes(client, 2);
+
+      now += 9999;
+      expect(client.getHealth().circuitState).toBe('open');
+      now += 1;
+      expect(client.getHealth().circuitState).toBe('half-open');
+
+      customFetch.mockResolvedValue(jwksResponse);
+      await expect(client.getSigningKey('test-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      expect(customFetch).toHaveBeenCalledTimes(3);
+      expect(client.getHealth()).toEqual({
+        circuitState: 'closed', consecutiveFailures: 0, lastSuccessfulFetchTime: now, retryAt: undefined
+      });
+    });
+
+    it('should reopen when the trial fetch fails', async () => {
+      const customFetch = jest.fn().mockResolvedValue(serverError);
+      const client = new JWKSClient({
+        jwksUri, fetch: customFetch, refetchInterval: 0, retryPolicy: { maxAttempts: 1 }, clock,
+        circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 10000 }
+      });
+      await failTimes(client, 2);
+
+      now += 10000;
+      await failTimes(client, 1);
+      expect(customFetch).toHaveBeenCalledTimes(3);
+      expect(client.getHealth()).toMatchObject({ circuitState: 'open', consecutiveFailures: 3, retryAt: now + 10000 });
+      await expect(client.getSigningKey('test-key-id', 'RS256')).rejects.toThrow('circuit breaker is open');
+      expect(customFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should allow a single trial fetch for concurrent requests while half-open', async () => {
+      const customFetch = jest.fn().mockResolvedValue(serverError);
+      const client = new JWKSClient({
+        jwksUri, fetch: customFetch, refetchInterval: 0, retryPolicy: { maxAttempts: 1 }, clock,
+        circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 10000 }
+      });
+      await failTimes(client, 1);
+
+      now += 10000;
+      customFetch.mockResolvedValue(jwksResponse);
+      await Promise.all([
+        client.getSigningKey('test-key-id', 'RS256'),
+        client.getSigningKey('another-key-id', 'RS256'),
+      ]);
+      expect(customFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use the default thresholds when enabled with true', async () => {
+      const customFetch = jest.fn().mockResolvedValue(serverError);
+      const client = new JWKSClient({
+        jwksUri, fetch: customFetch, refetchInterval: 0, retryPolicy: { maxAttempts: 1 }, clock, circuitBreaker: true
+      });
+
+      await failTimes(client, 4);
+      expect(client.getHealth().circuitState).toBe('closed');
+      await failTimes(client, 1);
+      expect(client.getHealth()).toMatchObject({ circuitState: 'open', retryAt: now + 30000 });
+    });
+
+    it('should be disabled by default while still tracking consecutive failures', async () => {
+      const customFetch = jest.fn().mockResolvedValue(serverError);
+      const client = new JWKSClient({
+        jwksUri, fetch: customFetch, refetchInterval: 0, retryPolicy: { maxAttempts: 1 }, clock
+      });
+
+      await failTimes(client, 10);
+      expect(customFetch).toHaveBeenCalledTimes(10);
+      expect(client.getHealth()).toEqual({
+        circuitState: 'closed', consecutiveFailures: 10, lastSuccessfulFetchTime: undefined, retryAt: undefined
+      });
+    });
+
+    it('should still serve stale keys while open', async () => {
+      const customFetch = jest.fn().mockResolvedValueOnce(jwksResponse).mockResolvedValue(serverError);
+      const client = new JWKSClient({
+        jwksUri, fetch: customFetch, cacheMaxSize: 1, refetchInterval: 0, maxStale: 60000,
+        retryPolicy: { maxAttempts: 1 }, clock, circuitBreaker: { failureThreshold: 1 }
+      });
+      await client.getSigningKey('test-key-id', 'RS256');
+
+      // 'another-key-id' was evicted by the small cache; the first failure opens the breaker
+      await expect(client.getSigningKey('another-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      await expect(client.getSigningKey('another-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      expect(customFetch).toHaveBeenCalledTimes(2);
+      expect(client.getHealth().circuitState).toBe('open');
+    });
+
+    it('should fail guarded requests fast while open, and count their failures', async () => {
+      const client = new JWKSClient({ jwksUri, clock, circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 30000 } });
+      const request = jest.fn().mockRejectedValue(new Error('Discovery failed'));
+
+      await expect(client.guardRequest(request)).rejects.toThrow('Discovery failed');
+      expect(client.getHealth()).toMatchObject({ circuitState: 'closed', consecutiveFailures: 1 });
+      await expect(client.guardRequest(request)).rejects.toThrow('Discovery failed');
+      expect(client.getHealth()).toMatchObject({ circuitState: 'open', consecutiveFailures: 2 });
+
+      await expect(client.guardRequest(request)).rejects.toMatchObject({
+        code: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+        message: 'Circuit breaker is open after 2 consecutive failed fetches',
+      });
+      expect(request).toHaveBeenCalledTimes(2);
+      await expect(client.getSigningKey('test-key-id', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+      });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should leave guarded requests made during a JWKS fetch to that fetch', async () => {
+      const request = jest.fn().mockRejectedValue(new Error('Discovery failed'));
+      const client: JWKSClient = new JWKSClient({
+        jwksUri: () => client.guardRequest(request),
+        retryPolicy: { maxAttempts: 1 },
+      });
+
+      await expect(client.getSigningKey('test-key-id', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+      });
+      expect(client.getHealth()).toMatchObject({ consecutiveFailures: 1 });
+    });
+
+    it('should validate the circuit breaker thresholds', () => {
+      expect(() => new JWKSClient({ jwksUri, circuitBreaker: { failureThreshold: 0 } }))
+        .toThrow('The JWKS circuit breaker failure threshold must be a positive integer.');
+      expect(() => new JWKSClient({ jwksUri, circuitBreaker: { failureThreshold: 1.5 } }))
+        .toThrow('The JWKS circuit breaker failure threshold must be a positive integer.');
+      expect(() => new JWKSClient({ jwksUri, circuitBreaker: { resetTimeoutMs: -1 } }))
+        .toThrow('The JWKS circuit breaker reset timeout must be a non-negative integer number of milliseconds.');
+    });
+  });
+
+  describe('cache store', () => {
+    const jwksUri = 'https://test.example.com/jwks';
+    const jwksResponse = { ok: true, json: async () => VALID_JWKS_RESPONSE } as Response;
+    const storeKey = (kid: string): string => `${jwksUri}#${kid}`;
+
+    it('should serve keys fetched by another client sharing the store without fetching the JWKS', async () => {
+      const cacheStore = new InMemoryRemoteJwksCacheStore();
+      const fetchA = jest.fn().mockResolvedValue(jwksResponse);
+      const fetchB = jest.fn().mockResolvedValue(jwksResponse);
+      const clientA = new JWKSClient({ jwksUri, cacheStore, fetch: fetchA });
+      const clientB = new JWKSClient({ jwksUri, cacheStore, fetch: fetchB });
+
+      await clientA.getSigningKey('test-key-id', 'RS256');
+      await expect(clientB.getSigningKey('test-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      await expect(clientB.getSigningKey('another-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      expect(fetchA).toHaveBeenCalledTimes(1);
+      expect(fetchB).not.toHaveBeenCalled();
+      // Keys read from the store are cached in the client too
+      expect(clientB.getCacheStats().size).toBe(2);
+    });
+
+    it('should not share keys between clients of different JWKS URIs', async () => {
+      const cacheStore = new InMemoryRemoteJwksCacheStore();
+      const clientA = new JWKSClient({ jwksUri, cacheStore, fetch: jest.fn().mockResolvedValue(jwksResponse) });
+      const fetchB = jest.fn().mockResolvedValue({ ok: true, json: async () => ({ keys: [] }) });
+      const clientB = new JWKSClient({ jwksUri: 'https://other.example.com/jwks', cacheStore, fetch: fetchB });
+
+      await clientA.getSigningKey('test-key-id', 'RS256');
+      await expect(clientB.getSigningKey('test-key-id', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.KEY_NOT_FOUND,
+      });
+      expect(fetchB).toHaveBeenCalledTimes(1);
+    });
+
+    it('should share keys between clients with the same namespace', async () => {
+      const cacheStore = new InMemoryRemoteJwksCacheStore();
+      const resolveJwksUri = (): Promise<string> => Promise.resolve(jwksUri);
+      const fetchA = jest.fn().mockResolvedValue(jwksResponse);
+      const fetchB = jest.fn().mockResolvedValue(jwksResponse);
+      const setSpy = jest.spyOn(cacheStore, 'set');
+      const clientA = new JWKSClient({
+        jwksUri: resolveJwksUri, cacheStore, cacheStoreNamespace: 'https://test.example.com', fetch: fetchA
+      });
+      const clientB = new JWKSClient({
+        jwksUri: resolveJwksUri, cacheStore, cacheStoreNamespace: 'https://test.example.com', fetch: fetchB
+      });
+
+      await clientA.getSigningKey('test-key-id', 'RS256');
+      await expect(clientB.getSigningKey('test-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      expect(setSpy).toHaveBeenCalledWith('https://test.example.com#test-key-id', VALID_JWK, undefined);
+      expect(fetchB).not.toHaveBeenCalled();
+    });
+
+    it('should not use the store with a static key set', async () => {
+      const cacheStore = new InMemoryRemoteJwksCacheStore();
+      await cacheStore.set(storeKey('another-key-id'), VALID_JWKS_RESPONSE.keys[1]);
+      const getSpy = jest.spyOn(cacheStore, 'get');
+      const setSpy = jest.spyOn(cacheStore, 'set');
+      const client = new JWKSClient({ jwksUri, cacheStore, staticJwks: { keys: [VALID_JWK] } });
+
+      await expect(client.getSigningKey('test-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      await expect(client.getSigningKey('another-key-id', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.KEY_NOT_FOUND,
+      });
+      expect(getSpy).not.toHaveBeenCalled();
+      expect(setSpy).not.toHaveBeenCalled();
+    });
+
+    it('should write fetched keys to the store with the cache TTL or the advertised lifetime', async () => {
+      const cacheStore = new InMemoryRemoteJwksCacheStore();
+      const setSpy = jest.spyOn(cacheStore, 'set');
+      const client = new JWKSClient({
+        jwksUri, cacheStore, cacheTtl: 3600000, fetch: jest.fn().mockResolvedValue(jwksResponse)
+      });
+      await client.getSigningKey('test-key-id', 'RS256');
+      expect(setSpy).toHaveBeenCalledWith(storeKey('test-key-id'), VALID_JWK, 3600000);
+      expect(setSpy).toHaveBeenCalledWith(storeKey('another-key-id'), VALID_JWKS_RESPONSE.keys[1], 3600000);
+
+      setSpy.mockClear();
+      await cacheStore.clear();
+      const cachingClient = new JWKSClient({
+        jwksUri,
+        cacheStore,
+        cacheTtl: 3600000,
+        fetch: jest.fn().mockResolvedValue({
+          ...jwksResponse, status: 200, headers: new Headers({ 'Cache-Control': 'max-age=600' })
+        }),
+      });
+      await cachingClient.getSigningKey('test-key-id', 'RS256');
+      expect(setSpy).toHaveBeenCalledWith(storeKey('test-key-id'), VALID_JWK, 600000);
+    });
+
+    it('should expire stored keys after their TTL', async () => {
+      let now = 1_000_000;
+      const clock = (): number => now;
+      const cacheStore = new InMemoryRemoteJwksCacheStore(clock);
+      const fetchB = jest.fn().mockResolvedValue(jwksResponse);
+      const clientA = new JWKSClient({
+        jwksUri, cacheStore, cacheTtl: 60000, clock, fetch: jest.fn().mockResolvedValue(jwksResponse)
+      });
+      const clientB = new JWKSClient({ jwksUri, cacheStore, clock, fetch: fetchB });
+
+      await clientA.getSigningKey('test-key-id', 'RS256');
+      now += 60000;
+      await clientB.getSigningKey('test-key-id', 'RS256');
+      expect(fetchB).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fetch the JWKS instead of using stored keys that fail validation', async () => {
+      const cacheStore = new InMemoryRemoteJwksCacheStore();
+      await cacheStore.set(storeKey(WEAK_JWK.kid), WEAK_JWK);
+      await cacheStore.set(storeKey('test-key-id'), { ...VALID_JWK, kid: 'other-key-id' });
+      const customFetch = jest.fn().mockResolvedValue({ ok: true, json: async () => ({ keys: [WEAK_JWK] }) });
+      const client = new JWKSClient({ jwksUri, cacheStore, fetch: customFetch, refetchInterval: 0 });
+
+      await expect(client.getSigningKey(WEAK_JWK.kid, 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.INVALID_KEY,
+        message: 'RSA key too weak: 1024 bits. 2048 bits minimum required.',
+      });
+      // A JWK stored under another key ID is not used either
+      await expect(client.getSigningKey('test-key-id', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.KEY_NOT_FOUND,
+      });
+      expect(customFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should treat store errors as cache misses', async () => {
+      const rejectingStore = {
+        get: jest.fn().mockRejectedValue(new Error('Connection refused')),
+        set: jest.fn().mockRejectedValue(new Error('Connection refused')),
+        delete: jest.fn().mockRejectedValue(new Error('Connection refused')),
+      };
+      const throwingStore = {
+        get: jest.fn(() => { throw new Error('Not connected'); }),
+        set: jest.fn(() => { throw new Error('Not connected'); }),
+        delete: jest.fn(() => { throw new Error('Not connected'); }),
+      };
+      for (const cacheStore of [rejectingStore, throwingStore]) {
+        const client = new JWKSClient({ jwksUri, cacheStore, fetch: jest.fn().mockResolvedValue(jwksResponse) });
+
+        await expect(client.getSigningKey('test-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+        expect(cacheStore.get).toHaveBeenCalledWith(storeKey('test-key-id'));
+        expect(cacheStore.set).toHaveBeenCalledTimes(2);
+        expect(() => client.clear()).not.toThrow();
+        expect(cacheStore.delete).toHaveBeenCalledWith(storeKey('test-key-id'));
+      }
+    });
+
+    it('should clear the store along with the cache', async () => {
+      const cacheStore = new InMemoryRemoteJwksCacheStore();
+      const customFetch = jest.fn().mockResolvedValue(jwksResponse);
+      const client = new JWKSClient({ jwksUri, cacheStore, fetch: customFetch });
+      await client.getSigningKey('test-key-id', 'RS256');
+
+      client.clear();
+      await expect(cacheStore.get(storeKey('test-key-id'))).resolves.toBeUndefined();
+      await client.getSigningKey('test-key-id', 'RS256');
+      expect(customFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should remove the keys of the last key set from a store that can\'t be cleared', async () => {
+      const cacheStore = { get: jest.fn(), set: jest.fn().mockResolvedValue(undefined), delete: jest.fn() };
+      const client = new JWKSClient({ jwksUri, cacheStore, fetch: jest.fn().mockResolvedValue(jwksResponse) });
+      await client.getSigningKey('test-key-id', 'RS256');
+
+      cacheStore.delete.mockResolvedValue(undefined);
+      client.clear();
+      expect(cacheStore.delete.mock.calls).toEqual([[storeKey('test-key-id')], [storeKey('another-key-id')]]);
+    });
+
+    it('should validate the cache store', () => {
+      for (const cacheStore of [null, {}, { get: jest.fn(), set: jest.fn() }, { get: 'get', set: jest.fn(), delete: jest.fn() }]) {
+        // @ts-expect-error - Testing invalid input
+        expect(() => new JWKSClient({ jwksUri, cacheStore }))
+          .toThrow('The JWKS cache store must implement get, set and delete.');
+      }
+    });
+
+    it('should validate the cache store namespace', () => {
+      const cacheStore = new InMemoryRemoteJwksCacheStore();
+      for (const cacheStoreNamespace of ['', '  ', 42]) {
+        // @ts-expect-error - Testing invalid input
+        expect(() => new JWKSClient({ jwksUri, cacheStore, cacheStoreNamespace }))
+          .toThrow('The JWKS cache store namespace must be a non-empty string.');
+      }
+      const resolveJwksUri = (): Promise<string> => Promise.resolve(jwksUri);
+      expect(() => new JWKSClient({ jwksUri: resolveJwksUri, cacheStore }))
+        .toThrow('A JWKS cache store namespace is required when the JWKS URI is resolved by a function.');
+      expect(() => new JWKSClient({ jwksUri: resolveJwksUri })).not.toThrow();
+    });
+  });
+
+  describe('key snapshots', () => {
+    const jwksUri = 'https://test.example.com/jwks';
+    const jwksResponse = { ok: true, json: async () => VALID_JWKS_RESPONSE } as Response;
+    let now: number;
+    const clock = (): number => now;
+
+    beforeEach(() => {
+      now = 1_000_000;
+    });
+
+    it('should export the cached keys with their fetch time, most recently used first', async () => {
+      const client = new JWKSClient({ jwksUri, clock, fetch: jest.fn().mockResolvedValue(jwksResponse) });
+      expect(client.exportKeySnapshot()).toEqual({ version: 1, keys: [] });
+
+      await client.getSigningKey('test-key-id', 'RS256');
+      now += 1000;
+      await client.getSigningKey('test-key-id', 'RS256');
+      const { n, e } = VALID_JWK;
+      expect(client.exportKeySnapshot()).toEqual({
+        version: 1,
+        keys: [
+          { jwk: { kty: 'RSA', kid: 'test-key-id', n, e }, fetchedAt: 1_000_000 },
+          { jwk: { kty: 'RSA', kid: 'another-key-id', n, e }, fetchedAt: 1_000_000 },
+        ],
       });
-      
-      // Cache should not be instantiated yet
-      // @ts-expect-error - Accessing private property for testing
-      expect(client.cache).toBeNull();
-      
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: async () => VALID_JWKS_RESPONSE
-      } as Response);
-      
-      // This should trigger cache creation
-      await client.getSigningKey('test-key-id');
-      
-      // Cache should now be instantiated
-      // @ts-expect-error - Accessing private property for testing
-      expect(client.cache).not.toBeNull();
     });
 
-    it('should lazy-load cache on clear call', () => {
+    it('should export the key algorithm and the expiration time advertised by the JWKS endpoint', async () => {
+      const jwk = { ...VALID_JWK, alg: 'RS256' };
       const client = new JWKSClient({
-        jwksUri: 'https://test.example.com/jwks',
-        cacheMaxSize: 10
+        jwksUri,
+        clock,
+        fetch: jest.fn().mockResolvedValue({
+          ok: true, status: 200, headers: new Headers({ 'Cache-Control': 'max-age=600' }), json: async () => ({ keys: [jwk] })
+        }),
       });
-      
-      // Cache should not be instantiated yet
-      // @ts-expect-error - Accessing private property for testing
-      expect(client.cache).toBeNull();
-      
-      // This should trigger cache creation
-      client.clear();
-      
-      // Cache should now be instantiated
-      // @ts-expect-error - Accessing private property for testing
-      expect(client.cache).not.toBeNull();
+
+      await client.getSigningKey('test-key-id', 'RS256');
+      expect(client.exportKeySnapshot().keys).toEqual([{
+        jwk: { kty: 'RSA', kid: 'test-key-id', alg: 'RS256', n: jwk.n, e: jwk.e },
+        fetchedAt: 1_000_000,
+        expiresAt: 1_600_000,
+      }]);
     });
-  });
 
-  describe('getSigningKey', () => {
-    let client: JWKSClient;
+    it('should update the fetch time when a background refresh returns the same keys', async () => {
+      const client = new JWKSClient({ jwksUri, clock, fetch: jest.fn().mockResolvedValue(jwksResponse) });
+      await client.start();
+      now += 5000;
+      client.stop();
+      await client.start();
+      client.stop();
 
-    beforeEach(() => {
-      client = new JWKSClient({
-        jwksUri: 'https://test.example.com/jwks',
-        cacheMaxSize: 10
+      expect(client.exportKeySnapshot().keys.map(key => key.fetchedAt)).toEqual([1_005_000, 1_005_000]);
+    });
+
+    it('should start with the keys of a snapshot, without fetching the JWKS', async () => {
+      const exportingClient = new JWKSClient({ jwksUri, clock, fetch: jest.fn().mockResolvedValue(jwksResponse) });
+      await exportingClient.getSigningKey('test-key-id', 'RS256');
+      const keySnapshot = JSON.parse(JSON.stringify(exportingClient.exportKeySnapshot()));
+
+      now += 60000;
+      const customFetch = jest.fn().mockResolvedValue(jwksResponse);
+      const client = new JWKSClient({ jwksUri, clock, fetch: customFetch, keySnapshot });
+      await expect(client.getSigningKey('test-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      await expect(client.getSigningKey('another-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      expect(customFetch).not.toHaveBeenCalled();
+      // The restored keys keep their fetch time and order, and expire once the cache max TTL has elapsed since then
+      expect(client.exportKeySnapshot()).toEqual({
+        version: 1,
+        keys: [...keySnapshot.keys].reverse().map(key => ({ ...key, expiresAt: 1_000_000 + 86400000 })),
       });
     });
 
-    describe('successful key retrieval', () => {
-      it('should fetch and return a valid signing key', async () => {
-        mockFetch.mockResolvedValueOnce({
-          ok: true,
-          json: async () => VALID_JWKS_RESPONSE
-        } as Response);
+    it('should fetch snapshot keys again once the cache TTL has elapsed since they were fetched', async () => {
+      const customFetch = jest.fn().mockResolvedValue(jwksResponse);
+      const keySnapshot = {
+        version: 1 as const,
+        keys: [
+          { jwk: VALID_JWK, fetchedAt: now - 50000 },
+          { jwk: VALID_JWKS_RESPONSE.keys[1], fetchedAt: now - 60000 },
+        ],
+      };
+      const client = new JWKSClient({ jwksUri, clock, fetch: customFetch, keySnapshot, cacheTtl: 60000 });
 
-        const key = await client.getSigningKey('test-key-id');
-        
-        expect(key).toMatch(/^-----BEGIN PUBLIC KEY-----/);
-        expect(key).toMatch(/-----END PUBLIC KEY-----$/);
-        expect(mockFetch).toHaveBeenCalledWith('https://test.example.com/jwks');
-      });
+      await client.getSigningKey('test-key-id', 'RS256');
+      expect(customFetch).not.toHaveBeenCalled();
+      await client.getSigningKey('another-key-id', 'RS256');
+      expect(customFetch).toHaveBeenCalledTimes(1);
+    });
 
-      it('should return cached key on subsequent requests', async () => {
-        mockFetch.mockResolvedValueOnce({
-          ok: true,
-          json: async () => VALID_JWKS_RESPONSE
-        } as Response);
+    it('should fetch snapshot keys older than the cache max TTL again when no cache TTL is set', async () => {
+      const customFetch = jest.fn().mockResolvedValue(jwksResponse);
+      const keySnapshot = { version: 1 as const, keys: [{ jwk: VALID_JWK, fetchedAt: now - 3600000 }] };
+      const client = new JWKSClient({ jwksUri, clock, fetch: customFetch, keySnapshot, cacheMaxTtl: 3600000 });
 
-        // First call - should fetch
-        const key1 = await client.getSigningKey('test-key-id');
-        
-        // Second call - should use cache
-        const key2 = await client.getSigningKey('test-key-id');
-        
-        expect(key1).toBe(key2);
-        expect(mockFetch).toHaveBeenCalledTimes(1);
-        expect(client.getCacheStats().size).toBe(1);
-      });
+      await client.getSigningKey('test-key-id', 'RS256');
+      expect(customFetch).toHaveBeenCalledTimes(1);
+    });
 
-      it('should handle multiple different keys', async () => {
-        mockFetch.mockResolvedValueOnce({
-          ok: true,
-          json: async () => VALID_JWKS_RESPONSE
-        } as Response);
+    it('should fetch the JWKS for keys missing from the snapshot', async () => {
+      const customFetch = jest.fn().mockResolvedValue(jwksResponse);
+      const keySnapshot = { version: 1 as const, keys: [{ jwk: VALID_JWK, fetchedAt: now }] };
+      const client = new JWKSClient({ jwksUri, clock, fetch: customFetch, keySnapshot });
 
-        const key1 = await client.getSigningKey('test-key-id');
-        
-        mockFetch.mockResolvedValueOnce({
-          ok: true,
-          json: async () => VALID_JWKS_RESPONSE
-        } as Response);
+      await client.getSigningKey('test-key-id', 'RS256');
+      expect(customFetch).not.toHaveBeenCalled();
+      await client.getSigningKey('another-key-id', 'RS256');
+      expect(customFetch).toHaveBeenCalledTimes(1);
+    });
 
-        const key2 = await client.getSigningKey('another-key-id');
-        
-        // Both should be valid PEM keys
-        expect(key1).toMatch(/^-----BEGIN PUBLIC KEY-----/);
-        expect(key2).toMatch(/^-----BEGIN PUBLIC KEY-----/);
-        expect(mockFetch).toHaveBeenCalledTimes(2); // Different keys require separate fetches
-        expect(client.getCacheStats().size).toBe(2); // Two separate cache entries
-      });
+    it('should skip expired, invalid and malformed snapshot entries', async () => {
+      const keySnapshot = {
+        version: 1 as const,
+        keys: [
+          { jwk: VALID_JWK, fetchedAt: now - 600000, expiresAt: now },
+          { jwk: WEAK_JWK, fetchedAt: now },
+          { jwk: { ...VALID_JWK, kid: '' }, fetchedAt: now },
+          { jwk: { ...VALID_JWK, kid: 'no-fetch-time' } },
+          { jwk: { ...VALID_JWK, kid: 'bad-expiry' }, fetchedAt: now, expiresAt: 'tomorrow' },
+          null,
+          { ...VALID_JWKS_RESPONSE.keys[1], fetchedAt: now },
+          { jwk: VALID_JWKS_RESPONSE.keys[1], fetchedAt: now, expiresAt: now + 1000 },
+        ],
+      };
+      // @ts-expect-error - Testing invalid entries
+      const client = new JWKSClient({ jwksUri, clock, fetch: jest.fn().mockResolvedValue(jwksResponse), keySnapshot });
+
+      expect(client.exportKeySnapshot().keys).toEqual([
+        { jwk: expect.objectContaining({ kid: 'another-key-id' }), fetchedAt: now, expiresAt: now + 1000 },
+      ]);
+      now += 1001;
+      expect(client.exportKeySnapshot().keys).toEqual([]);
     });
 
-    describe('network error handling with retry logic', () => {
-      it('should retry on HTTP error response and eventually succeed', async () => {
-        // First two attempts return 500, third succeeds
-        mockFetch
-          .mockResolvedValueOnce({ ok: false, status: 500, statusText: 'Internal Server Error' } as Response)
-          .mockResolvedValueOnce({ ok: false, status: 500, statusText: 'Internal Server Error' } as Response)
-          .mockResolvedValueOnce({ ok: true, json: async () => VALID_JWKS_RESPONSE } as Response);
+    it('should validate the key snapshot', () => {
+      for (const keySnapshot of [null, [], { keys: [] }, { version: 2, keys: [] }, { version: 1, keys: {} }]) {
+        // @ts-expect-error - Testing invalid input
+        expect(() => new JWKSClient({ jwksUri, keySnapshot }))
+          .toThrow('The JWKS key snapshot must be a snapshot exported by exportKeySnapshot().');
+      }
+    });
+  });
 
-        const key = await client.getSigningKey('test-key-id');
-        expect(key).toMatch(/^-----BEGIN PUBLIC KEY-----/);
-        expect(mockFetch).toHaveBeenCalledTimes(3);
-      });
+  describe('static key sets', () => {
+    const jwksUri = 'https://test.example.com/jwks';
+    const toPem = async (publicKey: CryptoKey): Promise<string> => {
+      const spki = Buffer.from(await crypto.subtle.exportKey('spki', publicKey)).toString('base64');
+      return `-----BEGIN PUBLIC KEY-----\n${spki.match(/.{1,64}/g)?.join('\n')}\n-----END PUBLIC KEY-----`;
+    };
+    let tempDir: string;
 
-      it('should fail after all 3 retry attempts are exhausted', async () => {
-        const startTime = Date.now();
+    beforeAll(async () => {
+      tempDir = await mkdtemp(join(tmpdir(), 'jwks-'));
+    });
 
-        mockFetch
-          .mockRejectedValueOnce(new Error('Network error'))
-          .mockRejectedValueOnce(new Error('Network error'))
-          .mockRejectedValueOnce(new Error('Network error'));
+    afterAll(async () => {
+      await rm(tempDir, { recursive: true, force: true });
+    });
 
-        await expect(client.getSigningKey('test-key-id'))
-          .rejects.toThrow('Failed to fetch JWKS after 3 attempts: Network error');
-        
-        expect(mockFetch).toHaveBeenCalledTimes(3);
-        // should respect retry delay timing - 2 delays of 100ms each
-        const elapsed = Date.now() - startTime;
-        expect(elapsed).toBeGreaterThanOrEqual(200);
+    it('should serve keys from an inline key set without contacting the JWKS endpoint', async () => {
+      const client = new JWKSClient({ jwksUri, staticJwks: VALID_JWKS_RESPONSE });
+
+      await expect(client.getSigningKey('test-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      await expect(client.getSigningKey('another-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      await expect(client.getSigningKey('missing-key-id', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.KEY_NOT_FOUND,
       });
+      expect(mockFetch).not.toHaveBeenCalled();
     });
 
-    describe('key validation errors', () => {
-      it('should throw when key ID is not found', async () => {
-        mockFetch.mockResolvedValueOnce({
-          ok: true,
-          json: async () => VALID_JWKS_RESPONSE
-        } as Response);
+    it('should apply the same key validation as fetched keys', async () => {
+      const client = new JWKSClient({ jwksUri, staticJwks: { keys: [WEAK_JWK] } });
 
-        await expect(client.getSigningKey('nonexistent-key-id'))
-          .rejects.toThrow("Unable to find a signing key that matches 'nonexistent-key-id'");
+      await expect(client.getSigningKey(WEAK_JWK.kid, 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.INVALID_KEY,
+        message: 'RSA key too weak: 1024 bits. 2048 bits minimum required.',
       });
+    });
 
-      it('should throw when key is not RSA', async () => {
-        const ecJwks = {
-          keys: [{
-            kty: 'EC',
-            kid: 'ec-key-id',
-            crv: 'P-256'
-          }]
-        };
+    it('should read the key set from a JSON file once', async () => {
+      const path = join(tempDir, 'jwks.json');
+      await writeFile(path, JSON.stringify(VALID_JWKS_RESPONSE));
+      const client = new JWKSClient({ jwksUri, staticJwks: { path }, cacheMaxSize: 1, refetchInterval: 0 });
+
+      await expect(client.getSigningKey('test-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      await rm(path);
+      // The evicted key is reloaded from the key set read earlier
+      await expect(client.getSigningKey('another-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      await expect(client.getSigningKey('test-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
 
-        mockFetch.mockResolvedValueOnce({
-          ok: true,
-          json: async () => ecJwks
-        } as Response);
+    it('should fail with jwks_unavailable when the JSON file is missing or invalid, and retry the next time', async () => {
+      const path = join(tempDir, 'later.json');
+      const client = new JWKSClient({ jwksUri, staticJwks: { path } });
 
-        await expect(client.getSigningKey('ec-key-id'))
-          .rejects.toThrow('Only RSA keys are supported');
+      await expect(client.getSigningKey('test-key-id', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+        message: expect.stringMatching(/^Failed to read JWKS from .*later\.json: .*ENOENT/),
       });
 
-      it('should throw when JWK is missing required parameters', async () => {
-        const invalidJwks = {
-          keys: [{
-            kty: 'RSA',
-            kid: 'invalid-key-id'
-            // Missing 'n' and 'e' parameters
-          }]
-        };
+      await writeFile(path, JSON.stringify({ notKeys: [] }));
+      await expect(client.getSigningKey('test-key-id', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+        message: `Invalid JWKS in ${path}: missing keys array`,
+      });
 
-        mockFetch.mockResolvedValueOnce({
-          ok: true,
-          json: async () => invalidJwks
-        } as Response);
+      await writeFile(path, JSON.stringify(VALID_JWKS_RESPONSE));
+      await expect(client.getSigningKey('test-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+    });
 
-        await expect(client.getSigningKey('invalid-key-id'))
-          .rejects.toThrow('Invalid JWK: missing n or e parameters');
+    it('should convert PEM-encoded public keys keyed by kid', async () => {
+      const rsaKeyPair = await crypto.subtle.generateKey(
+        { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+        true,
+        ['sign', 'verify']
+      );
+      const ecKeyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+      const client = new JWKSClient({
+        jwksUri,
+        staticJwks: { pem: { 'rsa-key': await toPem(rsaKeyPair.publicKey), 'ec-key': await toPem(ecKeyPair.publicKey) } },
       });
 
-      it('should throw when RSA key is too weak', async () => {
-        const weakJwks = {
-          keys: [WEAK_JWK]
-        };
+      const data = 'header.payload';
+      const signature = Buffer.from(await crypto.subtle.sign(
+        { name: 'ECDSA', hash: 'SHA-256' }, ecKeyPair.privateKey, new TextEncoder().encode(data)
+      )).toString('base64url');
+      const ecKey = await client.getSigningKey('ec-key', 'ES256');
+      await expect(verifySignature('ES256', data, signature, ecKey)).resolves.toBe(true);
+      // PEM keys don't declare an algorithm, so RSA keys can be used with any RSA algorithm
+      await expect(client.getSigningKey('rsa-key', 'PS512')).resolves.toMatchObject({ type: 'public' });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
 
-        mockFetch.mockResolvedValueOnce({
-          ok: true,
-          json: async () => weakJwks
-        } as Response);
+    it('should reject weak or unparseable PEM-encoded keys', async () => {
+      const { publicKey } = await crypto.subtle.generateKey(
+        { name: 'RSASSA-PKCS1-v1_5', modulusLength: 1024, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+        true,
+        ['sign', 'verify']
+      );
+      const weakClient = new JWKSClient({ jwksUri, staticJwks: { pem: { 'weak-key': await toPem(publicKey) } } });
+      await expect(weakClient.getSigningKey('weak-key', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.INVALID_KEY,
+        message: 'RSA key too weak: 1024 bits. 2048 bits minimum required.',
+      });
 
-        await expect(client.getSigningKey('weak-key-id'))
-          .rejects.toThrow('RSA key too weak');
+      const invalidClient = new JWKSClient({ jwksUri, staticJwks: { pem: { 'bad-key': 'not a pem' } } });
+      await expect(invalidClient.getSigningKey('bad-key', 'RS256')).rejects.toMatchObject({
+        code: JwtValidationErrorCode.INVALID_KEY,
+        message: "Invalid PEM public key for 'bad-key': Invalid PEM format - missing headers",
       });
     });
 
-    describe('empty JWKS responses', () => {
-      it('should handle empty key set', async () => {
-        mockFetch.mockResolvedValueOnce({
-          ok: true,
-          json: async () => ({ keys: [] })
-        } as Response);
+    it('should load the key set on start()', async () => {
+      const client = new JWKSClient({ jwksUri, staticJwks: VALID_JWKS_RESPONSE });
 
-        await expect(client.getSigningKey('any-key-id'))
-          .rejects.toThrow("Unable to find a signing key that matches 'any-key-id'");
-      });
+      await client.start();
+      client.stop();
+      expect(client.getCacheStats().size).toBe(2);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
 
-      it('should handle malformed JWKS response', async () => {
-        mockFetch.mockResolvedValueOnce({
-          ok: true,
-          json: async () => ({ notKeys: [] })
-        } as Response);
+    it('should swap the key set when a watched file changes, until stop()', async () => {
+      const dir = await mkdtemp(join(tempDir, 'watched-'));
+      const path = join(dir, 'jwks.json');
+      const [testKey, anotherKey] = VALID_JWKS_RESPONSE.keys;
+      await writeFile(path, JSON.stringify({ keys: [testKey] }));
+      const client = new JWKSClient({ jwksUri, staticJwks: { path, watch: true } });
+      const hasKey = (kid: string): Promise<boolean> => client.getSigningKey(kid, 'RS256').then(() => true, () => false);
+      const waitFor = async (condition: () => Promise<boolean>): Promise<void> => {
+        for (let attempt = 0; attempt < 100 && !await condition(); attempt++) {
+          await new Promise(resolve => setTimeout(resolve, 20));
+        }
+      };
 
-        await expect(client.getSigningKey('any-key-id'))
-          .rejects.toThrow(); // Should throw when trying to access .keys
-      });
+      await client.start();
+      try {
+        await expect(client.getSigningKey('another-key-id', 'RS256')).rejects.toMatchObject({
+          code: JwtValidationErrorCode.KEY_NOT_FOUND,
+        });
+
+        await writeFile(path, JSON.stringify({ keys: [anotherKey] }));
+        await waitFor(() => hasKey('another-key-id'));
+        // Keys removed from the file are dropped, and previously unknown key IDs are looked up again
+        await expect(client.getSigningKey('another-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+        expect(client.getCacheStats().size).toBe(1);
+        await expect(client.getSigningKey('test-key-id', 'RS256')).rejects.toMatchObject({
+          code: JwtValidationErrorCode.KEY_NOT_FOUND,
+        });
+      } finally {
+        client.stop();
+      }
+
+      await writeFile(path, JSON.stringify({ keys: [testKey, anotherKey] }));
+      await new Promise(resolve => setTimeout(resolve, 300));
+      await expect(hasKey('test-key-id')).resolves.toBe(false);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should fail to start when the watched file\'s directory does not exist', async () => {
+      const path = join(tempDir, 'missing', 'jwks.json');
+      const client = new JWKSClient({ jwksUri, staticJwks: { path, watch: true } });
+
+      await expect(client.start()).rejects.toThrow(/ENOENT/);
+
+      // The client can be started once the directory exists
+      await mkdir(join(tempDir, 'missing'));
+      await writeFile(path, JSON.stringify(VALID_JWKS_RESPONSE));
+      await client.start();
+      client.stop();
+      expect(client.getCacheStats().size).toBe(2);
+    });
+
+    it('should validate the static key set', () => {
+      const message = 'The static JWKS must be a key set, a { path } to a JSON key set, or a { pem } map keyed by kid.';
+      for (const staticJwks of [null, 'jwks.json', { keys: 'none' }, { path: ' ' }, { pem: { kid: 42 } }, {}]) {
+        // @ts-expect-error - Testing invalid input
+        expect(() => new JWKSClient({ jwksUri, staticJwks })).toThrow(message);
+      }
     });
   });
 
@@ -370,8 +2134,8 @@ describe('JWKSClient', () => {
         json: async () => VALID_JWKS_RESPONSE
       } as Response);
 
-      await client.getSigningKey('test-key-id');
-      await client.getSigningKey('another-key-id');
+      await client.getSigningKey('test-key-id', 'RS256');
+      await client.getSigningKey('another-key-id', 'RS256');
       
       expect(client.getCacheStats().size).toBe(2);
       
@@ -385,7 +2149,8 @@ describe('JWKSClient', () => {
         json: async () => VALID_JWKS_RESPONSE
       } as Response);
 
-      // Add keys beyond cache size
+      // Add keys beyond cache size, refetching the JWKS for each one
+      client = new JWKSClient({ jwksUri: 'https://test.example.com/jwks', cacheMaxSize: 3, refetchInterval: 0 });
       for (let i = 0; i < 5; i++) {
         mockFetch.mockResolvedValueOnce({
           ok: true,
@@ -399,7 +2164,7 @@ describe('JWKSClient', () => {
           })
         } as Response);
         
-        await client.getSigningKey(`key-${i}`);
+        await client.getSigningKey(`key-${i}`, 'RS256');
       }
       
       // Should not exceed maxSize
@@ -416,15 +2181,15 @@ describe('JWKSClient', () => {
         json: async () => VALID_JWKS_RESPONSE
       } as Response);
 
-      await client.getSigningKey('test-key-id');
+      await client.getSigningKey('test-key-id', 'RS256');
       
       const stats2 = client.getCacheStats();
-      expect(stats2.size).toBe(1);
+      expect(stats2.size).toBe(2);
       expect(stats2.maxSize).toBe(3);
     });
   });
 
-  describe('PEM conversion', () => {
+  describe('key import', () => {
     let client: JWKSClient;
 
     beforeEach(() => {
@@ -434,29 +2199,97 @@ describe('JWKSClient', () => {
       });
     });
 
-    it('should produce properly formatted PEM', async () => {
+    it('should return a non-extractable, verify-only CryptoKey', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: async () => VALID_JWKS_RESPONSE
       } as Response);
 
-      const pem = await client.getSigningKey('test-key-id');
-      
-      expect(pem).toMatch(/^-----BEGIN PUBLIC KEY-----\n/);
-      expect(pem).toMatch(/\n-----END PUBLIC KEY-----$/);
-      
-      // Should have proper line breaks (64 chars per line in body)
-      const lines = pem.split('\n');
-      expect(lines[0]).toBe('-----BEGIN PUBLIC KEY-----');
-      expect(lines[lines.length - 1]).toBe('-----END PUBLIC KEY-----');
-      
-      // Body lines should be <= 64 characters
-      for (let i = 1; i < lines.length - 1; i++) {
-        expect(lines[i].length).toBeLessThanOrEqual(64);
+      const key = await client.getSigningKey('test-key-id', 'RS256');
+
+      expect(key.type).toBe('public');
+      expect(key.extractable).toBe(false);
+      expect(key.usages).toEqual(['verify']);
+      expect(key.algorithm).toMatchObject({ name: 'RSASSA-PKCS1-v1_5', hash: { name: 'SHA-256' } });
+    });
+
+    it('should import cached keys only once per algorithm', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => VALID_JWKS_RESPONSE
+      } as Response);
+      const importKeySpy = jest.spyOn(crypto.subtle, 'importKey');
+
+      const rs256Key = await client.getSigningKey('test-key-id', 'RS256');
+      const ps256Key = await client.getSigningKey('test-key-id', 'PS256');
+
+      expect(await client.getSigningKey('test-key-id', 'RS256')).toBe(rs256Key);
+      expect(await client.getSigningKey('test-key-id', 'PS256')).toBe(ps256Key);
+      expect(ps256Key.algorithm).toMatchObject({ name: 'RSA-PSS', hash: { name: 'SHA-256' } });
+      expect(importKeySpy).toHaveBeenCalledTimes(2);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      importKeySpy.mockRestore();
+    });
+
+    it('should import the signing key once across repeated signature verifications', async () => {
+      const keyPair = await crypto.subtle.generateKey(
+        { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+        true,
+        ['sign', 'verify']
+      );
+      const { kty, n, e } = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ keys: [{ kty, n, e, kid: 'cached-key-id' }] })
+      } as Response);
+      const data = new TextEncoder().encode('header.payload');
+      const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', keyPair.privateKey, data);
+      const signatureB64 = btoa(String.fromCharCode(...new Uint8Array(signature)))
+        .replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
+      const importKeySpy = jest.spyOn(crypto.subtle, 'importKey');
+
+      for (let i = 0; i < 50; i++) {
+        const key = await client.getSigningKey('cached-key-id', 'RS256');
+        expect(await verifySignature('RS256', 'header.payload', signatureB64, key)).toBe(true);
       }
+      expect(importKeySpy).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      importKeySpy.mockRestore();
+    });
+
+    it('should only import the public members of the JWK', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ keys: [{ ...VALID_JWK, alg: 'RS256', key_ops: ['verify'], ext: true }] })
+      } as Response);
+      const importKeySpy = jest.spyOn(crypto.subtle, 'importKey');
+
+      await client.getSigningKey('test-key-id', 'RS256');
+
+      expect(importKeySpy).toHaveBeenCalledWith(
+        'jwk', { kty: 'RSA', n: VALID_JWK.n, e: VALID_JWK.e }, expect.anything(), false, ['verify']
+      );
+      importKeySpy.mockRestore();
+    });
+
+    it('should throw JwksError with invalid_key code when the key can\'t be imported', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => VALID_JWKS_RESPONSE
+      } as Response);
+      const importKeySpy = jest.spyOn(crypto.subtle, 'importKey').mockRejectedValueOnce(new Error('Invalid keyData'));
+
+      await expect(client.getSigningKey('test-key-id', 'RS256')).rejects.toMatchObject({
+        name: 'JwksError',
+        code: JwtValidationErrorCode.INVALID_KEY,
+        message: 'Failed to import signing key \'test-key-id\': Invalid keyData',
+      });
+      importKeySpy.mockRestore();
     });
 
-    it('should handle edge cases in JWK conversion', async () => {
+    it('should handle edge cases in JWK import', async () => {
       const edgeCaseJwk = {
         keys: [{
           kty: 'RSA',
@@ -472,8 +2305,8 @@ describe('JWKSClient', () => {
         json: async () => edgeCaseJwk
       } as Response);
 
-      const pem = await client.getSigningKey('edge-case-key');
-      expect(pem).toMatch(/^-----BEGIN PUBLIC KEY-----/);
+      const key = await client.getSigningKey('edge-case-key', 'RS256');
+      expect(key.type).toBe('public');
     });
 
     it('should handle JWK with minimal parameters', async () => {
@@ -492,12 +2325,12 @@ describe('JWKSClient', () => {
         json: async () => minimalJwk
       } as Response);
 
-      const pem = await client.getSigningKey('minimal-key');
-      expect(pem).toMatch(/^-----BEGIN PUBLIC KEY-----/);
+      const key = await client.getSigningKey('minimal-key', 'RS256');
+      expect(key.type).toBe('public');
     });
   });
 
-  describe('ASN.1 encoding edge cases', () => {
+  describe('RSA modulus edge cases', () => {
     let client: JWKSClient;
 
     beforeEach(() => {
@@ -516,7 +2349,7 @@ describe('JWKSClient', () => {
           n: ((): string => {
             const bytes = new Uint8Array(256); // 2048 bits
             bytes.fill(0x41);
-            bytes[0] = 0x80; // Set MSB to trigger padding in ASN.1 encoding
+            bytes[0] = 0x80; // Set MSB, which must not be read as a negative integer
             return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
           })(),
           e: 'AQAB'
@@ -528,8 +2361,8 @@ describe('JWKSClient', () => {
         json: async () => msbSetJwk
       } as Response);
 
-      const pem = await client.getSigningKey('msb-set-key');
-      expect(pem).toMatch(/^-----BEGIN PUBLIC KEY-----/);
+      const key = await client.getSigningKey('msb-set-key', 'RS256');
+      expect(key.type).toBe('public');
     });
 
     it('should handle various key sizes', async () => {
@@ -548,8 +2381,8 @@ describe('JWKSClient', () => {
         json: async () => largeKeyJwk
       } as Response);
 
-      const pem = await client.getSigningKey('large-key');
-      expect(pem).toMatch(/^-----BEGIN PUBLIC KEY-----/);
+      const key = await client.getSigningKey('large-key', 'RS256');
+      expect(key.type).toBe('public');
     });
   });
 
@@ -571,7 +2404,7 @@ describe('JWKSClient', () => {
 
       // Make multiple concurrent requests for the same key
       const promises = Array(5).fill(0).map(() => 
-        client.getSigningKey('test-key-id')
+        client.getSigningKey('test-key-id', 'RS256')
       );
 
       const keys = await Promise.all(promises);
@@ -579,9 +2412,9 @@ describe('JWKSClient', () => {
       // All should return the same key
       expect(keys.every(key => key === keys[0])).toBe(true);
       
-      // Should only have made one network request due to caching
-      // Note: This test might be flaky due to timing, but generally should work
-      expect(client.getCacheStats().size).toBe(1);
+      // Should only have made one network request, shared by all concurrent callers
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(client.getCacheStats().size).toBe(2);
     });
 
     it('should handle concurrent requests for different keys', async () => {
@@ -591,16 +2424,79 @@ describe('JWKSClient', () => {
       } as Response);
 
       // Make concurrent requests for different keys
-      const promise1 = client.getSigningKey('test-key-id');
-      const promise2 = client.getSigningKey('another-key-id');
+      const promise1 = client.getSigningKey('test-key-id', 'RS256');
+      const promise2 = client.getSigningKey('another-key-id', 'RS256');
 
       const [key1, key2] = await Promise.all([promise1, promise2]);
       
-      // Both keys exist (they might be the same PEM if moduli are identical)
-      expect(key1).toMatch(/^-----BEGIN PUBLIC KEY-----/);
-      expect(key2).toMatch(/^-----BEGIN PUBLIC KEY-----/);
+      // Both keys are imported (the fixtures share a modulus, but are cached separately by kid)
+      expect(key1.type).toBe('public');
+      expect(key2.type).toBe('public');
+      expect(key1).not.toBe(key2);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
       expect(client.getCacheStats().size).toBe(2); // Different cache entries by kid
     });
+
+    it('should share a single in-flight JWKS fetch among concurrent cache misses', async () => {
+      let resolveFetch: (response: Response) => void = () => {};
+      mockFetch.mockReturnValueOnce(new Promise<Response>((resolve) => {
+        resolveFetch = resolve;
+      }));
+
+      const promises = ['test-key-id', 'another-key-id', 'test-key-id'].map(kid => client.getSigningKey(kid, 'RS256'));
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      resolveFetch({ ok: true, json: async () => VALID_JWKS_RESPONSE } as Response);
+      const [key1, key2, key3] = await Promise.all(promises);
+
+      expect(key1).toBe(key3);
+      expect(key2.type).toBe('public');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject all concurrent callers when the shared fetch fails, then fetch again', async () => {
+      mockFetch.mockRejectedValue(new Error('Network error'));
+
+      const results = await Promise.allSettled([
+        client.getSigningKey('test-key-id', 'RS256'),
+        client.getSigningKey('another-key-id', 'RS256'),
+      ]);
+
+      expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+      expect(mockFetch).toHaveBeenCalledTimes(3); // One fetch with 3 attempts
+
+      mockFetch.mockReset();
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => VALID_JWKS_RESPONSE } as Response);
+      await expect(client.getSigningKey('test-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cache valid keys from a key set that also contains invalid keys', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ keys: [{ kty: 'oct', kid: 'oct-key-id', k: 'secret' }, WEAK_JWK, VALID_JWK] })
+      } as Response);
+
+      await expect(client.getSigningKey('test-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(client.getCacheStats().size).toBe(1);
+
+      // Invalid keys are never cached, and still report why they were rejected when requested
+      await expect(client.getSigningKey('oct-key-id', 'RS256'))
+        .rejects.toThrow('Unsupported key type \'oct\'. Only RSA, EC and OKP keys are supported');
+      await expect(client.getSigningKey('weak-key-id', 'RS256'))
+        .rejects.toThrow('RSA key too weak: 1024 bits. 2048 bits minimum required.');
+      expect(client.getCacheStats().size).toBe(1);
+    });
+
+    it('should return the requested key when the key set is larger than the cache', async () => {
+      const smallClient = new JWKSClient({ jwksUri: 'https://test.example.com/jwks', cacheMaxSize: 1 });
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => VALID_JWKS_RESPONSE } as Response);
+
+      await expect(smallClient.getSigningKey('test-key-id', 'RS256')).resolves.toMatchObject({ type: 'public' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(smallClient.getCacheStats().size).toBe(1);
+    });
   });
 
   describe('factory function', () => {
@@ -642,14 +2538,14 @@ describe('JWKSClient', () => {
         .mockRejectedValueOnce(new Error('Network error'))
         .mockRejectedValueOnce(new Error('Network error'));
 
-      await expect(client.getSigningKey('test-key-id'))
+      await expect(client.getSigningKey('test-key-id', 'RS256'))
         .rejects.toThrow('Failed to fetch JWKS after 3 attempts: Network error');
 
       // Second request succeeds on first try
       mockFetch.mockResolvedValueOnce({ ok: true, json: async () => VALID_JWKS_RESPONSE } as Response);
 
-      const key = await client.getSigningKey('test-key-id');
-      expect(key).toMatch(/^-----BEGIN PUBLIC KEY-----/);
+      const key = await client.getSigningKey('test-key-id', 'RS256');
+      expect(key.type).toBe('public');
       expect(mockFetch).toHaveBeenCalledTimes(4); // 3 failed + 1 successful
     });
 
@@ -660,7 +2556,7 @@ describe('JWKSClient', () => {
         .mockRejectedValueOnce(new Error('Network error'))
         .mockRejectedValueOnce(new Error('Network error'));
 
-      await expect(client.getSigningKey('test-key-id'))
+      await expect(client.getSigningKey('test-key-id', 'RS256'))
         .rejects.toThrow('Failed to fetch JWKS after 3 attempts: Network error');
 
       expect(client.getCacheStats().size).toBe(0);
@@ -671,42 +2567,9 @@ describe('JWKSClient', () => {
         json: async () => VALID_JWKS_RESPONSE
       } as Response);
 
-      await client.getSigningKey('test-key-id');
+      await client.getSigningKey('test-key-id', 'RS256');
       expect(mockFetch).toHaveBeenCalledTimes(4); // 3 failed + 1 successful
-      expect(client.getCacheStats().size).toBe(1);
+      expect(client.getCacheStats().size).toBe(2);
     });
   });
 });
-
-describe('PEM formatting edge cases', () => {
-  it('should handle malformed base64 during PEM formatting', async () => {
-    // Mock a scenario where base64 formatting could fail
-    const originalMatch = String.prototype.match;
-    String.prototype.match = jest.fn().mockReturnValue(null);
-    
-    const client = new JWKSClient({
-      jwksUri: 'https://test.example.com/jwks',
-      cacheMaxSize: 10
-    });
-
-    const malformedJwks = {
-      keys: [{
-        kty: 'RSA',
-        kid: 'malformed-key',
-        n: create2048BitModulus(),
-        e: 'AQAB'
-      }]
-    };
-
-    mockFetch.mockResolvedValueOnce({
-      ok: true,
-      json: async () => malformedJwks
-    } as Response);
-
-    await expect(client.getSigningKey('malformed-key'))
-      .rejects.toThrow('Failed to format PEM body');
-    
-    // Restore original method
-    String.prototype.match = originalMatch;
-  });
-});
@@ -0,0 +1,186 @@
+/**
+ * Test suite for the JWKS key sources
+ * Tests loading static key sets and reloading watched key set files
+ */
+
+import { mkdtemp, rename, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createJwksSource, FileJwksSource, StaticJwksSource } from '../src/jwks-sources';
+import { JwtValidationErrorCode } from '../src/errors';
+import { JWKSResponse } from '../src/types';
+
+const jwks: JWKSResponse = { keys: [{ kty: 'RSA', kid: 'key-1', n: 'n1', e: 'AQAB' }] };
+const rotatedJwks: JWKSResponse = { keys: [{ kty: 'RSA', kid: 'key-2', n: 'n2', e: 'AQAB' }] };
+
+/**
+ * Polls until the condition holds, for up to 2 seconds, since file change events arrive asynchronously.
+ */
+const waitFor = async (condition: () => boolean): Promise<void> => {
+  for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+};
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('StaticJwksSource', () => {
+  it('should read the key set once', async () => {
+    const read = jest.fn().mockResolvedValue(jwks);
+    const source = new StaticJwksSource(read);
+
+    await expect(Promise.all([source.load(), source.load()])).resolves.toEqual([jwks, jwks]);
+    await expect(source.load()).resolves.toBe(jwks);
+    expect(read).toHaveBeenCalledTimes(1);
+  });
+
+  it('should read the key set again after a failed read', async () => {
+    const read = jest.fn().mockRejectedValueOnce(new Error('Not mounted yet')).mockResolvedValue(jwks);
+    const source = new StaticJwksSource(read);
+
+    await expect(source.load()).rejects.toThrow('Not mounted yet');
+    await expect(source.load()).resolves.toBe(jwks);
+    expect(read).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('FileJwksSource', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'jwks-source-'));
+    path = join(dir, 'jwks.json');
+    await writeFile(path, JSON.stringify(jwks));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read the file once and keep serving the key set read', async () => {
+    const source = new FileJwksSource(path);
+
+    await expect(source.load()).resolves.toEqual(jwks);
+    await rm(path);
+    await expect(source.load()).resolves.toEqual(jwks);
+  });
+
+  it('should fail with jwks_unavailable when the file is missing or invalid', async () => {
+    const missingSource = new FileJwksSource(join(dir, 'missing.json'));
+    await expect(missingSource.load()).rejects.toMatchObject({
+      code: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+      message: expect.stringMatching(/^Failed to read JWKS from .*missing\.json: .*ENOENT/),
+    });
+
+    await writeFile(path, '{ "keys": [');
+    const invalidSource = new FileJwksSource(path);
+    await expect(invalidSource.load()).rejects.toMatchObject({
+      code: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+      message: expect.stringMatching(/^Failed to read JWKS from .*jwks\.json: /),
+    });
+  });
+
+  it('should report the new key set when the file changes', async () => {
+    const source = new FileJwksSource(path, 10);
+    const listener = jest.fn();
+    await source.load();
+    const unwatch = await source.watch(listener);
+
+    try {
+      await writeFile(path, JSON.stringify(rotatedJwks));
+      await waitFor(() => listener.mock.calls.length > 0);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(rotatedJwks);
+      await expect(source.load()).resolves.toEqual(rotatedJwks);
+    } finally {
+      unwatch();
+    }
+  });
+
+  it('should pick up a file renamed over the watched one', async () => {
+    const source = new FileJwksSource(path, 10);
+    const listener = jest.fn();
+    await source.load();
+    const unwatch = await source.watch(listener);
+
+    try {
+      const nextPath = join(dir, 'jwks.json.tmp');
+      await writeFile(nextPath, JSON.stringify(rotatedJwks));
+      await rename(nextPath, path);
+      await waitFor(() => listener.mock.calls.length > 0);
+      expect(listener).toHaveBeenCalledWith(rotatedJwks);
+    } finally {
+      unwatch();
+    }
+  });
+
+  it('should keep the current key set when the file can\'t be parsed, or has not changed', async () => {
+    const source = new FileJwksSource(path, 10);
+    const listener = jest.fn();
+    await source.load();
+    const unwatch = await source.watch(listener);
+
+    try {
+      await writeFile(path, '{ "keys": [');
+      await writeFile(join(dir, 'other.json'), JSON.stringify(rotatedJwks));
+      await writeFile(path, JSON.stringify(jwks));
+      await sleep(200);
+      expect(listener).not.toHaveBeenCalled();
+      await expect(source.load()).resolves.toEqual(jwks);
+
+      await writeFile(path, JSON.stringify({ notKeys: [] }));
+      await sleep(200);
+      expect(listener).not.toHaveBeenCalled();
+
+      await writeFile(path, JSON.stringify(rotatedJwks));
+      await waitFor(() => listener.mock.calls.length > 0);
+      expect(listener).toHaveBeenCalledWith(rotatedJwks);
+    } finally {
+      unwatch();
+    }
+  });
+
+  it('should stop reporting changes once unwatched', async () => {
+    const source = new FileJwksSource(path, 10);
+    const listener = jest.fn();
+    await source.load();
+    const unwatch = await source.watch(listener);
+
+    unwatch();
+    await writeFile(path, JSON.stringify(rotatedJwks));
+    await sleep(200);
+    expect(listener).not.toHaveBeenCalled();
+    await expect(source.load()).resolves.toEqual(jwks);
+  });
+
+  it('should fail to watch a file in a directory that does not exist', async () => {
+    const source = new FileJwksSource(join(dir, 'missing', 'jwks.json'));
+
+    await expect(source.watch(jest.fn())).rejects.toThrow(/ENOENT/);
+  });
+});
+
+describe('createJwksSource', () => {
+  it('should create a static source for inline key sets, PEM keys and unwatched files', () => {
+    expect(createJwksSource(jwks)).toBeInstanceOf(StaticJwksSource);
+    expect(createJwksSource({ pem: {} })).toBeInstanceOf(StaticJwksSource);
+    expect(createJwksSource({ path: 'jwks.json' })).toBeInstanceOf(StaticJwksSource);
+    expect(createJwksSource({ path: 'jwks.json', watch: false })).toBeInstanceOf(StaticJwksSource);
+  });
+
+  it('should create a file source for watched files', () => {
+    expect(createJwksSource({ path: 'jwks.json', watch: true })).toBeInstanceOf(FileJwksSource);
+  });
+
+  it('should serve an inline key set as is', async () => {
+    await expect(createJwksSource(jwks).load()).resolves.toBe(jwks);
+  });
+
+  it('should validate the static key set option', () => {
+    const message = 'The static JWKS must be a key set, a { path } to a JSON key set, or a { pem } map keyed by kid.';
+    for (const staticJwks of [null, 'jwks.json', { keys: 'none' }, { path: ' ' }, { pem: { kid: 42 } }, {}]) {
+      // @ts-expect-error - Testing invalid input
+      expect(() => createJwksSource(staticJwks)).toThrow(message);
+    }
+  });
+});
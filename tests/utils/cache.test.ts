@@ -44,6 +44,11 @@ describe('LRUCache', () => {
       // Valid TTL should not throw
       expect(() => new LRUCache({ maxSize: 10, ttl: 100 })).not.toThrow();
     });
+
+    it('should throw error for non-function clock', () => {
+      expect(() => new LRUCache({ maxSize: 10, clock: 123 as any })).toThrow('clock must be a function (if specified)');
+      expect(() => new LRUCache({ maxSize: 10, clock: (): number => 0 })).not.toThrow();
+    });
   });
 
   describe('basic operations', () => {
@@ -390,6 +395,138 @@ describe('LRUCache', () => {
     });
   });
 
+  describe('TTL functionality with injected clock', () => {
+    let now: number;
+    let cache: LRUCache;
+
+    beforeEach(() => {
+      now = 1_700_000_000_000;
+      cache = new LRUCache({ maxSize: 5, ttl: 1000, clock: (): number => now });
+    });
+
+    it('should expire entries based on the injected clock', () => {
+      cache.set('key1', 'value1');
+
+      now += 1000;
+      expect(cache.get('key1')).toBe('value1'); // Exactly at TTL is still valid
+
+      now += 1001;
+      expect(cache.get('key1')).toBeUndefined();
+      expect(cache.size()).toBe(0);
+    });
+
+    it('should use the injected clock in has()', () => {
+      cache.set('key1', 'value1');
+
+      now += 5000;
+      expect(cache.has('key1')).toBe(false);
+    });
+
+    it('should not be affected by the real passage of time', async () => {
+      cache.set('key1', 'value1');
+
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(cache.get('key1')).toBe('value1');
+    });
+  });
+
+  describe('per-entry TTL', () => {
+    let now: number;
+    let cache: LRUCache;
+
+    beforeEach(() => {
+      now = 1_700_000_000_000;
+      cache = new LRUCache({ maxSize: 5, ttl: 1000, clock: (): number => now });
+    });
+
+    it('should expire an entry after its own TTL even when it keeps being accessed', () => {
+      cache.set('key1', 'value1', 1500);
+
+      now += 800;
+      expect(cache.get('key1')).toBe('value1');
+      now += 700;
+      expect(cache.get('key1')).toBe('value1'); // Exactly at TTL is still valid
+      now += 1;
+      expect(cache.get('key1')).toBeUndefined();
+      expect(cache.size()).toBe(0);
+    });
+
+    it('should take precedence over the cache TTL', () => {
+      cache.set('key1', 'value1', 5000);
+
+      now += 3000;
+      expect(cache.has('key1')).toBe(true);
+      now += 2001;
+      expect(cache.has('key1')).toBe(false);
+    });
+
+    it('should apply to caches without a TTL', () => {
+      const unboundedCache = new LRUCache({ maxSize: 5, clock: (): number => now });
+      unboundedCache.set('key1', 'value1', 100);
+      unboundedCache.set('key2', 'value2');
+
+      now += 101;
+      expect(unboundedCache.get('key1')).toBeUndefined();
+      expect(unboundedCache.get('key2')).toBe('value2');
+    });
+
+    it('should restart the TTL when an existing entry is set again, keeping its value', () => {
+      cache.set('key1', 'value1', 500);
+      now += 400;
+      cache.set('key1', 'value2', 500);
+
+      now += 400;
+      expect(cache.get('key1')).toBe('value1');
+      now += 101;
+      expect(cache.get('key1')).toBeUndefined();
+    });
+
+    it('should fall back to the cache TTL when an existing entry is set again without a TTL', () => {
+      cache.set('key1', 'value1', 100);
+      cache.set('key1', 'value1');
+
+      now += 1000;
+      expect(cache.get('key1')).toBe('value1');
+      now += 1001;
+      expect(cache.get('key1')).toBeUndefined();
+    });
+  });
+
+  describe('entries', () => {
+    it('should return entries from most to least recently used without updating access order', () => {
+      const cache = new LRUCache({ maxSize: 3 });
+
+      cache.set('key1', 'value1');
+      cache.set('key2', 'value2');
+      cache.get('key1');
+      expect(cache.entries()).toEqual([
+        { key: 'key1', value: 'value1', expiresAt: undefined },
+        { key: 'key2', value: 'value2', expiresAt: undefined },
+      ]);
+
+      cache.set('key3', 'value3');
+      cache.set('key4', 'value4');
+      expect(cache.entries().map(entry => entry.key)).toEqual(['key4', 'key3', 'key1']);
+    });
+
+    it('should skip expired entries and include per-entry expiration times', () => {
+      let now = 1000;
+      const cache = new LRUCache({ maxSize: 10, ttl: 5000, clock: (): number => now });
+
+      cache.set('key1', 'value1', 1000);
+      cache.set('key2', 'value2', 10000);
+      cache.set('key3', 'value3');
+      expect(cache.entries()).toHaveLength(3);
+
+      now += 6000;
+      expect(cache.entries()).toEqual([{ key: 'key2', value: 'value2', expiresAt: 11000 }]);
+    });
+
+    it('should return an empty array for an empty cache', () => {
+      expect(new LRUCache({ maxSize: 10 }).entries()).toEqual([]);
+    });
+  });
+
   describe('getStats', () => {
     it('should return correct statistics', () => {
       const cache = new LRUCache({ maxSize: 10 });
@@ -0,0 +1,124 @@
+import { validateClaimsSchema } from '../../src/utils/claims-schema';
+import { ClaimsSchema } from '../../src/types';
+
+describe('Claims Schema Utils', () => {
+  const schema: ClaimsSchema = {
+    sub: { type: 'string', required: true },
+    role: { type: 'string', enum: ['admin', 'member'] },
+    level: { type: 'number', enum: [1, 2, 3] },
+    active: { type: 'boolean' },
+    permissions: { type: 'array', items: { type: 'string' } },
+    org: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', required: true },
+        tier: { type: 'string', enum: ['free', 'pro'] },
+      },
+    },
+  };
+
+  const validPayload = {
+    sub: 'user123',
+    role: 'admin',
+    level: 2,
+    active: true,
+    permissions: ['orders:read'],
+    org: { id: 'org123', tier: 'pro' },
+    extra: 'ignored',
+  };
+
+  it('should return undefined for a payload that satisfies the schema', () => {
+    expect(validateClaimsSchema(validPayload, schema)).toBeUndefined();
+  });
+
+  it('should allow optional claims to be absent or null', () => {
+    expect(validateClaimsSchema({ sub: 'user123', role: null }, schema)).toBeUndefined();
+  });
+
+  describe('required claims', () => {
+    it('should report missing required claims', () => {
+      expect(validateClaimsSchema({ role: 'admin' }, schema)).toEqual({
+        path: 'sub',
+        missing: true,
+        message: 'Token is missing required claim: sub',
+      });
+    });
+
+    it('should report missing required nested properties with their path', () => {
+      expect(validateClaimsSchema({ ...validPayload, org: { tier: 'pro' } }, schema)).toEqual({
+        path: 'org.id',
+        missing: true,
+        message: 'Token is missing required claim: org.id',
+      });
+    });
+  });
+
+  describe('types', () => {
+    it('should reject wrong primitive types', () => {
+      expect(validateClaimsSchema({ ...validPayload, sub: 123 }, schema)?.message)
+        .toBe("Claim 'sub' must be a string");
+      expect(validateClaimsSchema({ ...validPayload, level: '2' }, schema)?.message)
+        .toBe("Claim 'level' must be a number");
+      expect(validateClaimsSchema({ ...validPayload, active: 'true' }, schema)?.message)
+        .toBe("Claim 'active' must be a boolean");
+    });
+
+    it('should reject non-finite numbers', () => {
+      expect(validateClaimsSchema({ ...validPayload, level: NaN }, { level: { type: 'number' } })?.path).toBe('level');
+    });
+
+    it('should reject non-arrays and invalid array items', () => {
+      expect(validateClaimsSchema({ ...validPayload, permissions: 'orders:read' }, schema)?.message)
+        .toBe("Claim 'permissions' must be an array");
+      expect(validateClaimsSchema({ ...validPayload, permissions: ['a', 2] }, schema)).toEqual({
+        path: 'permissions[1]',
+        missing: false,
+        message: "Claim 'permissions[1]' must be a string",
+      });
+    });
+
+    it('should treat null array items as invalid rather than missing', () => {
+      expect(validateClaimsSchema({ ...validPayload, permissions: ['a', null] }, schema)).toEqual({
+        path: 'permissions[1]',
+        missing: false,
+        message: "Claim 'permissions[1]' must be a string",
+      });
+    });
+
+    it('should accept arrays without an items schema', () => {
+      expect(validateClaimsSchema({ list: [1, 'a', {}] }, { list: { type: 'array' } })).toBeUndefined();
+    });
+
+    it('should reject non-objects for object fields', () => {
+      expect(validateClaimsSchema({ ...validPayload, org: ['org123'] }, schema)?.message)
+        .toBe("Claim 'org' must be an object");
+      expect(validateClaimsSchema({ ...validPayload, org: 'org123' }, schema)?.message)
+        .toBe("Claim 'org' must be an object");
+    });
+  });
+
+  describe('enums', () => {
+    it('should reject string values outside the enum', () => {
+      expect(validateClaimsSchema({ ...validPayload, role: 'guest' }, schema)).toEqual({
+        path: 'role',
+        missing: false,
+        message: "Claim 'role' must be one of: admin, member",
+      });
+    });
+
+    it('should reject number values outside the enum', () => {
+      expect(validateClaimsSchema({ ...validPayload, level: 4 }, schema)?.message)
+        .toBe("Claim 'level' must be one of: 1, 2, 3");
+    });
+
+    it('should validate enums on nested properties', () => {
+      expect(validateClaimsSchema({ ...validPayload, org: { id: 'org123', tier: 'enterprise' } }, schema)?.path)
+        .toBe('org.tier');
+    });
+  });
+
+  it('should throw for unsupported schema types', () => {
+    expect(() => validateClaimsSchema({ sub: 'x' }, { sub: { type: 'date' } as any }))
+      .toThrow("Unsupported claims schema type for 'sub': date");
+  });
+});
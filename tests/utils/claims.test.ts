@@ -0,0 +1,148 @@
+import {
+  findInvalidClaim,
+  findMissingClaim,
+  normalizeAudience,
+  validateAudience
+} from '../../src/utils/claims';
+
+describe('Claim Utils', () => {
+  describe('normalizeAudience', () => {
+    it('should wrap a string audience in an array', () => {
+      expect(normalizeAudience('api://orders')).toEqual(['api://orders']);
+    });
+
+    it('should return array audiences as-is', () => {
+      expect(normalizeAudience(['api://orders', 'api://billing'])).toEqual(['api://orders', 'api://billing']);
+    });
+
+    it('should drop non-string and empty entries from array audiences', () => {
+      expect(normalizeAudience(['api://orders', 42, null, '', 'api://billing'])).toEqual([
+        'api://orders',
+        'api://billing',
+      ]);
+    });
+
+    it('should return an empty array for missing or malformed audiences', () => {
+      expect(normalizeAudience(undefined)).toEqual([]);
+      expect(normalizeAudience(null)).toEqual([]);
+      expect(normalizeAudience('')).toEqual([]);
+      expect(normalizeAudience(123)).toEqual([]);
+      expect(normalizeAudience({ aud: 'api://orders' })).toEqual([]);
+    });
+  });
+
+  describe('validateAudience', () => {
+    describe('string expected audience', () => {
+      it('should accept a matching string aud', () => {
+        expect(validateAudience('api://orders', 'api://orders')).toBe(true);
+      });
+
+      it('should accept an array aud containing the expected value', () => {
+        expect(validateAudience(['api://billing', 'api://orders'], 'api://orders')).toBe(true);
+      });
+
+      it('should reject a non-matching string aud', () => {
+        expect(validateAudience('api://billing', 'api://orders')).toBe(false);
+      });
+
+      it('should be case-sensitive', () => {
+        expect(validateAudience('API://ORDERS', 'api://orders')).toBe(false);
+      });
+    });
+
+    describe('array expected audience', () => {
+      it('should accept when any token audience matches any expected audience', () => {
+        expect(validateAudience(['api://a', 'api://b'], ['api://c', 'api://b'])).toBe(true);
+      });
+
+      it('should reject when no token audience matches', () => {
+        expect(validateAudience(['api://a', 'api://b'], ['api://c', 'api://d'])).toBe(false);
+      });
+
+      it('should reject when the expected list is empty', () => {
+        expect(validateAudience('api://a', [])).toBe(false);
+      });
+    });
+
+    describe('predicate expected audience', () => {
+      it('should pass normalized audiences to the predicate', () => {
+        const predicate = jest.fn().mockReturnValue(true);
+        expect(validateAudience('api://orders', predicate)).toBe(true);
+        expect(predicate).toHaveBeenCalledWith(['api://orders']);
+      });
+
+      it('should reject when the predicate returns false', () => {
+        expect(validateAudience(['api://orders'], () => false)).toBe(false);
+      });
+
+      it('should only accept a strict true from the predicate', () => {
+        expect(validateAudience(['api://orders'], (() => 'yes') as any)).toBe(false);
+      });
+    });
+
+    describe('missing audience', () => {
+      it('should reject tokens without an aud claim', () => {
+        expect(validateAudience(undefined, 'api://orders')).toBe(false);
+        expect(validateAudience([], 'api://orders')).toBe(false);
+      });
+
+      it('should not invoke the predicate when aud is missing', () => {
+        const predicate = jest.fn().mockReturnValue(true);
+        expect(validateAudience(undefined, predicate)).toBe(false);
+        expect(predicate).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('findMissingClaim', () => {
+    it('should return undefined when all required claims are present', () => {
+      expect(findMissingClaim({ exp: 1, iat: 1, sub: 'u' }, ['exp', 'iat', 'sub'])).toBeUndefined();
+    });
+
+    it('should return the first missing claim in order', () => {
+      expect(findMissingClaim({ sub: 'u' }, ['exp', 'iat', 'sub'])).toBe('exp');
+      expect(findMissingClaim({ exp: 1, sub: 'u' }, ['exp', 'iat', 'sub'])).toBe('iat');
+    });
+
+    it('should treat null values as missing', () => {
+      expect(findMissingClaim({ sub: null } as any, ['sub'])).toBe('sub');
+    });
+
+    it('should accept falsy but present values', () => {
+      expect(findMissingClaim({ nbf: 0, custom: false, name: '' }, ['nbf', 'custom', 'name'])).toBeUndefined();
+    });
+  });
+
+  describe('findInvalidClaim', () => {
+    it('should return undefined for well-typed registered claims', () => {
+      expect(findInvalidClaim({
+        iss: 'https://issuer', sub: 'u', aud: ['a', 'b'], exp: 2, nbf: 1, iat: 1.5, jti: 'id'
+      })).toBeUndefined();
+    });
+
+    it('should ignore absent and custom claims', () => {
+      expect(findInvalidClaim({ custom: 42 })).toBeUndefined();
+    });
+
+    it('should flag non-numeric date claims', () => {
+      expect(findInvalidClaim({ exp: '1700000000' } as any)).toBe('exp');
+      expect(findInvalidClaim({ nbf: true } as any)).toBe('nbf');
+      expect(findInvalidClaim({ iat: null } as any)).toBe('iat');
+    });
+
+    it('should flag non-finite numeric date claims', () => {
+      expect(findInvalidClaim({ exp: Infinity } as any)).toBe('exp');
+    });
+
+    it('should flag non-string identifier claims', () => {
+      expect(findInvalidClaim({ sub: 12345 } as any)).toBe('sub');
+      expect(findInvalidClaim({ iss: {} } as any)).toBe('iss');
+      expect(findInvalidClaim({ jti: 1 } as any)).toBe('jti');
+    });
+
+    it('should flag audiences that are not strings or string arrays', () => {
+      expect(findInvalidClaim({ aud: 1 } as any)).toBe('aud');
+      expect(findInvalidClaim({ aud: ['a', 2] } as any)).toBe('aud');
+    });
+  });
+});
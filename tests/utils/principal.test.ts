@@ -0,0 +1,99 @@
+import { JwtValidationError, JwtValidationErrorCode } from '../../src/errors';
+import { isMachineToken, toPrincipal } from '../../src/utils/principal';
+import { WristbandAccessTokenPayload } from '../../src/types';
+
+describe('Principal Utils', () => {
+  const userPayload: WristbandAccessTokenPayload = {
+    iss: 'https://test.wristband.dev',
+    sub: 'user123',
+    exp: 1700003600,
+    iat: 1700000000,
+    app_id: 'app123',
+    tnt_id: 'tenant123',
+    client_id: 'client123',
+    idp_name: 'wristband',
+    scope: 'openid profile',
+  };
+
+  const machinePayload: WristbandAccessTokenPayload = {
+    iss: 'https://test.wristband.dev',
+    sub: 'client456',
+    exp: 1700003600,
+    iat: 1700000000,
+    app_id: 'app123',
+    tnt_id: 'tenant123',
+    client_id: 'client456',
+    scp: ['orders:read'],
+  };
+
+  describe('isMachineToken', () => {
+    it('should return true when the subject is the client', () => {
+      expect(isMachineToken(machinePayload)).toBe(true);
+    });
+
+    it('should return false when the subject is a user', () => {
+      expect(isMachineToken(userPayload)).toBe(false);
+    });
+
+    it('should return false when client_id is missing or empty', () => {
+      expect(isMachineToken({ sub: 'client456' })).toBe(false);
+      expect(isMachineToken({ sub: '', client_id: '' })).toBe(false);
+    });
+  });
+
+  describe('toPrincipal', () => {
+    it('should create a user principal for user tokens', () => {
+      expect(toPrincipal(userPayload)).toEqual({
+        type: 'user',
+        subject: 'user123',
+        userId: 'user123',
+        tenantId: 'tenant123',
+        applicationId: 'app123',
+        clientId: 'client123',
+        identityProviderName: 'wristband',
+        scopes: ['openid', 'profile'],
+        payload: userPayload,
+      });
+    });
+
+    it('should create a machine principal for client credentials tokens', () => {
+      expect(toPrincipal(machinePayload)).toEqual({
+        type: 'machine',
+        subject: 'client456',
+        clientId: 'client456',
+        tenantId: 'tenant123',
+        applicationId: 'app123',
+        scopes: ['orders:read'],
+        payload: machinePayload,
+      });
+    });
+
+    it('should narrow on the type discriminator', () => {
+      const principal = toPrincipal(userPayload);
+      if (principal.type === 'user') {
+        expect(principal.userId).toBe('user123');
+      } else {
+        throw new Error('Expected a user principal');
+      }
+    });
+
+    it('should leave missing or malformed optional claims undefined', () => {
+      const principal = toPrincipal({ sub: 'user123', tnt_id: 42 });
+      expect(principal.type).toBe('user');
+      expect(principal.tenantId).toBeUndefined();
+      expect(principal.applicationId).toBeUndefined();
+      expect(principal.scopes).toEqual([]);
+    });
+
+    it('should throw a missing_claim error when sub is missing', () => {
+      expect(() => toPrincipal({ tnt_id: 'tenant123' })).toThrow(JwtValidationError);
+      expect(() => toPrincipal({ sub: 123 } as any)).toThrow('Token is missing required claim: sub');
+
+      try {
+        toPrincipal({});
+      } catch (error) {
+        expect((error as JwtValidationError).code).toBe(JwtValidationErrorCode.MISSING_CLAIM);
+      }
+    });
+  });
+});
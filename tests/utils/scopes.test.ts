@@ -0,0 +1,80 @@
+import { getScopes, hasAnyScope, hasScopes } from '../../src/utils/scopes';
+
+describe('Scope Utils', () => {
+  describe('getScopes', () => {
+    it('should split a space-delimited scope claim', () => {
+      expect(getScopes({ scope: 'orders:read orders:write' })).toEqual(['orders:read', 'orders:write']);
+    });
+
+    it('should ignore repeated spaces in the scope claim', () => {
+      expect(getScopes({ scope: ' orders:read   orders:write ' })).toEqual(['orders:read', 'orders:write']);
+    });
+
+    it('should read an array-valued scp claim', () => {
+      expect(getScopes({ scp: ['orders:read', 'profile'] })).toEqual(['orders:read', 'profile']);
+    });
+
+    it('should read a space-delimited scp claim', () => {
+      expect(getScopes({ scp: 'orders:read profile' })).toEqual(['orders:read', 'profile']);
+    });
+
+    it('should merge scope and scp claims without duplicates', () => {
+      expect(getScopes({ scope: 'profile orders:read', scp: ['orders:read', 'email'] }))
+        .toEqual(['profile', 'orders:read', 'email']);
+    });
+
+    it('should ignore non-string values', () => {
+      expect(getScopes({ scope: 42, scp: ['orders:read', 7, null, ''] })).toEqual(['orders:read']);
+    });
+
+    it('should return an empty array for missing payloads or claims', () => {
+      expect(getScopes(undefined)).toEqual([]);
+      expect(getScopes(null)).toEqual([]);
+      expect(getScopes({ sub: 'user123' })).toEqual([]);
+    });
+  });
+
+  describe('hasScopes', () => {
+    const payload = { scope: 'orders:read orders:write', scp: ['profile'] };
+
+    it('should return true when all scopes are granted', () => {
+      expect(hasScopes(payload, 'orders:read', 'profile')).toBe(true);
+    });
+
+    it('should return false when any scope is missing', () => {
+      expect(hasScopes(payload, 'orders:read', 'orders:delete')).toBe(false);
+    });
+
+    it('should be case-sensitive', () => {
+      expect(hasScopes(payload, 'ORDERS:READ')).toBe(false);
+    });
+
+    it('should return true when no scopes are required', () => {
+      expect(hasScopes(payload)).toBe(true);
+    });
+
+    it('should not match scope substrings', () => {
+      expect(hasScopes({ scope: 'orders:readonly' }, 'orders:read')).toBe(false);
+    });
+  });
+
+  describe('hasAnyScope', () => {
+    const payload = { scp: ['orders:read'] };
+
+    it('should return true when at least one scope is granted', () => {
+      expect(hasAnyScope(payload, 'orders:admin', 'orders:read')).toBe(true);
+    });
+
+    it('should return false when no scope is granted', () => {
+      expect(hasAnyScope(payload, 'orders:admin', 'orders:write')).toBe(false);
+    });
+
+    it('should return false when no scopes are given', () => {
+      expect(hasAnyScope(payload)).toBe(false);
+    });
+
+    it('should return false for a missing payload', () => {
+      expect(hasAnyScope(undefined, 'orders:read')).toBe(false);
+    });
+  });
+});
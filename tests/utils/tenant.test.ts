@@ -0,0 +1,67 @@
+import { JwtValidationError, JwtValidationErrorCode } from '../../src/errors';
+import { assertTenant, describeTenantMismatch, getTenantId, matchesTenant } from '../../src/utils/tenant';
+
+describe('Tenant Utils', () => {
+  const payload = { sub: 'user123', tnt_id: 'tenant123' };
+
+  describe('getTenantId', () => {
+    it('should return the tnt_id claim', () => {
+      expect(getTenantId(payload)).toBe('tenant123');
+    });
+
+    it('should return undefined for missing or malformed tenant claims', () => {
+      expect(getTenantId(undefined)).toBeUndefined();
+      expect(getTenantId({ sub: 'user123' })).toBeUndefined();
+      expect(getTenantId({ tnt_id: '' })).toBeUndefined();
+      expect(getTenantId({ tnt_id: 123 })).toBeUndefined();
+    });
+  });
+
+  describe('matchesTenant', () => {
+    it('should return true when the tenant matches', () => {
+      expect(matchesTenant(payload, 'tenant123')).toBe(true);
+    });
+
+    it('should return false when the tenant differs', () => {
+      expect(matchesTenant(payload, 'tenant456')).toBe(false);
+    });
+
+    it('should be case-sensitive', () => {
+      expect(matchesTenant(payload, 'TENANT123')).toBe(false);
+    });
+
+    it('should fail closed when either side is missing', () => {
+      expect(matchesTenant(payload, undefined)).toBe(false);
+      expect(matchesTenant(payload, '')).toBe(false);
+      expect(matchesTenant({ sub: 'user123' }, 'tenant123')).toBe(false);
+      expect(matchesTenant(null, 'tenant123')).toBe(false);
+    });
+  });
+
+  describe('assertTenant', () => {
+    it('should not throw when the tenant matches', () => {
+      expect(() => assertTenant(payload, 'tenant123')).not.toThrow();
+    });
+
+    it('should throw a tenant_mismatch error when the tenant differs', () => {
+      const error = ((): unknown => {
+        try {
+          assertTenant(payload, 'tenant456');
+        } catch (e) {
+          return e;
+        }
+        return undefined;
+      })();
+
+      expect(error).toBeInstanceOf(JwtValidationError);
+      expect((error as JwtValidationError).code).toBe(JwtValidationErrorCode.TENANT_MISMATCH);
+      expect((error as JwtValidationError).message).toBe('Tenant mismatch. Expected tenant456, got tenant123');
+    });
+  });
+
+  describe('describeTenantMismatch', () => {
+    it('should describe missing values as none', () => {
+      expect(describeTenantMismatch({}, undefined)).toBe('Tenant mismatch. Expected none, got none');
+    });
+  });
+});
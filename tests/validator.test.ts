@@ -2,6 +2,12 @@ import { createWristbandJwtValidator, WristbandJwtValidatorImpl } from '../src/v
 import { JWKSClient } from '../src/jwks-client';
 import * as crypto from '../src/utils/crypto';
 import * as jwksClient from '../src/jwks-client';
+import * as discovery from '../src/discovery';
+import { InMemoryRemoteJwksCacheStore } from '../src/jwks-cache-stores';
+import { BearerTokenExtractionError, JwksError, JwtValidationErrorCode } from '../src/errors';
+import { ClaimsSchema, WristbandAccessTokenPayload } from '../src/types';
+
+const mockPublicKey = { type: 'public', algorithm: { name: 'RSASSA-PKCS1-v1_5' } } as CryptoKey;
 
 describe('WristbandJwtValidatorImpl', () => {
   const validIssuer = 'https://test.wristband.dev';
@@ -9,7 +15,7 @@ describe('WristbandJwtValidatorImpl', () => {
   let mockJwksClient: jest.Mocked<JWKSClient>;
   let mockBase64urlDecode: jest.SpyInstance;
   let mockValidateAlgorithm: jest.SpyInstance;
-  let mockVerifyRS256Signature: jest.SpyInstance;
+  let mockVerifySignature: jest.SpyInstance;
 
   beforeEach(() => {
     // Create mock JWKS client
@@ -17,12 +23,16 @@ describe('WristbandJwtValidatorImpl', () => {
       getSigningKey: jest.fn(),
       clear: jest.fn(),
       getCacheStats: jest.fn(),
+      start: jest.fn(),
+      stop: jest.fn(),
+      getHealth: jest.fn(),
+      exportKeySnapshot: jest.fn(),
     } as unknown as jest.Mocked<JWKSClient>;
 
     // Spy on crypto functions
     mockBase64urlDecode = jest.spyOn(crypto, 'base64urlDecode');
     mockValidateAlgorithm = jest.spyOn(crypto, 'validateAlgorithm');
-    mockVerifyRS256Signature = jest.spyOn(crypto, 'verifyRS256Signature');
+    mockVerifySignature = jest.spyOn(crypto, 'verifySignature');
 
     validator = new WristbandJwtValidatorImpl(mockJwksClient, validIssuer);
   });
@@ -56,20 +66,73 @@ describe('WristbandJwtValidatorImpl', () => {
         .not.toThrow();
     });
 
-    it('should throw error for single non-RS256 algorithm', () => {
-      // Now with OR logic, single non-RS256 algorithms should throw
+    it('should accept all supported RSA, RSA-PSS, ECDSA and EdDSA algorithms', () => {
+      expect(() => new WristbandJwtValidatorImpl(
+        mockJwksClient,
+        validIssuer,
+        ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512', 'EdDSA']
+      )).not.toThrow();
+    });
+
+    it('should accept algorithms case-insensitively', () => {
+      expect(() => new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['ps256'])).not.toThrow();
+      expect(() => new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['EDDSA'])).not.toThrow();
+    });
+
+    it('should throw error for single unsupported algorithm', () => {
       expect(() => new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['HS256']))
-        .toThrow('Only the RS256 algorithm is supported.');
+        .toThrow('Unsupported signing algorithm(s): HS256.');
     });
 
-    it('should throw error for multiple algorithms with wrong algorithm', () => {
-      expect(() => new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['HS256', 'ES256']))
-        .toThrow('Only the RS256 algorithm is supported.');
+    it('should throw error for multiple algorithms with unsupported algorithms', () => {
+      expect(() => new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256', 'HS256', 'none']))
+        .toThrow('Unsupported signing algorithm(s): HS256, none.');
     });
 
     it('should throw error for empty algorithms array', () => {
       expect(() => new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, []))
-        .toThrow('Only the RS256 algorithm is supported.');
+        .toThrow('At least one signing algorithm must be provided.');
+    });
+
+    it('should accept string, array and function audience options', () => {
+      expect(() => new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { audience: 'api' }))
+        .not.toThrow();
+      expect(() => new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { audience: ['a', 'b'] }))
+        .not.toThrow();
+      expect(() => new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { audience: (): boolean => true }))
+        .not.toThrow();
+    });
+
+    it('should throw error for invalid clock tolerance', () => {
+      const expectedError = 'The clock tolerance must be a non-negative number of seconds.';
+      expect(() => new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { clockToleranceSeconds: -1 }))
+        .toThrow(expectedError);
+      expect(() => new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { clockToleranceSeconds: NaN }))
+        .toThrow(expectedError);
+      expect(() => new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { clockToleranceSeconds: 0 }))
+        .not.toThrow();
+    });
+
+    it('should throw error for invalid token age and lifetime policies', () => {
+      expect(() => new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { maxTokenAge: 0 }))
+        .toThrow('The max token age must be a positive number of seconds.');
+      expect(() => new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { maxTokenLifetime: -5 }))
+        .toThrow('The max token lifetime must be a positive number of seconds.');
+    });
+
+    it('should throw error for non-function clock', () => {
+      expect(() => new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { clock: 5 as any }))
+        .toThrow('The clock must be a function returning the current time in milliseconds.');
+    });
+
+    it('should throw error for invalid audience options', () => {
+      const expectedError = 'The audience must be a non-empty string, an array of non-empty strings, or a function.';
+      expect(() => new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { audience: '' }))
+        .toThrow(expectedError);
+      expect(() => new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { audience: [] }))
+        .toThrow(expectedError);
+      expect(() => new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { audience: ['a', ' '] }))
+        .toThrow(expectedError);
     });
   });
 
@@ -143,6 +206,35 @@ describe('WristbandJwtValidatorImpl', () => {
       });
     });
 
+    describe('Error types and codes', () => {
+      const captureError = (fn: () => unknown): BearerTokenExtractionError => {
+        try {
+          fn();
+        } catch (error) {
+          return error as BearerTokenExtractionError;
+        }
+        throw new Error('Expected function to throw');
+      };
+
+      it('should throw BearerTokenExtractionError with missing_authorization_header code', () => {
+        const error = captureError(() => validator.extractBearerToken(undefined));
+        expect(error).toBeInstanceOf(BearerTokenExtractionError);
+        expect(error.code).toBe(JwtValidationErrorCode.MISSING_AUTHORIZATION_HEADER);
+      });
+
+      it('should use invalid_authorization_header code for multiple headers and wrong scheme', () => {
+        expect(captureError(() => validator.extractBearerToken(['Bearer a', 'Bearer b'])).code)
+          .toBe(JwtValidationErrorCode.INVALID_AUTHORIZATION_HEADER);
+        expect(captureError(() => validator.extractBearerToken('Basic abc123')).code)
+          .toBe(JwtValidationErrorCode.INVALID_AUTHORIZATION_HEADER);
+      });
+
+      it('should use missing_token code when the Bearer value is empty', () => {
+        expect(captureError(() => validator.extractBearerToken('Bearer ')).code)
+          .toBe(JwtValidationErrorCode.MISSING_TOKEN);
+      });
+    });
+
     describe('Invalid cases - missing token', () => {
       it('should throw error for Bearer without token', () => {
         expect(() => validator.extractBearerToken('Bearer '))
@@ -156,11 +248,53 @@ describe('WristbandJwtValidatorImpl', () => {
     });
   });
 
+  describe('start and stop', () => {
+    it('should start background JWKS refresh on the JWKS client', async () => {
+      mockJwksClient.start.mockResolvedValue(undefined);
+
+      await expect(validator.start()).resolves.toBeUndefined();
+      expect(mockJwksClient.start).toHaveBeenCalledTimes(1);
+    });
+
+    it('should propagate errors from the initial JWKS fetch', async () => {
+      const error = new JwksError('Failed to fetch JWKS after 3 attempts', JwtValidationErrorCode.JWKS_UNAVAILABLE);
+      mockJwksClient.start.mockRejectedValue(error);
+
+      await expect(validator.start()).rejects.toBe(error);
+    });
+
+    it('should stop background JWKS refresh on the JWKS client', () => {
+      validator.stop();
+      expect(mockJwksClient.stop).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getJwksHealth', () => {
+    it('should return the health of the JWKS client', () => {
+      const health = { circuitState: 'open' as const, consecutiveFailures: 5, retryAt: 1_030_000 };
+      mockJwksClient.getHealth.mockReturnValue(health);
+
+      expect(validator.getJwksHealth()).toBe(health);
+      expect(mockJwksClient.getHealth).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('exportKeySnapshot', () => {
+    it('should return the key snapshot of the JWKS client', () => {
+      const snapshot = { version: 1 as const, keys: [{ jwk: { kty: 'RSA', kid: 'key-1' }, fetchedAt: 1_000_000 }] };
+      mockJwksClient.exportKeySnapshot.mockReturnValue(snapshot);
+
+      expect(validator.exportKeySnapshot()).toBe(snapshot);
+      expect(mockJwksClient.exportKeySnapshot).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('validate', () => {
     const validHeader = { alg: 'RS256', kid: 'test-key-id' };
     const validPayload = {
       iss: validIssuer,
       exp: Math.floor(Date.now() / 1000) + 3600, // 1 hour from now
+      iat: Math.floor(Date.now() / 1000) - 60, // 1 minute ago
       sub: 'user123'
     };
 
@@ -169,20 +303,20 @@ describe('WristbandJwtValidatorImpl', () => {
       // Reset all mocks to default behavior for each test
       mockBase64urlDecode.mockRestore();
       mockValidateAlgorithm.mockRestore();
-      mockVerifyRS256Signature.mockRestore();
+      mockVerifySignature.mockRestore();
       
       // Re-create spies
       mockBase64urlDecode = jest.spyOn(crypto, 'base64urlDecode');
       mockValidateAlgorithm = jest.spyOn(crypto, 'validateAlgorithm');
-      mockVerifyRS256Signature = jest.spyOn(crypto, 'verifyRS256Signature');
+      mockVerifySignature = jest.spyOn(crypto, 'verifySignature');
       
       // Set up default successful mocks
       mockBase64urlDecode
         .mockReturnValueOnce(JSON.stringify(validHeader))
         .mockReturnValueOnce(JSON.stringify(validPayload));
       mockValidateAlgorithm.mockReturnValue(true);
-      mockVerifyRS256Signature.mockResolvedValue(true);
-      mockJwksClient.getSigningKey.mockResolvedValue('mock-public-key');
+      mockVerifySignature.mockResolvedValue(true);
+      mockJwksClient.getSigningKey.mockResolvedValue(mockPublicKey);
     });
 
     describe('Basic validation', () => {
@@ -190,6 +324,7 @@ describe('WristbandJwtValidatorImpl', () => {
         const result = await validator.validate(null as any);
         expect(result).toEqual({
           isValid: false,
+          errorCode: JwtValidationErrorCode.MISSING_TOKEN,
           errorMessage: 'No token provided'
         });
       });
@@ -198,6 +333,7 @@ describe('WristbandJwtValidatorImpl', () => {
         const result = await validator.validate('');
         expect(result).toEqual({
           isValid: false,
+          errorCode: JwtValidationErrorCode.MISSING_TOKEN,
           errorMessage: 'No token provided'
         });
       });
@@ -206,6 +342,7 @@ describe('WristbandJwtValidatorImpl', () => {
         const result = await validator.validate('invalid.jwt');
         expect(result).toEqual({
           isValid: false,
+          errorCode: JwtValidationErrorCode.MALFORMED,
           errorMessage: 'Invalid JWT format'
         });
       });
@@ -214,6 +351,7 @@ describe('WristbandJwtValidatorImpl', () => {
         const result = await validator.validate('part1.part2.part3.part4');
         expect(result).toEqual({
           isValid: false,
+          errorCode: JwtValidationErrorCode.MALFORMED,
           errorMessage: 'Invalid JWT format'
         });
       });
@@ -229,6 +367,7 @@ describe('WristbandJwtValidatorImpl', () => {
         const result = await validator.validate('header.payload.signature');
         expect(result).toEqual({
           isValid: false,
+          errorCode: JwtValidationErrorCode.MALFORMED,
           errorMessage: 'Invalid JWT encoding'
         });
       });
@@ -242,6 +381,7 @@ describe('WristbandJwtValidatorImpl', () => {
         const result = await validator.validate('header.payload.signature');
         expect(result).toEqual({
           isValid: false,
+          errorCode: JwtValidationErrorCode.MALFORMED,
           errorMessage: 'Invalid JWT encoding'
         });
       });
@@ -259,6 +399,7 @@ describe('WristbandJwtValidatorImpl', () => {
         const result = await validator.validate('header.payload.signature');
         expect(result).toEqual({
           isValid: false,
+          errorCode: JwtValidationErrorCode.BAD_ALGORITHM,
           errorMessage: 'Algorithm HS256 not allowed. Expected one of: RS256'
         });
       });
@@ -269,6 +410,117 @@ describe('WristbandJwtValidatorImpl', () => {
         expect(result.isValid).toBe(true);
         expect(mockValidateAlgorithm).toHaveBeenCalledWith('RS256', ['RS256']);
       });
+
+      it('should verify tokens with the algorithm from the header when multiple algorithms are allowed', async () => {
+        mockBase64urlDecode.mockReset();
+        mockBase64urlDecode
+          .mockReturnValueOnce(JSON.stringify({ ...validHeader, alg: 'PS256' }))
+          .mockReturnValueOnce(JSON.stringify(validPayload));
+        validator = new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256', 'PS256']);
+
+        const result = await validator.validate('header.payload.signature');
+        expect(result.isValid).toBe(true);
+        expect(mockValidateAlgorithm).toHaveBeenCalledWith('PS256', ['RS256', 'PS256']);
+        expect(mockJwksClient.getSigningKey).toHaveBeenCalledWith('test-key-id', 'PS256', undefined);
+        expect(mockVerifySignature).toHaveBeenCalledWith('PS256', 'header.payload', 'signature', mockPublicKey);
+      });
+
+      it('should verify EdDSA tokens using the canonical algorithm name', async () => {
+        mockBase64urlDecode.mockReset();
+        mockBase64urlDecode
+          .mockReturnValueOnce(JSON.stringify({ ...validHeader, alg: 'EdDSA' }))
+          .mockReturnValueOnce(JSON.stringify(validPayload));
+        validator = new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['eddsa']);
+
+        const result = await validator.validate('header.payload.signature');
+        expect(result.isValid).toBe(true);
+        expect(mockValidateAlgorithm).toHaveBeenCalledWith('EdDSA', ['EdDSA']);
+        expect(mockVerifySignature).toHaveBeenCalledWith('EdDSA', 'header.payload', 'signature', mockPublicKey);
+      });
+
+      it('should reject tokens whose signing key is intended for a different algorithm', async () => {
+        mockJwksClient.getSigningKey.mockRejectedValue(new JwksError(
+          'Signing key \'test-key-id\' is intended for PS256, but the token uses RS256',
+          JwtValidationErrorCode.INVALID_KEY
+        ));
+
+        const result = await validator.validate('header.payload.signature');
+        expect(result).toEqual({
+          isValid: false,
+          errorCode: JwtValidationErrorCode.INVALID_KEY,
+          errorMessage: 'Failed to get signing key: Signing key \'test-key-id\' is intended for PS256, but the token uses RS256'
+        });
+        expect(mockVerifySignature).not.toHaveBeenCalled();
+      });
+
+      describe('with advertised algorithms', () => {
+        it('should only accept allowed algorithms that the issuer advertises', async () => {
+          const advertisedAlgorithms = jest.fn().mockResolvedValue(['rs256', 'ES256', 'none']);
+          validator = new WristbandJwtValidatorImpl(
+            mockJwksClient, validIssuer, ['RS256', 'PS256', 'ES256'], { advertisedAlgorithms }
+          );
+
+          const result = await validator.validate('header.payload.signature');
+          expect(result.isValid).toBe(true);
+          expect(mockValidateAlgorithm).toHaveBeenCalledWith('RS256', ['RS256', 'ES256']);
+        });
+
+        it('should reject all tokens when the issuer advertises none of the allowed algorithms', async () => {
+          mockValidateAlgorithm.mockRestore();
+          const advertisedAlgorithms = jest.fn().mockResolvedValue(['HS256']);
+          validator = new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { advertisedAlgorithms });
+
+          const result = await validator.validate('header.payload.signature');
+          expect(result).toEqual({
+            isValid: false,
+            errorCode: JwtValidationErrorCode.BAD_ALGORITHM,
+            errorMessage: 'Algorithm RS256 not allowed. Expected one of: none'
+          });
+        });
+
+        it('should accept the configured algorithms when the issuer does not advertise any', async () => {
+          const advertisedAlgorithms = jest.fn().mockResolvedValue(undefined);
+          validator = new WristbandJwtValidatorImpl(
+            mockJwksClient, validIssuer, ['RS256', 'ES256'], { advertisedAlgorithms }
+          );
+
+          const result = await validator.validate('header.payload.signature');
+          expect(result.isValid).toBe(true);
+          expect(mockValidateAlgorithm).toHaveBeenCalledWith('RS256', ['RS256', 'ES256']);
+        });
+
+        it('should report a failure to resolve the advertised algorithms', async () => {
+          const advertisedAlgorithms = jest.fn().mockRejectedValue(new JwksError(
+            'Failed to fetch OpenID Connect discovery document: HTTP 503: Service Unavailable',
+            JwtValidationErrorCode.JWKS_UNAVAILABLE
+          ));
+          validator = new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { advertisedAlgorithms });
+
+          const result = await validator.validate('header.payload.signature');
+          expect(result).toEqual({
+            isValid: false,
+            errorCode: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+            errorMessage: 'Failed to get signing algorithms: Failed to fetch OpenID Connect discovery document: ' +
+              'HTTP 503: Service Unavailable'
+          });
+          expect(mockJwksClient.getSigningKey).not.toHaveBeenCalled();
+        });
+
+        it('should stop waiting for the advertised algorithms when the signal aborts', async () => {
+          const controller = new AbortController();
+          const advertisedAlgorithms = jest.fn().mockReturnValue(new Promise(() => undefined));
+          validator = new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { advertisedAlgorithms });
+
+          const result = validator.validate('header.payload.signature', { signal: controller.signal });
+          controller.abort();
+          await expect(result).resolves.toEqual({
+            isValid: false,
+            errorCode: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+            errorMessage: 'Failed to get signing algorithms: Aborted while waiting for the JWKS'
+          });
+          expect(mockJwksClient.getSigningKey).not.toHaveBeenCalled();
+        });
+      });
     });
 
     describe('Issuer validation', () => {
@@ -282,11 +534,172 @@ describe('WristbandJwtValidatorImpl', () => {
         const result = await validator.validate('header.payload.signature');
         expect(result).toEqual({
           isValid: false,
+          errorCode: JwtValidationErrorCode.BAD_ISSUER,
           errorMessage: `Invalid issuer. Expected ${validIssuer}, got https://wrong-issuer.com`
         });
       });
     });
 
+    describe('Required claims and claim types', () => {
+      const mockPayload = (payload: object): void => {
+        mockBase64urlDecode.mockReset();
+        mockBase64urlDecode
+          .mockReturnValueOnce(JSON.stringify(validHeader))
+          .mockReturnValueOnce(JSON.stringify(payload));
+      };
+
+      it('should require iat and sub by default', async () => {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { iat, ...payloadWithoutIat } = validPayload;
+        mockPayload(payloadWithoutIat);
+
+        const result = await validator.validate('header.payload.signature');
+        expect(result).toEqual({
+          isValid: false,
+          errorCode: JwtValidationErrorCode.MISSING_CLAIM,
+          errorMessage: 'Token is missing required claim: iat'
+        });
+      });
+
+      it('should treat null claims as missing', async () => {
+        mockPayload({ ...validPayload, sub: null });
+
+        const result = await validator.validate('header.payload.signature');
+        expect(result.errorCode).toBe(JwtValidationErrorCode.MISSING_CLAIM);
+        expect(result.errorMessage).toBe('Token is missing required claim: sub');
+      });
+
+      it('should enforce custom required claims', async () => {
+        validator = new WristbandJwtValidatorImpl(
+          mockJwksClient, validIssuer, ['RS256'], { requiredClaims: ['jti'] }
+        );
+        mockPayload(validPayload);
+
+        const result = await validator.validate('header.payload.signature');
+        expect(result.errorMessage).toBe('Token is missing required claim: jti');
+      });
+
+      it('should always require exp even when omitted from required claims', async () => {
+        validator = new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { requiredClaims: [] });
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { exp, iat, sub, ...minimalPayload } = validPayload;
+        mockPayload(minimalPayload);
+
+        const result = await validator.validate('header.payload.signature');
+        expect(result.errorMessage).toBe('Token is missing required claim: exp');
+      });
+
+      it('should reject a string exp claim', async () => {
+        mockPayload({ ...validPayload, exp: String(validPayload.exp) });
+
+        const result = await validator.validate('header.payload.signature');
+        expect(result).toEqual({
+          isValid: false,
+          errorCode: JwtValidationErrorCode.INVALID_CLAIM,
+          errorMessage: 'Token claim has an invalid type: exp'
+        });
+      });
+
+      it('should reject a non-string sub claim', async () => {
+        mockPayload({ ...validPayload, sub: 12345 });
+
+        const result = await validator.validate('header.payload.signature');
+        expect(result.errorCode).toBe(JwtValidationErrorCode.INVALID_CLAIM);
+        expect(result.errorMessage).toBe('Token claim has an invalid type: sub');
+      });
+
+      it('should reject a payload that is not a JSON object', async () => {
+        mockPayload(['not', 'an', 'object']);
+
+        const result = await validator.validate('header.payload.signature');
+        expect(result).toEqual({
+          isValid: false,
+          errorCode: JwtValidationErrorCode.MALFORMED,
+          errorMessage: 'Invalid JWT encoding'
+        });
+      });
+
+      it('should throw error for invalid required claims configuration', () => {
+        expect(() => new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { requiredClaims: [''] }))
+          .toThrow('The required claims must be an array of non-empty claim names.');
+        expect(() => new WristbandJwtValidatorImpl(
+          mockJwksClient, validIssuer, ['RS256'], { requiredClaims: 'sub' as any }
+        )).toThrow('The required claims must be an array of non-empty claim names.');
+      });
+    });
+
+    describe('Audience validation', () => {
+      const mockPayload = (payload: object): void => {
+        mockBase64urlDecode.mockReset();
+        mockBase64urlDecode
+          .mockReturnValueOnce(JSON.stringify(validHeader))
+          .mockReturnValueOnce(JSON.stringify(payload));
+      };
+
+      it('should ignore aud when no audience is configured', async () => {
+        mockPayload({ ...validPayload, aud: 'some-other-api' });
+
+        const result = await validator.validate('header.payload.signature');
+        expect(result.isValid).toBe(true);
+      });
+
+      it('should accept a matching string aud', async () => {
+        validator = new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { audience: 'orders-api' });
+        mockPayload({ ...validPayload, aud: 'orders-api' });
+
+        const result = await validator.validate('header.payload.signature');
+        expect(result.isValid).toBe(true);
+      });
+
+      it('should accept an array aud that contains an expected audience', async () => {
+        validator = new WristbandJwtValidatorImpl(
+          mockJwksClient, validIssuer, ['RS256'], { audience: ['orders-api', 'billing-api'] }
+        );
+        mockPayload({ ...validPayload, aud: ['inventory-api', 'billing-api'] });
+
+        const result = await validator.validate('header.payload.signature');
+        expect(result.isValid).toBe(true);
+      });
+
+      it('should reject a token minted for a sibling API', async () => {
+        validator = new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { audience: 'orders-api' });
+        mockPayload({ ...validPayload, aud: ['billing-api', 'inventory-api'] });
+
+        const result = await validator.validate('header.payload.signature');
+        expect(result).toEqual({
+          isValid: false,
+          errorCode: JwtValidationErrorCode.BAD_AUDIENCE,
+          errorMessage: 'Invalid audience. Expected orders-api, got billing-api, inventory-api'
+        });
+        expect(mockJwksClient.getSigningKey).not.toHaveBeenCalled();
+      });
+
+      it('should reject a token without an aud claim', async () => {
+        validator = new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { audience: 'orders-api' });
+
+        const result = await validator.validate('header.payload.signature');
+        expect(result).toEqual({
+          isValid: false,
+          errorCode: JwtValidationErrorCode.BAD_AUDIENCE,
+          errorMessage: 'Invalid audience. Expected orders-api, got none'
+        });
+      });
+
+      it('should use a custom audience predicate', async () => {
+        const predicate = jest.fn((auds: string[]) => auds.some(aud => aud.endsWith('.internal')));
+        validator = new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { audience: predicate });
+        mockPayload({ ...validPayload, aud: 'billing.external' });
+
+        const result = await validator.validate('header.payload.signature');
+        expect(result).toEqual({
+          isValid: false,
+          errorCode: JwtValidationErrorCode.BAD_AUDIENCE,
+          errorMessage: 'Invalid audience. Expected custom audience check, got billing.external'
+        });
+        expect(predicate).toHaveBeenCalledWith(['billing.external']);
+      });
+    });
+
     describe('Time-based validation', () => {
       it('should return invalid for expired token', async () => {
         const expiredPayload = { 
@@ -301,6 +714,7 @@ describe('WristbandJwtValidatorImpl', () => {
         const result = await validator.validate('header.payload.signature');
         expect(result).toEqual({
           isValid: false,
+          errorCode: JwtValidationErrorCode.EXPIRED,
           errorMessage: 'Token has expired'
         });
       });
@@ -318,11 +732,166 @@ describe('WristbandJwtValidatorImpl', () => {
         const result = await validator.validate('header.payload.signature');
         expect(result).toEqual({
           isValid: false,
+          errorCode: JwtValidationErrorCode.NOT_YET_VALID,
           errorMessage: 'Token not yet valid'
         });
       });
 
-      it('should pass validation for token without exp claim', async () => {
+      describe('with injected clock and clock tolerance', () => {
+        const frozenNowMs = 1_700_000_000_000;
+        const frozenNowSec = frozenNowMs / 1000;
+        const clock = (): number => frozenNowMs;
+        const frozenPayload = { ...validPayload, iat: frozenNowSec - 60 };
+
+        const mockPayload = (payload: object): void => {
+          mockBase64urlDecode.mockReset();
+          mockBase64urlDecode
+            .mockReturnValueOnce(JSON.stringify(validHeader))
+            .mockReturnValueOnce(JSON.stringify(payload));
+        };
+
+        it('should use the injected clock instead of Date.now', async () => {
+          validator = new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { clock });
+          // Expired relative to the real clock, but valid relative to the frozen clock
+          mockPayload({ ...frozenPayload, exp: frozenNowSec + 60 });
+
+          const result = await validator.validate('header.payload.signature');
+          expect(result.isValid).toBe(true);
+        });
+
+        it('should treat exp equal to now as expired without tolerance', async () => {
+          validator = new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { clock });
+          mockPayload({ ...frozenPayload, exp: frozenNowSec });
+
+          const result = await validator.validate('header.payload.signature');
+          expect(result).toEqual({ isValid: false, errorCode: JwtValidationErrorCode.EXPIRED, errorMessage: 'Token has expired' });
+        });
+
+        it('should accept recently expired tokens within the tolerance', async () => {
+          validator = new WristbandJwtValidatorImpl(
+            mockJwksClient, validIssuer, ['RS256'], { clock, clockToleranceSeconds: 5 }
+          );
+          mockPayload({ ...frozenPayload, exp: frozenNowSec - 4 });
+
+          const result = await validator.validate('header.payload.signature');
+          expect(result.isValid).toBe(true);
+        });
+
+        it('should reject tokens expired beyond the tolerance', async () => {
+          validator = new WristbandJwtValidatorImpl(
+            mockJwksClient, validIssuer, ['RS256'], { clock, clockToleranceSeconds: 5 }
+          );
+          mockPayload({ ...frozenPayload, exp: frozenNowSec - 5 });
+
+          const result = await validator.validate('header.payload.signature');
+          expect(result).toEqual({ isValid: false, errorCode: JwtValidationErrorCode.EXPIRED, errorMessage: 'Token has expired' });
+        });
+
+        it('should accept tokens whose nbf is within the tolerance', async () => {
+          validator = new WristbandJwtValidatorImpl(
+            mockJwksClient, validIssuer, ['RS256'], { clock, clockToleranceSeconds: 2 }
+          );
+          mockPayload({ ...frozenPayload, exp: frozenNowSec + 60, nbf: frozenNowSec + 2 });
+
+          const result = await validator.validate('header.payload.signature');
+          expect(result.isValid).toBe(true);
+        });
+
+        it('should reject tokens whose nbf is beyond the tolerance', async () => {
+          validator = new WristbandJwtValidatorImpl(
+            mockJwksClient, validIssuer, ['RS256'], { clock, clockToleranceSeconds: 2 }
+          );
+          mockPayload({ ...frozenPayload, exp: frozenNowSec + 60, nbf: frozenNowSec + 3 });
+
+          const result = await validator.validate('header.payload.signature');
+          expect(result).toEqual({ isValid: false, errorCode: JwtValidationErrorCode.NOT_YET_VALID, errorMessage: 'Token not yet valid' });
+        });
+
+        it('should reject tokens issued in the future', async () => {
+          validator = new WristbandJwtValidatorImpl(mockJwksClient, validIssuer, ['RS256'], { clock });
+          mockPayload({ ...frozenPayload, iat: frozenNowSec + 30, exp: frozenNowSec + 3600 });
+
+          const result = await validator.validate('header.payload.signature');
+          expect(result).toEqual({
+            isValid: false,
+            errorCode: JwtValidationErrorCode.ISSUED_IN_FUTURE,
+            errorMessage: 'Token issued in the future'
+          });
+        });
+
+        it('should accept a future iat within the tolerance', async () => {
+          validator = new WristbandJwtValidatorImpl(
+            mockJwksClient, validIssuer, ['RS256'], { clock, clockToleranceSeconds: 5 }
+          );
+          mockPayload({ ...frozenPayload, iat: frozenNowSec + 5, exp: frozenNowSec + 3600 });
+
+          const result = await validator.validate('header.payload.signature');
+          expect(result.isValid).toBe(true);
+        });
+
+        it('should reject tokens older than maxTokenAge', async () => {
+          validator = new WristbandJwtValidatorImpl(
+            mockJwksClient, validIssuer, ['RS256'], { clock, maxTokenAge: 300 }
+          );
+          mockPayload({ ...frozenPayload, iat: frozenNowSec - 301, exp: frozenNowSec + 3600 });
+
+          const result = await validator.validate('header.payload.signature');
+          expect(result).toEqual({
+            isValid: false,
+            errorCode: JwtValidationErrorCode.TOKEN_TOO_OLD,
+            errorMessage: 'Token exceeds the maximum age of 300 seconds'
+          });
+        });
+
+        it('should accept tokens within maxTokenAge', async () => {
+          validator = new WristbandJwtValidatorImpl(
+            mockJwksClient, validIssuer, ['RS256'], { clock, maxTokenAge: 300 }
+          );
+          mockPayload({ ...frozenPayload, iat: frozenNowSec - 300, exp: frozenNowSec + 3600 });
+
+          const result = await validator.validate('header.payload.signature');
+          expect(result.isValid).toBe(true);
+        });
+
+        it('should reject tokens whose lifetime exceeds maxTokenLifetime', async () => {
+          validator = new WristbandJwtValidatorImpl(
+            mockJwksClient, validIssuer, ['RS256'], { clock, maxTokenLifetime: 3600 }
+          );
+          mockPayload({ ...frozenPayload, iat: frozenNowSec - 60, exp: frozenNowSec - 60 + 86400 });
+
+          const result = await validator.validate('header.payload.signature');
+          expect(result).toEqual({
+            isValid: false,
+            errorCode: JwtValidationErrorCode.LIFETIME_TOO_LONG,
+            errorMessage: 'Token lifetime exceeds the maximum of 3600 seconds'
+          });
+        });
+
+        it('should accept tokens whose lifetime is within maxTokenLifetime', async () => {
+          validator = new WristbandJwtValidatorImpl(
+            mockJwksClient, validIssuer, ['RS256'], { clock, maxTokenLifetime: 3600 }
+          );
+          mockPayload({ ...frozenPayload, iat: frozenNowSec - 60, exp: frozenNowSec - 60 + 3600 });
+
+          const result = await validator.validate('header.payload.signature');
+          expect(result.isValid).toBe(true);
+        });
+
+        it('should require iat when an age or lifetime policy is configured', async () => {
+          validator = new WristbandJwtValidatorImpl(
+            mockJwksClient, validIssuer, ['RS256'], { clock, requiredClaims: [], maxTokenAge: 300 }
+          );
+          // eslint-disable-next-line @typescript-eslint/no-unused-vars
+          const { iat, ...payloadWithoutIat } = frozenPayload;
+          mockPayload(payloadWithoutIat);
+
+          const result = await validator.validate('header.payload.signature');
+          expect(result.errorCode).toBe(JwtValidationErrorCode.MISSING_CLAIM);
+          expect(result.errorMessage).toBe('Token is missing required claim: iat');
+        });
+      });
+
+      it('should reject token without exp claim', async () => {
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
         const { exp, ...payloadWithoutExp } = validPayload;
         mockBase64urlDecode.mockReset();
@@ -331,7 +900,11 @@ describe('WristbandJwtValidatorImpl', () => {
           .mockReturnValueOnce(JSON.stringify(payloadWithoutExp));
 
         const result = await validator.validate('header.payload.signature');
-        expect(result.isValid).toBe(true);
+        expect(result).toEqual({
+          isValid: false,
+          errorCode: JwtValidationErrorCode.MISSING_CLAIM,
+          errorMessage: 'Token is missing required claim: exp'
+        });
       });
     });
 
@@ -347,6 +920,7 @@ describe('WristbandJwtValidatorImpl', () => {
         const result = await validator.validate('header.payload.signature');
         expect(result).toEqual({
           isValid: false,
+          errorCode: JwtValidationErrorCode.MISSING_KID,
           errorMessage: 'Token header missing kid (key ID)'
         });
       });
@@ -359,16 +933,46 @@ describe('WristbandJwtValidatorImpl', () => {
         const result = await validator.validate('header.payload.signature');
         expect(result).toEqual({
           isValid: false,
+          errorCode: JwtValidationErrorCode.JWKS_UNAVAILABLE,
           errorMessage: 'Failed to get signing key: JWKS fetch failed'
         });
       });
 
+      it('should propagate the error code from JwksError', async () => {
+        mockJwksClient.getSigningKey.mockRejectedValue(
+          new JwksError("Unable to find a signing key that matches 'test-key-id'", JwtValidationErrorCode.KEY_NOT_FOUND)
+        );
+
+        const result = await validator.validate('header.payload.signature');
+        expect(result).toEqual({
+          isValid: false,
+          errorCode: JwtValidationErrorCode.KEY_NOT_FOUND,
+          errorMessage: "Failed to get signing key: Unable to find a signing key that matches 'test-key-id'"
+        });
+      });
+
+      it('should pass the abort signal to the JWKS client and report an abort as jwks_unavailable', async () => {
+        const controller = new AbortController();
+        mockJwksClient.getSigningKey.mockRejectedValue(
+          new JwksError('Aborted while waiting for the JWKS', JwtValidationErrorCode.JWKS_UNAVAILABLE)
+        );
+
+        const result = await validator.validate('header.payload.signature', { signal: controller.signal });
+        expect(mockJwksClient.getSigningKey).toHaveBeenCalledWith('test-key-id', 'RS256', controller.signal);
+        expect(result).toEqual({
+          isValid: false,
+          errorCode: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+          errorMessage: 'Failed to get signing key: Aborted while waiting for the JWKS'
+        });
+      });
+
       it('should handle non-Error objects from JWKS client', async () => {
         mockJwksClient.getSigningKey.mockRejectedValue('string error');
 
         const result = await validator.validate('header.payload.signature');
         expect(result).toEqual({
           isValid: false,
+          errorCode: JwtValidationErrorCode.JWKS_UNAVAILABLE,
           errorMessage: 'Failed to get signing key: Unknown error'
         });
       });
@@ -376,11 +980,12 @@ describe('WristbandJwtValidatorImpl', () => {
 
     describe('Signature validation', () => {
       it('should return invalid for invalid signature', async () => {
-        mockVerifyRS256Signature.mockResolvedValue(false);
+        mockVerifySignature.mockResolvedValue(false);
 
         const result = await validator.validate('header.payload.signature');
         expect(result).toEqual({
           isValid: false,
+          errorCode: JwtValidationErrorCode.BAD_SIGNATURE,
           errorMessage: 'Invalid signature'
         });
       });
@@ -399,36 +1004,253 @@ describe('WristbandJwtValidatorImpl', () => {
         await validator.validate('header.payload.signature');
         
         expect(mockValidateAlgorithm).toHaveBeenCalledWith('RS256', ['RS256']);
-        expect(mockJwksClient.getSigningKey).toHaveBeenCalledWith('test-key-id');
-        expect(mockVerifyRS256Signature).toHaveBeenCalledWith(
+        expect(mockJwksClient.getSigningKey).toHaveBeenCalledWith('test-key-id', 'RS256', undefined);
+        expect(mockVerifySignature).toHaveBeenCalledWith(
+          'RS256',
           'header.payload',
           'signature',
-          'mock-public-key'
+          mockPublicKey
         );
       });
     });
 
+    describe('Tenant isolation', () => {
+      const mockPayload = (payload: object): void => {
+        mockBase64urlDecode.mockReset();
+        mockBase64urlDecode
+          .mockReturnValueOnce(JSON.stringify(validHeader))
+          .mockReturnValueOnce(JSON.stringify(payload));
+      };
+
+      it('should accept tokens issued for the expected tenant', async () => {
+        mockPayload({ ...validPayload, tnt_id: 'tenant123' });
+
+        const result = await validator.validate('header.payload.signature', { tenant: 'tenant123' });
+        expect(result.isValid).toBe(true);
+      });
+
+      it('should reject tokens issued for a different tenant', async () => {
+        mockPayload({ ...validPayload, tnt_id: 'tenant123' });
+
+        const result = await validator.validate('header.payload.signature', { tenant: 'tenant456' });
+        expect(result).toEqual({
+          isValid: false,
+          errorCode: JwtValidationErrorCode.TENANT_MISMATCH,
+          errorMessage: 'Tenant mismatch. Expected tenant456, got tenant123'
+        });
+      });
+
+      it('should reject tokens without a tenant claim', async () => {
+        const result = await validator.validate('header.payload.signature', { tenant: 'tenant123' });
+        expect(result.errorCode).toBe(JwtValidationErrorCode.TENANT_MISMATCH);
+      });
+
+      it('should resolve the expected tenant with an async resolver', async () => {
+        mockPayload({ ...validPayload, tnt_id: 'tenant123' });
+        const resolver = jest.fn().mockResolvedValue('tenant123');
+
+        const result = await validator.validate('header.payload.signature', { tenant: resolver });
+        expect(result.isValid).toBe(true);
+        expect(resolver).toHaveBeenCalledWith(expect.objectContaining({ tnt_id: 'tenant123' }));
+      });
+
+      it('should fail closed when the resolver returns no tenant', async () => {
+        mockPayload({ ...validPayload, tnt_id: 'tenant123' });
+
+        const result = await validator.validate('header.payload.signature', { tenant: (): undefined => undefined });
+        expect(result).toEqual({
+          isValid: false,
+          errorCode: JwtValidationErrorCode.TENANT_MISMATCH,
+          errorMessage: 'Tenant mismatch. Expected none, got tenant123'
+        });
+      });
+
+      it('should not call the resolver for unauthenticated tokens', async () => {
+        mockVerifySignature.mockResolvedValue(false);
+        const resolver = jest.fn();
+
+        const result = await validator.validate('header.payload.signature', { tenant: resolver });
+        expect(result.errorCode).toBe(JwtValidationErrorCode.BAD_SIGNATURE);
+        expect(resolver).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('Scope authorization', () => {
+      const mockPayload = (payload: object): void => {
+        mockBase64urlDecode.mockReset();
+        mockBase64urlDecode
+          .mockReturnValueOnce(JSON.stringify(validHeader))
+          .mockReturnValueOnce(JSON.stringify(payload));
+      };
+
+      it('should accept tokens granted all required scopes', async () => {
+        mockPayload({ ...validPayload, scope: 'orders:read orders:write' });
+
+        const result = await validator.validate('header.payload.signature', {
+          requireScopes: ['orders:read', 'orders:write']
+        });
+        expect(result.isValid).toBe(true);
+      });
+
+      it('should reject tokens missing a required scope with insufficient_scope', async () => {
+        mockPayload({ ...validPayload, scope: 'orders:read' });
+
+        const result = await validator.validate('header.payload.signature', {
+          requireScopes: ['orders:read', 'orders:write']
+        });
+        expect(result).toEqual({
+          isValid: false,
+          errorCode: JwtValidationErrorCode.INSUFFICIENT_SCOPE,
+          errorMessage: 'Insufficient scope. Required all of: orders:read, orders:write'
+        });
+      });
+
+      it('should accept tokens granted any of the accepted scopes via scp', async () => {
+        mockPayload({ ...validPayload, scp: ['orders:admin'] });
+
+        const result = await validator.validate('header.payload.signature', {
+          requireAnyScope: ['orders:read', 'orders:admin']
+        });
+        expect(result.isValid).toBe(true);
+      });
+
+      it('should reject tokens granted none of the accepted scopes', async () => {
+        mockPayload({ ...validPayload, scp: ['profile'] });
+
+        const result = await validator.validate('header.payload.signature', {
+          requireAnyScope: ['orders:read', 'orders:admin']
+        });
+        expect(result).toEqual({
+          isValid: false,
+          errorCode: JwtValidationErrorCode.INSUFFICIENT_SCOPE,
+          errorMessage: 'Insufficient scope. Required one of: orders:read, orders:admin'
+        });
+      });
+
+      it('should treat empty scope requirements as no requirement', async () => {
+        const result = await validator.validate('header.payload.signature', {
+          requireScopes: [],
+          requireAnyScope: []
+        });
+        expect(result.isValid).toBe(true);
+      });
+
+      it('should report signature failures before scope failures', async () => {
+        mockVerifySignature.mockResolvedValue(false);
+
+        const result = await validator.validate('header.payload.signature', { requireScopes: ['orders:read'] });
+        expect(result.errorCode).toBe(JwtValidationErrorCode.BAD_SIGNATURE);
+      });
+    });
+
+    describe('Claims schema', () => {
+      const claimsSchema = {
+        sub: { type: 'string', required: true },
+        role: { type: 'string', required: true, enum: ['admin', 'member'] },
+        org: { type: 'object', required: true, properties: { id: { type: 'string', required: true } } },
+        permissions: { type: 'array', items: { type: 'string' } },
+      } as const satisfies ClaimsSchema;
+
+      const mockPayload = (payload: object): void => {
+        mockBase64urlDecode.mockReset();
+        mockBase64urlDecode
+          .mockReturnValueOnce(JSON.stringify(validHeader))
+          .mockReturnValueOnce(JSON.stringify(payload));
+      };
+
+      it('should return a payload typed after the schema that satisfies it', async () => {
+        mockPayload({ ...validPayload, role: 'admin', org: { id: 'org123' } });
+
+        const result = await validator.validate('header.payload.signature', { claimsSchema });
+        expect(result.isValid).toBe(true);
+        const role: 'admin' | 'member' | undefined = result.payload?.role;
+        const orgId: string | undefined = result.payload?.org.id;
+        const permissions: string[] | undefined = result.payload?.permissions;
+        const exp: number | undefined = result.payload?.exp;
+        expect(role).toBe('admin');
+        expect(orgId).toBe('org123');
+        expect(permissions).toBeUndefined();
+        expect(exp).toBe(validPayload.exp);
+        // @ts-expect-error - Claims not described by the schema are unknown
+        const tenantId: string | undefined = result.payload?.tnt_id;
+        expect(tenantId).toBeUndefined();
+      });
+
+      it('should infer the payload type from an inline schema', async () => {
+        mockPayload({ ...validPayload, level: 3 });
+
+        const result = await validator.validate('header.payload.signature', {
+          claimsSchema: { level: { type: 'number', required: true, enum: [1, 2, 3] } },
+        });
+        const level: 1 | 2 | 3 | undefined = result.payload?.level;
+        expect(level).toBe(3);
+      });
+
+      it('should type the payload with an explicit payload type checked by a claims schema', async () => {
+        mockPayload({ ...validPayload, tnt_id: 'tenant123', app_id: 'app123' });
+
+        const result = await validator.validate<WristbandAccessTokenPayload>('header.payload.signature', {
+          claimsSchema: { tnt_id: { type: 'string', required: true }, app_id: { type: 'string', required: true } },
+        });
+        expect(result.isValid).toBe(true);
+        const tenantId: string | undefined = result.payload?.tnt_id;
+        expect(tenantId).toBe('tenant123');
+      });
+
+      it('should only accept a payload type along with a claims schema', async () => {
+        mockPayload(validPayload);
+
+        // @ts-expect-error - A payload type without a claims schema would not be checked at runtime
+        const result = await validator.validate<WristbandAccessTokenPayload>('header.payload.signature');
+        expect(result.isValid).toBe(true);
+      });
+
+      it('should fail with missing_claim when a required schema claim is absent', async () => {
+        mockPayload({ ...validPayload, role: 'admin' });
+
+        const result = await validator.validate('header.payload.signature', { claimsSchema });
+        expect(result).toEqual({
+          isValid: false,
+          errorCode: JwtValidationErrorCode.MISSING_CLAIM,
+          errorMessage: 'Token is missing required claim: org'
+        });
+      });
+
+      it('should fail with invalid_claim when a claim does not match the schema', async () => {
+        mockPayload({ ...validPayload, role: 'owner', org: { id: 'org123' } });
+
+        const result = await validator.validate('header.payload.signature', { claimsSchema });
+        expect(result).toEqual({
+          isValid: false,
+          errorCode: JwtValidationErrorCode.INVALID_CLAIM,
+          errorMessage: "Claim 'role' must be one of: admin, member"
+        });
+      });
+    });
+
     describe('Unexpected errors', () => {
       it('should handle unexpected errors gracefully', async () => {
         // Throw error during signature verification to hit the outer catch block
-        mockVerifyRS256Signature.mockReset();
-        mockVerifyRS256Signature.mockRejectedValue(new Error('Unexpected error'));
+        mockVerifySignature.mockReset();
+        mockVerifySignature.mockRejectedValue(new Error('Unexpected error'));
 
         const result = await validator.validate('header.payload.signature');
         expect(result).toEqual({
           isValid: false,
+          errorCode: JwtValidationErrorCode.UNKNOWN,
           errorMessage: 'Unexpected error'
         });
       });
 
       it('should handle non-Error objects in catch block', async () => {
         // Throw non-Error object during signature verification
-        mockVerifyRS256Signature.mockReset();
-        mockVerifyRS256Signature.mockRejectedValue('string error');
+        mockVerifySignature.mockReset();
+        mockVerifySignature.mockRejectedValue('string error');
 
         const result = await validator.validate('header.payload.signature');
         expect(result).toEqual({
           isValid: false,
+          errorCode: JwtValidationErrorCode.UNKNOWN,
           errorMessage: 'Token validation failed'
         });
       });
@@ -447,6 +1269,7 @@ describe('createWristbandJwtValidator', () => {
       getSigningKey: jest.fn(),
       clear: jest.fn(),
       getCacheStats: jest.fn(),
+      guardRequest: jest.fn(request => request()),
     } as unknown as jest.Mocked<JWKSClient>;
   });
 
@@ -469,6 +1292,7 @@ describe('createWristbandJwtValidator', () => {
     expect(mockCreateJwksClient).toHaveBeenCalledWith({
       jwksUri: 'https://test.wristband.dev/api/v1/oauth2/jwks',
       cacheMaxSize: 15,
+      cacheStoreNamespace: 'https://test.wristband.dev',
       cacheTtl: 3600000
     });
   });
@@ -486,6 +1310,7 @@ describe('createWristbandJwtValidator', () => {
     expect(mockCreateJwksClient).toHaveBeenCalledWith({
       jwksUri: 'https://test.wristband.dev/api/v1/oauth2/jwks',
       cacheMaxSize: 20, // default value
+      cacheStoreNamespace: 'https://test.wristband.dev',
       cacheTtl: undefined
     });
   });
@@ -504,10 +1329,326 @@ describe('createWristbandJwtValidator', () => {
     expect(mockCreateJwksClient).toHaveBeenCalledWith({
       jwksUri: 'https://myapp.wristband.dev/api/v1/oauth2/jwks',
       cacheMaxSize: 10,
+      cacheStoreNamespace: 'https://myapp.wristband.dev',
       cacheTtl: undefined
     });
   });
 
+  it('should pass the configured audience to the validator', async () => {
+    jest.spyOn(jwksClient, 'createJwksClient').mockReturnValue(mockJwksClient);
+    jest.spyOn(crypto, 'base64urlDecode')
+      .mockReturnValueOnce(JSON.stringify({ alg: 'RS256', kid: 'test-key-id' }))
+      .mockReturnValueOnce(JSON.stringify({
+        iss: 'https://test.wristband.dev',
+        aud: 'billing-api',
+        sub: 'user123',
+        iat: Math.floor(Date.now() / 1000),
+        exp: Math.floor(Date.now() / 1000) + 3600
+      }));
+
+    const validator = createWristbandJwtValidator({
+      wristbandApplicationVanityDomain: 'test.wristband.dev',
+      audience: 'orders-api'
+    });
+
+    const result = await validator.validate('header.payload.signature');
+    expect(result.isValid).toBe(false);
+    expect(result.errorMessage).toBe('Invalid audience. Expected orders-api, got billing-api');
+  });
+
+  it('should pass the configured algorithms to the validator', async () => {
+    jest.spyOn(jwksClient, 'createJwksClient').mockReturnValue(mockJwksClient);
+    mockJwksClient.getSigningKey.mockResolvedValue(mockPublicKey);
+    const mockVerifySignature = jest.spyOn(crypto, 'verifySignature').mockResolvedValue(true);
+    const header = JSON.stringify({ alg: 'PS384', kid: 'test-key-id' });
+    const payload = JSON.stringify({
+      iss: 'https://test.wristband.dev',
+      sub: 'user123',
+      iat: Math.floor(Date.now() / 1000),
+      exp: Math.floor(Date.now() / 1000) + 3600
+    });
+    jest.spyOn(crypto, 'base64urlDecode')
+      .mockReturnValueOnce(header).mockReturnValueOnce(payload)
+      .mockReturnValueOnce(header).mockReturnValueOnce(payload);
+
+    const defaultValidator = createWristbandJwtValidator({ wristbandApplicationVanityDomain: 'test.wristband.dev' });
+    expect(await defaultValidator.validate('header.payload.signature')).toEqual({
+      isValid: false,
+      errorCode: JwtValidationErrorCode.BAD_ALGORITHM,
+      errorMessage: 'Algorithm PS384 not allowed. Expected one of: RS256'
+    });
+
+    const validator = createWristbandJwtValidator({
+      wristbandApplicationVanityDomain: 'test.wristband.dev',
+      algorithms: ['RS256', 'PS384']
+    });
+    const result = await validator.validate('header.payload.signature');
+    expect(result.isValid).toBe(true);
+    expect(mockVerifySignature).toHaveBeenCalledWith('PS384', 'header.payload', 'signature', mockPublicKey);
+  });
+
+  it('should pass the configured clock to the JWKS client', () => {
+    const mockCreateJwksClient = jest.spyOn(jwksClient, 'createJwksClient')
+      .mockReturnValue(mockJwksClient);
+    const clock = (): number => 0;
+
+    createWristbandJwtValidator({ wristbandApplicationVanityDomain: 'test.wristband.dev', clock });
+    expect(mockCreateJwksClient).toHaveBeenCalledWith(expect.objectContaining({ clock }));
+  });
+
+  it('should pass the configured JWKS refresh settings to the JWKS client', () => {
+    const mockCreateJwksClient = jest.spyOn(jwksClient, 'createJwksClient')
+      .mockReturnValue(mockJwksClient);
+
+    createWristbandJwtValidator({
+      wristbandApplicationVanityDomain: 'test.wristband.dev',
+      jwksRefreshInterval: 600000,
+      jwksMaxStale: 86400000
+    });
+    expect(mockCreateJwksClient).toHaveBeenCalledWith(expect.objectContaining({
+      refreshInterval: 600000,
+      maxStale: 86400000
+    }));
+  });
+
+  it('should pass the configured JWKS request options to the JWKS client', () => {
+    const mockCreateJwksClient = jest.spyOn(jwksClient, 'createJwksClient')
+      .mockReturnValue(mockJwksClient);
+    const customFetch = jest.fn();
+
+    createWristbandJwtValidator({
+      wristbandApplicationVanityDomain: 'test.wristband.dev',
+      jwksFetch: customFetch,
+      jwksTimeoutMs: 2000,
+      jwksHeaders: { 'User-Agent': 'orders-api' }
+    });
+    expect(mockCreateJwksClient).toHaveBeenCalledWith(expect.objectContaining({
+      fetch: customFetch,
+      timeoutMs: 2000,
+      headers: { 'User-Agent': 'orders-api' }
+    }));
+  });
+
+  it('should pass the configured JWKS retry policy to the JWKS client', () => {
+    const mockCreateJwksClient = jest.spyOn(jwksClient, 'createJwksClient')
+      .mockReturnValue(mockJwksClient);
+    const retryPolicy = { maxAttempts: 5, baseDelayMs: 200, maxDelayMs: 2000, jitter: true };
+
+    createWristbandJwtValidator({ wristbandApplicationVanityDomain: 'test.wristband.dev', jwksRetryPolicy: retryPolicy });
+    expect(mockCreateJwksClient).toHaveBeenCalledWith(expect.objectContaining({ retryPolicy }));
+  });
+
+  it('should resolve the JWKS URI and algorithms from the OpenID Connect discovery document when enabled', async () => {
+    const mockCreateJwksClient = jest.spyOn(jwksClient, 'createJwksClient')
+      .mockReturnValue(mockJwksClient);
+    const mockCreateDiscoveryClient = jest.spyOn(discovery, 'createOidcDiscoveryClient');
+    const jwksFetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        issuer: 'https://test.wristband.dev',
+        jwks_uri: 'https://keys.test.wristband.dev/jwks',
+        id_token_signing_alg_values_supported: ['RS256'],
+      }),
+    });
+
+    createWristbandJwtValidator({
+      wristbandApplicationVanityDomain: 'test.wristband.dev',
+      oidcDiscovery: { cacheTtl: 600000 },
+      jwksFetch,
+      jwksTimeoutMs: 5000,
+    });
+    expect(mockCreateDiscoveryClient).toHaveBeenCalledWith(expect.objectContaining({
+      issuer: 'https://test.wristband.dev',
+      cacheTtl: 600000,
+      fetch: jwksFetch,
+      timeoutMs: 5000,
+    }));
+
+    const { jwksUri } = mockCreateJwksClient.mock.calls[0][0];
+    expect(typeof jwksUri).toBe('function');
+    await expect((jwksUri as () => Promise<string>)()).resolves.toBe('https://keys.test.wristband.dev/jwks');
+    expect(jwksFetch).toHaveBeenCalledWith(
+      'https://test.wristband.dev/.well-known/openid-configuration', expect.any(Object)
+    );
+    // Discovery requests go through the JWKS client's circuit breaker
+    expect(mockJwksClient.guardRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only accept RS256 by default when the discovery document advertises no algorithms', async () => {
+    jest.spyOn(jwksClient, 'createJwksClient').mockReturnValue(mockJwksClient);
+    const discoveryDocument = { issuer: 'https://test.wristband.dev', jwks_uri: 'https://keys.test.wristband.dev/jwks' };
+    const jwksFetch = jest.fn().mockResolvedValue({ ok: true, json: async () => discoveryDocument });
+    const encode = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const token = `${encode({ alg: 'PS256', kid: 'key-1' })}.${encode({ iss: 'https://test.wristband.dev' })}.sig`;
+
+    const validator = createWristbandJwtValidator({
+      wristbandApplicationVanityDomain: 'test.wristband.dev', oidcDiscovery: true, jwksFetch
+    });
+    await expect(validator.validate(token)).resolves.toEqual({
+      isValid: false,
+      errorCode: JwtValidationErrorCode.BAD_ALGORITHM,
+      errorMessage: 'Algorithm PS256 not allowed. Expected one of: RS256',
+    });
+
+    // Algorithms configured explicitly are all accepted, so the token gets past the algorithm check
+    const configuredValidator = createWristbandJwtValidator({
+      wristbandApplicationVanityDomain: 'test.wristband.dev', oidcDiscovery: true, jwksFetch, algorithms: ['PS256']
+    });
+    await expect(configuredValidator.validate(token)).resolves.toMatchObject({
+      errorCode: JwtValidationErrorCode.MISSING_CLAIM,
+    });
+  });
+
+  it('should back off from a failing discovery endpoint and report its failures in the JWKS health', async () => {
+    const jwksFetch = jest.fn().mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+    const validator = createWristbandJwtValidator({
+      wristbandApplicationVanityDomain: 'test.wristband.dev',
+      oidcDiscovery: true,
+      jwksFetch,
+    });
+    const encode = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const token = `${encode({ alg: 'RS256', kid: 'key-1' })}.${encode({ iss: 'https://test.wristband.dev' })}.sig`;
+
+    for (let i = 0; i < 10; i++) {
+      await expect(validator.validate(token)).resolves.toMatchObject({
+        isValid: false,
+        errorCode: JwtValidationErrorCode.JWKS_UNAVAILABLE,
+      });
+    }
+    expect(jwksFetch).toHaveBeenCalledTimes(1);
+    expect(validator.getJwksHealth()).toMatchObject({ circuitState: 'closed', consecutiveFailures: 1 });
+  });
+
+  it('should not use OpenID Connect discovery by default', () => {
+    const mockCreateJwksClient = jest.spyOn(jwksClient, 'createJwksClient')
+      .mockReturnValue(mockJwksClient);
+    const mockCreateDiscoveryClient = jest.spyOn(discovery, 'createOidcDiscoveryClient');
+
+    createWristbandJwtValidator({ wristbandApplicationVanityDomain: 'test.wristband.dev' });
+    expect(mockCreateDiscoveryClient).not.toHaveBeenCalled();
+    expect(mockCreateJwksClient).toHaveBeenCalledWith(expect.objectContaining({
+      jwksUri: 'https://test.wristband.dev/api/v1/oauth2/jwks'
+    }));
+  });
+
+  it('should pass a static key set to the JWKS client and skip OpenID Connect discovery', () => {
+    const mockCreateJwksClient = jest.spyOn(jwksClient, 'createJwksClient')
+      .mockReturnValue(mockJwksClient);
+    const mockCreateDiscoveryClient = jest.spyOn(discovery, 'createOidcDiscoveryClient');
+    const staticJwks = { path: '/etc/wristband/jwks.json' };
+
+    createWristbandJwtValidator({
+      wristbandApplicationVanityDomain: 'test.wristband.dev',
+      staticJwks,
+      oidcDiscovery: true
+    });
+    expect(mockCreateDiscoveryClient).not.toHaveBeenCalled();
+    expect(mockCreateJwksClient).toHaveBeenCalledWith(expect.objectContaining({ staticJwks }));
+  });
+
+  it('should pass the configured JWKS circuit breaker to the JWKS client', () => {
+    const mockCreateJwksClient = jest.spyOn(jwksClient, 'createJwksClient')
+      .mockReturnValue(mockJwksClient);
+    const circuitBreaker = { failureThreshold: 3, resetTimeoutMs: 60000 };
+
+    createWristbandJwtValidator({
+      wristbandApplicationVanityDomain: 'test.wristband.dev',
+      jwksCircuitBreaker: circuitBreaker
+    });
+    expect(mockCreateJwksClient).toHaveBeenCalledWith(expect.objectContaining({ circuitBreaker }));
+  });
+
+  it('should pass the configured JWKS cache store to the JWKS client', () => {
+    const mockCreateJwksClient = jest.spyOn(jwksClient, 'createJwksClient')
+      .mockReturnValue(mockJwksClient);
+    const jwksCacheStore = new InMemoryRemoteJwksCacheStore();
+
+    createWristbandJwtValidator({ wristbandApplicationVanityDomain: 'test.wristband.dev', jwksCacheStore });
+    expect(mockCreateJwksClient).toHaveBeenCalledWith(expect.objectContaining({
+      cacheStore: jwksCacheStore,
+      cacheStoreNamespace: 'https://test.wristband.dev',
+    }));
+  });
+
+  it('should not verify tokens with keys another issuer wrote to a shared JWKS cache store', async () => {
+    const keyPair = await globalThis.crypto.subtle.generateKey(
+      { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+      true,
+      ['sign', 'verify']
+    );
+    const { kty, n, e } = await globalThis.crypto.subtle.exportKey('jwk', keyPair.publicKey);
+    const encode = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const sign = async (iss: string): Promise<string> => {
+      const now = Math.floor(Date.now() / 1000);
+      const data = `${encode({ alg: 'RS256', kid: 'key-a' })}.${encode({ iss, sub: 'user-1', iat: now, exp: now + 300 })}`;
+      const signature = await globalThis.crypto.subtle.sign(
+        'RSASSA-PKCS1-v1_5', keyPair.privateKey, new TextEncoder().encode(data)
+      );
+      return `${data}.${Buffer.from(signature).toString('base64url')}`;
+    };
+    const jwksCacheStore = new InMemoryRemoteJwksCacheStore();
+    const validatorA = createWristbandJwtValidator({
+      wristbandApplicationVanityDomain: 'a.example.com',
+      jwksCacheStore,
+      jwksFetch: jest.fn().mockResolvedValue({ ok: true, json: async () => ({ keys: [{ kty, n, e, kid: 'key-a' }] }) }),
+    });
+    const jwksFetchB = jest.fn().mockResolvedValue({ ok: true, json: async () => ({ keys: [] }) });
+    const validatorB = createWristbandJwtValidator({
+      wristbandApplicationVanityDomain: 'b.example.com',
+      jwksCacheStore,
+      jwksFetch: jwksFetchB,
+    });
+
+    await expect(validatorA.validate(await sign('https://a.example.com'))).resolves.toMatchObject({
+      isValid: true,
+    });
+    // A's key is in the store, but B only trusts the keys of its own key set
+    await expect(validatorB.validate(await sign('https://b.example.com'))).resolves.toMatchObject({
+      isValid: false,
+      errorCode: JwtValidationErrorCode.KEY_NOT_FOUND,
+    });
+    expect(jwksFetchB).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass the key snapshot to the JWKS client', () => {
+    const mockCreateJwksClient = jest.spyOn(jwksClient, 'createJwksClient')
+      .mockReturnValue(mockJwksClient);
+    const keySnapshot = { version: 1 as const, keys: [] };
+
+    createWristbandJwtValidator({ wristbandApplicationVanityDomain: 'test.wristband.dev', keySnapshot });
+    expect(mockCreateJwksClient).toHaveBeenCalledWith(expect.objectContaining({ keySnapshot }));
+  });
+
+  it('should pass the configured JWKS cache TTL bounds to the JWKS client', () => {
+    const mockCreateJwksClient = jest.spyOn(jwksClient, 'createJwksClient')
+      .mockReturnValue(mockJwksClient);
+
+    createWristbandJwtValidator({
+      wristbandApplicationVanityDomain: 'test.wristband.dev',
+      jwksCacheMinTtl: 300000,
+      jwksCacheMaxTtl: 3600000
+    });
+    expect(mockCreateJwksClient).toHaveBeenCalledWith(expect.objectContaining({
+      cacheMinTtl: 300000,
+      cacheMaxTtl: 3600000
+    }));
+  });
+
+  it('should pass the configured JWKS refetch settings to the JWKS client', () => {
+    const mockCreateJwksClient = jest.spyOn(jwksClient, 'createJwksClient')
+      .mockReturnValue(mockJwksClient);
+
+    createWristbandJwtValidator({
+      wristbandApplicationVanityDomain: 'test.wristband.dev',
+      jwksRefetchInterval: 60000,
+      jwksNegativeCacheTtl: 0
+    });
+    expect(mockCreateJwksClient).toHaveBeenCalledWith(expect.objectContaining({
+      refetchInterval: 60000,
+      negativeCacheTtl: 0
+    }));
+  });
+
   it('should pass undefined cacheTtl when not provided', () => {
     const mockCreateJwksClient = jest.spyOn(jwksClient, 'createJwksClient')
       .mockReturnValue(mockJwksClient);
@@ -522,6 +1663,7 @@ describe('createWristbandJwtValidator', () => {
     expect(mockCreateJwksClient).toHaveBeenCalledWith({
       jwksUri: 'https://test.wristband.dev/api/v1/oauth2/jwks',
       cacheMaxSize: 5,
+      cacheStoreNamespace: 'https://test.wristband.dev',
       cacheTtl: undefined // should be undefined when not set (cached indefinitely)
     });
   });